@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { TrashIcon, VolumeXIcon, Volume2Icon, Edit3 } from 'lucide-react';
 import { WaveformDisplay } from './WaveformDisplay';
 import { AudioTrack, ProjectManager } from '@/services/ProjectManager';
+import { AudioStore } from '@/services/AudioStore';
 
 interface AudioLayerProps {
   track: AudioTrack;
@@ -32,8 +33,11 @@ export function AudioLayer({
 
   useEffect(() => {
     const loadAudioBuffer = async () => {
-      if (track.audioData && !audioBuffer) {
+      if ((track.audioData || track.audioHash) && !audioBuffer) {
         try {
+          const audioData = await AudioStore.resolveAudio(track.audioData, track.audioHash);
+          if (!audioData) return;
+
           if (!audioContextRef.current) {
             audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
           }
@@ -42,7 +46,7 @@ export function AudioLayer({
             await audioContextRef.current.resume();
           }
           
-          const buffer = await ProjectManager.base64ToAudioBuffer(track.audioData, audioContextRef.current);
+          const buffer = await ProjectManager.base64ToAudioBuffer(audioData, audioContextRef.current);
           setAudioBuffer(buffer);
         } catch (error) {
           console.error('Error loading audio buffer:', error);
@@ -51,7 +55,7 @@ export function AudioLayer({
     };
 
     loadAudioBuffer();
-  }, [track.audioData, audioBuffer]);
+  }, [track.audioData, track.audioHash, audioBuffer]);
 
   return (
     <Card className="bg-card border-border overflow-hidden group">
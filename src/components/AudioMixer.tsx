@@ -1,4 +1,17 @@
-import { AudioTrack } from '@/services/ProjectManager';
+import { AudioTrack, type MixBus } from '@/services/ProjectManager';
+import { AudioStore } from '@/services/AudioStore';
+import {
+  clampPan,
+  clipWindow,
+  createBusStrip,
+  createMasterStrip,
+  createTrackStrip,
+  type MasterSettings,
+} from '@/services/MixGraph';
+import { DEFAULT_MASTER_LIMITER, limiterLatencySamples, loadMasterLimiter } from '@/services/MasterLimiter';
+import { effectTailSeconds } from '@/services/TrackEffects';
+import { scheduleAutomation } from '@/services/Automation';
+import { clipEnvelopes, scheduleClipFades } from '@/services/ClipFades';
 
 export class AudioMixerService {
   private audioContext: AudioContext | null = null;
@@ -20,7 +33,7 @@ export class AudioMixerService {
   }
 
   async playTrack(track: AudioTrack, startTime: number = 0): Promise<void> {
-    if (!track.audioData || track.isMuted) return;
+    if (!AudioStore.hasTrackAudio(track) || track.isMuted) return;
 
     const audioContext = await this.initializeAudioContext();
     
@@ -29,7 +42,8 @@ export class AudioMixerService {
       this.stopTrack(track.id);
 
       // Convert base64 to AudioBuffer
-      const audioBuffer = await this.base64ToAudioBuffer(track.audioData, audioContext);
+      const audioData = await AudioStore.getTrackAudio(track);
+      const audioBuffer = await this.base64ToAudioBuffer(audioData, audioContext);
       
       // Create source node
       const source = audioContext.createBufferSource();
@@ -79,7 +93,7 @@ export class AudioMixerService {
 
   async playMultipleTracks(tracks: AudioTrack[], startTime: number = 0): Promise<void> {
     const playPromises = tracks
-      .filter(track => !track.isMuted && track.audioData)
+      .filter(track => !track.isMuted && AudioStore.hasTrackAudio(track))
       .map(track => this.playTrack(track, startTime));
     
     await Promise.all(playPromises);
@@ -134,7 +148,18 @@ export class AudioMixerService {
     }
   }
 
-  async mixTracks(tracks: AudioTrack[]): Promise<AudioBuffer> {
+  /**
+   * Render the project offline through the same track strips PlaybackEngine
+   * uses live (trims, fades and crossfades, inserts, volume, pan, automation,
+   * mute/solo, buses and sends) and the master volume and limiter, so the
+   * export matches what was heard and never goes over the limiter's ceiling.
+   */
+  async mixTracks(
+    tracks: AudioTrack[],
+    soloTrackIds: Set<string> = new Set(),
+    buses: MixBus[] = [],
+    master: MasterSettings = { volume: 1, limiter: DEFAULT_MASTER_LIMITER }
+  ): Promise<AudioBuffer> {
     console.log('🎵 Starting to mix tracks:', tracks.length);
     
     const audioContext = await this.initializeAudioContext();
@@ -148,20 +173,22 @@ export class AudioMixerService {
     let maxDuration = 0;
 
     for (const track of tracks) {
-      if (!track.audioData) {
+      if (!AudioStore.hasTrackAudio(track)) {
         console.warn('⚠️ Skipping track without audio data:', track.name);
         continue;
       }
 
-      // Validate track audio data
-      if (typeof track.audioData !== 'string' || track.audioData.length < 10) {
-        console.error('❌ Invalid audio data for track:', track.name);
-        continue;
-      }
-
       try {
-        console.log(`🔄 Processing track: ${track.name}, data length: ${track.audioData.length}`);
-        const buffer = await this.base64ToAudioBuffer(track.audioData, audioContext);
+        const audioData = await AudioStore.getTrackAudio(track);
+
+        // Validate track audio data
+        if (typeof audioData !== 'string' || audioData.length < 10) {
+          console.error('❌ Invalid audio data for track:', track.name);
+          continue;
+        }
+
+        console.log(`🔄 Processing track: ${track.name}, data length: ${audioData.length}`);
+        const buffer = await this.base64ToAudioBuffer(audioData, audioContext);
         
         // Validate buffer
         if (!buffer || buffer.length === 0 || buffer.numberOfChannels === 0) {
@@ -170,12 +197,13 @@ export class AudioMixerService {
         }
         
         // Calculate track end time including its position on timeline
-        const trackStartTime = (track as any).startTime || 0;
-        const trackEndTime = trackStartTime + buffer.duration;
-        maxDuration = Math.max(maxDuration, trackEndTime);
+        // Delay repeats and reverb tails ring on past the clip
+        const clip = clipWindow(track, buffer);
+        const clipEnd = clip.start + Math.max(0, clip.trimEnd - clip.trimStart);
+        maxDuration = Math.max(maxDuration, clipEnd + effectTailSeconds(track.effects));
         
         validTracks.push({ track, buffer });
-        console.log(`✅ Loaded track: ${track.name}, duration: ${buffer.duration}s, position: ${trackStartTime}s`);
+        console.log(`✅ Loaded track: ${track.name}, duration: ${buffer.duration}s, position: ${clip.start}s`);
       } catch (error) {
         console.error(`❌ Failed to load audio data for track ${track.name}:`, error);
         continue; // Skip this track but continue with others
@@ -186,10 +214,13 @@ export class AudioMixerService {
       throw new Error('No valid audio tracks found to mix. Please check your audio data.');
     }
 
+    // Bus effects ring on after everything feeding them has stopped
+    maxDuration += buses.reduce((tail, bus) => Math.max(tail, effectTailSeconds(bus.effects)), 0);
+
     // Ensure minimum duration
     maxDuration = Math.max(maxDuration, 1.0);
 
-    // Create output buffer with validation
+    // Create output context with validation
     const sampleRate = audioContext.sampleRate;
     const outputChannels = 2; // Stereo
     const outputLength = Math.ceil(maxDuration * sampleRate);
@@ -198,36 +229,55 @@ export class AudioMixerService {
       throw new Error(`Invalid output length: ${outputLength} samples`);
     }
     
-    const outputBuffer = audioContext.createBuffer(outputChannels, outputLength, sampleRate);
+    // The limiter's look-ahead delays everything; render long enough to cover it and trim it off the front
+    const offlineContext = new OfflineAudioContext(
+      outputChannels,
+      outputLength + limiterLatencySamples(sampleRate, true),
+      sampleRate
+    );
+    const useWorklet = await loadMasterLimiter(offlineContext);
+    const masterStrip = createMasterStrip(offlineContext, master, offlineContext.destination, useWorklet);
+    const busStrips = new Map(buses.map(bus => [
+      bus.id,
+      createBusStrip(offlineContext, bus, buses, masterStrip.input),
+    ]));
+
+    // Soloed tracks play regardless of mute, as in live playback
+    const isAudible = (track: AudioTrack) =>
+      soloTrackIds.size > 0 ? soloTrackIds.has(track.id) : !track.isMuted;
 
-    // Mix all valid tracks
+    // Crossfades are worked out over every clip, muted or not, as in live playback
+    const envelopes = clipEnvelopes(validTracks.map(({ track, buffer }) => ({ track, window: clipWindow(track, buffer) })));
+
+    let mixedCount = 0;
+    for (const { track, buffer } of validTracks) {
+      if (!isAudible(track)) continue;
+
+      const envelope = envelopes.get(track.id)!;
+      if (envelope.end <= envelope.start) continue;
+
+      const strip = createTrackStrip(offlineContext, track, busStrips, masterStrip.input);
+      const song = [{ startTime: 0, position: 0, endTime: Infinity }];
+      scheduleAutomation(strip.automation.gain, track.automation?.volume, song, 0, 0, 1);
+      scheduleAutomation(strip.panner.pan, track.automation?.pan, song, 0, 0, clampPan(track.pan));
+      const source = offlineContext.createBufferSource();
+      source.buffer = buffer;
+      const clipFades = offlineContext.createGain();
+      scheduleClipFades(clipFades.gain, envelope, envelope.start, envelope.start);
+      source.connect(clipFades);
+      clipFades.connect(strip.input);
+      source.start(envelope.start, envelope.trimStart, envelope.end - envelope.start);
+      mixedCount++;
+    }
+
+    const rendered = await offlineContext.startRendering();
+    const latency = masterStrip.limiter.latencySamples;
+    const outputBuffer = audioContext.createBuffer(outputChannels, outputLength, sampleRate);
     for (let channel = 0; channel < outputChannels; channel++) {
-      const outputData = outputBuffer.getChannelData(channel);
-      
-      for (const { track, buffer } of validTracks) {
-        try {
-          // Calculate start position in samples
-          const startSample = Math.floor(((track as any).startTime || 0) * sampleRate);
-          
-          // Get input data (use mono for both channels if input is mono)
-          const inputData = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
-          
-          // Mix the audio data with bounds checking
-          for (let sample = 0; sample < inputData.length && (startSample + sample) < outputLength; sample++) {
-            const outputIndex = startSample + sample;
-            if (outputIndex >= 0 && outputIndex < outputData.length) {
-              // Apply volume and mix with clipping protection
-              const mixedValue = outputData[outputIndex] + (inputData[sample] * (track.volume || 1.0));
-              outputData[outputIndex] = Math.max(-1, Math.min(1, mixedValue));
-            }
-          }
-        } catch (error) {
-          console.error(`❌ Error mixing track ${track.name}:`, error);
-        }
-      }
+      outputBuffer.copyToChannel(rendered.getChannelData(channel).subarray(latency, latency + outputLength), channel);
     }
 
-    console.log(`✅ Successfully mixed ${validTracks.length} tracks into ${maxDuration.toFixed(2)}s output`);
+    console.log(`✅ Successfully mixed ${mixedCount} tracks into ${maxDuration.toFixed(2)}s output`);
     return outputBuffer;
   }
 
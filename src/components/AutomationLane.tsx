@@ -0,0 +1,229 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useSnapToGrid } from '@/hooks/useSnapToGrid';
+import type { TempoMap } from '@/lib/tempoMap';
+import type { Groove } from '@/lib/groove';
+import { AudioTrack } from '@/services/ProjectManager';
+import {
+  AUTOMATION_RANGES,
+  sortPoints,
+  type AutomationParam,
+  type AutomationPoint,
+  type TrackAutomation,
+} from '@/services/Automation';
+import { XIcon } from 'lucide-react';
+
+interface AutomationLaneProps {
+  track: AudioTrack;
+  param: AutomationParam;
+  timeToPixels: (time: number) => number;
+  pixelsToTime: (pixels: number) => number;
+  timelineWidth: number;
+  tempoMap?: TempoMap;
+  groove?: Groove;
+  snapToGrid?: boolean;
+  zoomLevel?: number;
+  onAutomationChange: (trackId: string, automation: TrackAutomation) => void;
+  onParamChange: (param: AutomationParam) => void;
+  onClose: () => void;
+}
+
+const LANE_HEIGHT = 64; // h-16, same as the clip row above
+const POINT_RADIUS = 5;
+const INSET = POINT_RADIUS + 1; // keeps points at the extremes fully visible
+const HIT_RADIUS_PX = 12; // finger-sized
+const DOUBLE_TAP_MS = 300;
+
+const formatValue = (param: AutomationParam, value: number): string => {
+  if (param === 'volume') return `${Math.round(value * 100)}%`;
+  const percent = Math.round(Math.abs(value) * 100);
+  return percent === 0 ? 'C' : `${value < 0 ? 'L' : 'R'}${percent}`;
+};
+
+export function AutomationLane({
+  track,
+  param,
+  timeToPixels,
+  pixelsToTime,
+  timelineWidth,
+  tempoMap,
+  groove,
+  snapToGrid = true,
+  zoomLevel = 1,
+  onAutomationChange,
+  onParamChange,
+  onClose,
+}: AutomationLaneProps) {
+  const { snapToGrid: snapTime } = useSnapToGrid({ tempoMap, groove, snapEnabled: snapToGrid, zoomLevel });
+  const { min, max } = AUTOMATION_RANGES[param];
+  const savedPoints = sortPoints(track.automation?.[param] ?? []);
+
+  // Local copy while dragging, committed on release like clip moves
+  const [draftPoints, setDraftPoints] = useState<AutomationPoint[] | null>(null);
+  const dragRef = useRef<{ index: number; moved: boolean } | null>(null);
+  const lastTapRef = useRef<{ index: number; time: number } | null>(null);
+  const points = draftPoints ?? savedPoints;
+
+  const valueToY = (value: number) =>
+    INSET + (1 - (value - min) / (max - min)) * (LANE_HEIGHT - INSET * 2);
+  const yToValue = (y: number) => {
+    const ratio = 1 - (y - INSET) / (LANE_HEIGHT - INSET * 2);
+    const value = min + Math.max(0, Math.min(1, ratio)) * (max - min);
+    return Math.round(value * 100) / 100;
+  };
+
+  const commit = (next: AutomationPoint[]) => {
+    onAutomationChange(track.id, { ...track.automation, [param]: next });
+  };
+
+  const localPosition = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.stopPropagation();
+    const { x, y } = localPosition(e);
+
+    const hitIndex = points.findIndex(point =>
+      Math.hypot(timeToPixels(point.time) - x, valueToY(point.value) - y) <= HIT_RADIUS_PX
+    );
+
+    if (hitIndex !== -1) {
+      // Double-tap removes a point
+      const lastTap = lastTapRef.current;
+      if (lastTap?.index === hitIndex && e.timeStamp - lastTap.time < DOUBLE_TAP_MS) {
+        lastTapRef.current = null;
+        commit(points.filter((_, i) => i !== hitIndex));
+        return;
+      }
+      lastTapRef.current = { index: hitIndex, time: e.timeStamp };
+      dragRef.current = { index: hitIndex, moved: false };
+      setDraftPoints(points);
+    } else {
+      const point = { time: Math.max(0, snapTime(pixelsToTime(x))), value: yToValue(y) };
+      const next = sortPoints([...points, point]);
+      dragRef.current = { index: next.indexOf(point), moved: true };
+      lastTapRef.current = null;
+      setDraftPoints(next);
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !draftPoints) return;
+    const { x, y } = localPosition(e);
+
+    // A point can't pass its neighbours, so the lane stays in time order
+    const previous = draftPoints[drag.index - 1];
+    const next = draftPoints[drag.index + 1];
+    const time = Math.max(
+      previous?.time ?? 0,
+      Math.min(next?.time ?? Infinity, snapTime(pixelsToTime(x)))
+    );
+
+    drag.moved = true;
+    setDraftPoints(draftPoints.map((point, i) => (i === drag.index ? { time, value: yToValue(y) } : point)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    if (drag?.moved && draftPoints) commit(draftPoints);
+    setDraftPoints(null);
+  };
+
+  const linePoints = points.map(point => `${timeToPixels(point.time)},${valueToY(point.value)}`);
+  if (points.length > 0) {
+    // Flat before the first point and after the last, as it plays
+    linePoints.unshift(`0,${valueToY(points[0].value)}`);
+    linePoints.push(`${timelineWidth},${valueToY(points[points.length - 1].value)}`);
+  }
+  const draggedPoint = draftPoints && dragRef.current ? draftPoints[dragRef.current.index] : undefined;
+
+  return (
+    <div
+      className="relative h-16 border-b border-border/20 bg-muted/20"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <svg
+        width={timelineWidth}
+        height={LANE_HEIGHT}
+        className="absolute inset-0 cursor-crosshair"
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {param === 'pan' && (
+          <line
+            x1={0}
+            x2={timelineWidth}
+            y1={valueToY(0)}
+            y2={valueToY(0)}
+            className="stroke-border"
+            strokeDasharray="4 4"
+          />
+        )}
+        {points.length > 0 && (
+          <polyline points={linePoints.join(' ')} fill="none" className="stroke-primary" strokeWidth={1.5} />
+        )}
+        {points.map((point, index) => (
+          <circle
+            key={index}
+            cx={timeToPixels(point.time)}
+            cy={valueToY(point.value)}
+            r={POINT_RADIUS}
+            className="fill-background stroke-primary"
+            strokeWidth={1.5}
+          />
+        ))}
+      </svg>
+
+      {draggedPoint && (
+        <div
+          className="absolute -top-5 text-[10px] font-mono bg-primary text-primary-foreground px-1 rounded pointer-events-none z-20"
+          style={{ left: `${timeToPixels(draggedPoint.time) + 8}px` }}
+        >
+          {formatValue(param, draggedPoint.value)}
+        </div>
+      )}
+
+      {/* Lane header */}
+      <div className="absolute top-1 left-1 flex items-center gap-0.5 rounded bg-background/80 px-1 z-10">
+        {(['volume', 'pan'] as AutomationParam[]).map(option => (
+          <Button
+            key={option}
+            variant="ghost"
+            size="sm"
+            onClick={() => onParamChange(option)}
+            className={`h-5 px-1.5 text-[10px] font-bold ${
+              option === param ? 'bg-primary/20 text-primary' : 'text-muted-foreground'
+            }`}
+          >
+            {option === 'volume' ? 'VOL' : 'PAN'}
+            {(track.automation?.[option]?.length ?? 0) > 0 && ' •'}
+          </Button>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => commit([])}
+          disabled={savedPoints.length === 0}
+          className="h-5 px-1.5 text-[10px] text-muted-foreground"
+        >
+          Clear
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-5 w-5 p-0 text-muted-foreground">
+          <XIcon className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
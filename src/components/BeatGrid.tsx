@@ -1,7 +1,9 @@
+import type { TempoMap } from '@/lib/tempoMap';
+
 interface BeatGridProps {
   timelineWidth: number;
   totalDuration: number;
-  bpm: number;
+  tempoMap: TempoMap;
   timeToPixels: (time: number, width: number) => number;
   showGrid?: boolean;
   subdivision?: number; // 1 = quarter notes, 2 = eighth notes, 4 = sixteenth notes
@@ -11,7 +13,7 @@ interface BeatGridProps {
 export function BeatGrid({
   timelineWidth,
   totalDuration,
-  bpm,
+  tempoMap,
   timeToPixels,
   showGrid = true,
   subdivision = 4,
@@ -19,40 +21,23 @@ export function BeatGrid({
 }: BeatGridProps) {
   if (!showGrid) return null;
 
-  const beatDuration = 60 / bpm;
-  
   // Increase grid density based on zoom level
   let effectiveSubdivision = subdivision;
   if (zoomLevel >= 2) effectiveSubdivision = subdivision * 2;
   if (zoomLevel >= 4) effectiveSubdivision = subdivision * 4;
   if (zoomLevel >= 6) effectiveSubdivision = subdivision * 8;
   
-  const subdivisionDuration = beatDuration / effectiveSubdivision;
   const gridLines: { position: number; isBeat: boolean; isMeasure: boolean; isSubdivision?: boolean }[] = [];
 
-  let time = 0;
-  let beatCount = 0;
-  let measureCount = 0;
-
-  while (time <= totalDuration) {
-    const position = timeToPixels(time, timelineWidth);
-    const isBeat = beatCount % effectiveSubdivision === 0;
-    const isSubdivision = beatCount % (effectiveSubdivision / 4) === 0 && !isBeat;
-    const isMeasure = isBeat && beatCount % (4 * effectiveSubdivision) === 0;
-
+  // Lines are placed through the tempo map, so they follow tempo and time signature changes
+  for (const line of tempoMap.gridBetween(0, totalDuration, effectiveSubdivision)) {
+    const sixteenths = line.offset * 4;
     gridLines.push({
-      position,
-      isBeat,
-      isMeasure,
-      isSubdivision,
+      position: timeToPixels(line.time, timelineWidth),
+      isBeat: line.isBeat,
+      isMeasure: line.isBar,
+      isSubdivision: !line.isBeat && Math.abs(sixteenths - Math.round(sixteenths)) < 1e-9,
     });
-
-    time += subdivisionDuration;
-    beatCount++;
-    
-    if (isMeasure) {
-      measureCount++;
-    }
   }
 
   return (
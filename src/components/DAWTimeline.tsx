@@ -1,6 +1,10 @@
-import { useRef, useCallback, useEffect, memo } from 'react';
-import { AudioTrack } from '@/services/ProjectManager';
+import { useRef, useCallback, useEffect, useState, memo } from 'react';
+import { AudioTrack, type LoopSettings, type MixBus } from '@/services/ProjectManager';
 import { TrackControls } from '@/components/TrackControls';
+import { AutomationLane } from '@/components/AutomationLane';
+import { TempoLane } from '@/components/TempoLane';
+import { MeterLane } from '@/components/MeterLane';
+import type { TrackRouting } from '@/components/TrackRoutingPopover';
 import { WaveformBlock } from '@/components/WaveformBlock';
 import { MeasureRuler } from '@/components/MeasureRuler';
 import { ZoomControls } from '@/components/ZoomControls';
@@ -8,7 +12,14 @@ import { TimelinePanZoom } from '@/components/TimelinePanZoom';
 import { TimelineScrollbar } from '@/components/TimelineScrollbar';
 import { useTimeline } from '@/hooks/useTimeline';
 import { useTimelineZoom } from '@/hooks/useTimelineZoom';
+import { AudioStore } from '@/services/AudioStore';
+import type { TrackEffect } from '@/services/TrackEffects';
+import type { AutomationParam, TrackAutomation } from '@/services/Automation';
+import { DEFAULT_TEMPO_MAP, type MeterEvent, type TempoEvent, type TempoMap, type TimeSignature } from '@/lib/tempoMap';
+import type { Groove } from '@/lib/groove';
+import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { GaugeIcon, Music2Icon } from 'lucide-react';
 
 interface DAWTimelineProps {
   tracks: AudioTrack[];
@@ -22,16 +33,26 @@ interface DAWTimelineProps {
   onToggleTrackSolo: (trackId: string) => void;
   onToggleTrackRecord: (trackId: string) => void;
   onTrackVolumeChange: (trackId: string, volume: number) => void;
+  onTrackPanChange: (trackId: string, pan: number) => void;
+  onTrackEffectsChange: (trackId: string, effects: TrackEffect[]) => void;
+  onTrackRoutingChange: (trackId: string, routing: TrackRouting) => void;
+  onTrackAutomationChange: (trackId: string, automation: TrackAutomation) => void;
+  buses?: MixBus[];
   onRemoveTrack: (trackId: string) => void;
   onUpdateTrackName: (trackId: string, name: string) => void;
   onTrackUpdate: (trackId: string, updates: Partial<AudioTrack>) => void;
   onCutTrack?: (originalId: string, part1: AudioTrack, part2: AudioTrack) => void;
-  bpm?: number;
+  tempoMap?: TempoMap;
+  onTempoMapChange?: (tempo: number, changes: TempoEvent[]) => void;
+  onMeterChange?: (timeSignature: TimeSignature, meterChanges: MeterEvent[]) => void;
+  groove?: Groove;
   snapToGrid?: boolean;
   onScrollToTime?: (scrollToTimeFunction: (time: number) => void) => void;
   zoomLevel?: number;
   showProgressOverlay?: boolean;
   soloTracks?: Set<string>;
+  loopRegion?: LoopSettings | null;
+  onLoopRegionChange?: (loop: LoopSettings) => void;
 }
 
 export const DAWTimeline = memo(function DAWTimeline({ 
@@ -46,21 +67,47 @@ export const DAWTimeline = memo(function DAWTimeline({
   onToggleTrackSolo,
   onToggleTrackRecord,
   onTrackVolumeChange,
+  onTrackPanChange,
+  onTrackEffectsChange,
+  onTrackRoutingChange,
+  onTrackAutomationChange,
+  buses = [],
   onRemoveTrack,
   onUpdateTrackName,
   onTrackUpdate,
   onCutTrack,
-  bpm = 120,
+  tempoMap = DEFAULT_TEMPO_MAP,
+  onTempoMapChange,
+  onMeterChange,
+  groove,
   snapToGrid = true,
   onScrollToTime,
   zoomLevel: zoomLevelProp,
   showProgressOverlay = true,
-  soloTracks = new Set()
+  soloTracks = new Set(),
+  loopRegion,
+  onLoopRegionChange
 }: DAWTimelineProps) {
   const timelineRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   
   const { totalDuration, formatTime } = useTimeline(tracks);
+
+  // Open automation lane per track, showing one parameter at a time
+  const [automationLanes, setAutomationLanes] = useState<Record<string, AutomationParam>>({});
+  const openLaneCount = tracks.filter(track => automationLanes[track.id]).length;
+  const lanesHeight = Math.max(200, (tracks.length + openLaneCount) * 70);
+  const [isTempoLaneOpen, setIsTempoLaneOpen] = useState(false);
+  const [isMeterLaneOpen, setIsMeterLaneOpen] = useState(false);
+
+  const toggleAutomationLane = useCallback((trackId: string) => {
+    setAutomationLanes(prev => {
+      const next = { ...prev };
+      if (next[trackId]) delete next[trackId];
+      else next[trackId] = 'volume';
+      return next;
+    });
+  }, []);
   
   const baseTimelineWidth = 800;
   const {
@@ -156,6 +203,12 @@ export const DAWTimeline = memo(function DAWTimeline({
                     onToggleSolo={onToggleTrackSolo}
                     onToggleRecord={onToggleTrackRecord}
                     onVolumeChange={onTrackVolumeChange}
+                    onPanChange={onTrackPanChange}
+                    onEffectsChange={onTrackEffectsChange}
+                    onRoutingChange={onTrackRoutingChange}
+                    buses={buses}
+                    isAutomationOpen={!!automationLanes[track.id]}
+                    onToggleAutomation={toggleAutomationLane}
                     onRemove={onRemoveTrack}
                     onUpdateTrackName={onUpdateTrackName}
                     isSoloed={soloTracks.has(track.id)}
@@ -179,6 +232,30 @@ export const DAWTimeline = memo(function DAWTimeline({
               onSetZoom={setZoom}
               onFitToContent={fitToContent}
             />
+            {onTempoMapChange && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsTempoLaneOpen(open => !open)}
+                className={`h-8 px-2 gap-1 text-xs ${isTempoLaneOpen ? 'bg-primary/20 text-primary' : 'text-muted-foreground'}`}
+                title="Tempo lane"
+              >
+                <GaugeIcon className="w-4 h-4" />
+                Tempo
+              </Button>
+            )}
+            {onMeterChange && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsMeterLaneOpen(open => !open)}
+                className={`h-8 px-2 gap-1 text-xs ${isMeterLaneOpen ? 'bg-primary/20 text-primary' : 'text-muted-foreground'}`}
+                title="Time signature lane"
+              >
+                <Music2Icon className="w-4 h-4" />
+                Meter
+              </Button>
+            )}
             <div className="text-xs text-muted-foreground hidden sm:block">
               Two fingers: pan timeline | Double-tap: trim mode | Long-press: move mode
             </div>
@@ -203,7 +280,7 @@ export const DAWTimeline = memo(function DAWTimeline({
               className="relative"
               style={{ 
                 width: `${zoomedWidth}px`,
-                minHeight: `${Math.max(300, tracks.length * 70 + 100)}px`
+                minHeight: `${Math.max(300, lanesHeight + 100)}px`
               }}
               onScroll={(e) => {
                 const newScrollPosition = e.currentTarget.scrollLeft;
@@ -212,15 +289,41 @@ export const DAWTimeline = memo(function DAWTimeline({
                 }
               }}
             >
+              {isMeterLaneOpen && onMeterChange && (
+                <MeterLane
+                  tempoMap={tempoMap}
+                  timeToPixels={timeToPixels}
+                  pixelsToTime={pixelsToTime}
+                  timelineWidth={zoomedWidth}
+                  onMeterChange={onMeterChange}
+                  onClose={() => setIsMeterLaneOpen(false)}
+                />
+              )}
+
               {/* Measure ruler */}
               <MeasureRuler 
                 timelineWidth={zoomedWidth} 
                 totalDuration={totalDuration}
-                bpm={bpm}
+                tempoMap={tempoMap}
+                groove={groove}
                 onTimeSelect={onSeek}
                 showBeatLines={false}
+                loopRegion={loopRegion}
+                onLoopRegionChange={onLoopRegionChange}
+                snapToGrid={snapToGrid}
               />
 
+              {isTempoLaneOpen && onTempoMapChange && (
+                <TempoLane
+                  tempoMap={tempoMap}
+                  timeToPixels={timeToPixels}
+                  pixelsToTime={pixelsToTime}
+                  timelineWidth={zoomedWidth}
+                  onTempoMapChange={onTempoMapChange}
+                  onClose={() => setIsTempoLaneOpen(false)}
+                />
+              )}
+
               <div 
                 ref={timelineRef}
                 data-timeline
@@ -228,12 +331,24 @@ export const DAWTimeline = memo(function DAWTimeline({
                 style={{ width: `${zoomedWidth}px` }}
                 onClick={handleTimelineClick}
               >
+                {/* Loop region across the lanes */}
+                {loopRegion?.enabled && (
+                  <div
+                    className="absolute top-0 bg-primary/5 border-x border-primary/40 pointer-events-none z-10"
+                    style={{
+                      left: `${timeToPixels(loopRegion.start)}px`,
+                      width: `${timeToPixels(loopRegion.end) - timeToPixels(loopRegion.start)}px`,
+                      height: `${lanesHeight}px`
+                    }}
+                  />
+                )}
+
                 {/* Current playback position */}
                 <div
                   className="absolute top-8 w-0.5 bg-primary z-30 pointer-events-none"
                   style={{ 
                     left: `${timeToPixels(currentTime)}px`,
-                    height: `${Math.max(200, tracks.length * 70)}px`
+                    height: `${lanesHeight}px`
                   }}
                 >
                   <div className="absolute -top-1 -left-1.5 w-3 h-3 bg-primary rounded-full shadow-glow" />
@@ -245,7 +360,7 @@ export const DAWTimeline = memo(function DAWTimeline({
                     className="absolute top-8 w-0.5 bg-recording z-30"
                     style={{ 
                       left: `${timeToPixels(recordingStartTime)}px`,
-                      height: `${Math.max(200, tracks.length * 70)}px`
+                      height: `${lanesHeight}px`
                     }}
                   >
                     <div className="absolute -top-1 -left-1.5 w-3 h-3 bg-recording rounded-full shadow-recording" />
@@ -257,27 +372,43 @@ export const DAWTimeline = memo(function DAWTimeline({
 
                 {/* Track lanes */}
                 <div className="space-y-1 pt-2">
-                  {tracks.map((track, index) => (
-                    <div 
-                      key={track.id} 
-                      className="relative h-16 border-b border-border/20 bg-layer-bg/20"
-                    >
-                      {track.audioData && (
-                        <WaveformBlock
+                  {tracks.map((track) => (
+                    <div key={track.id} className="space-y-1">
+                      <div className="relative h-16 border-b border-border/20 bg-layer-bg/20">
+                        {AudioStore.hasTrackAudio(track) && (
+                          <WaveformBlock
+                            track={track}
+                            timeToPixels={timeToPixels}
+                            pixelsToTime={pixelsToTime}
+                            timelineWidth={zoomedWidth}
+                            onTrackUpdate={onTrackUpdate}
+                            onCutTrack={onCutTrack}
+                            isPlaying={isPlaying}
+                            currentTime={currentTime}
+                            tempoMap={tempoMap}
+                            groove={groove}
+                            snapToGrid={snapToGrid}
+                            scrollOffset={scrollPosition}
+                            zoomLevel={zoomLevel}
+                    isRecording={isRecording}
+                    showProgressOverlay={!isRecording || !!track.isRecording}
+                          />
+                        )}
+                      </div>
+                      {automationLanes[track.id] && (
+                        <AutomationLane
                           track={track}
+                          param={automationLanes[track.id]}
                           timeToPixels={timeToPixels}
                           pixelsToTime={pixelsToTime}
                           timelineWidth={zoomedWidth}
-                          onTrackUpdate={onTrackUpdate}
-                          onCutTrack={onCutTrack}
-                          isPlaying={isPlaying}
-                          currentTime={currentTime}
-                          bpm={bpm}
+                          tempoMap={tempoMap}
+                          groove={groove}
                           snapToGrid={snapToGrid}
-                          scrollOffset={scrollPosition}
                           zoomLevel={zoomLevel}
-                  isRecording={isRecording}
-                  showProgressOverlay={!isRecording || !!track.isRecording}
+                          onAutomationChange={onTrackAutomationChange}
+                          onParamChange={(param) => setAutomationLanes(prev => ({ ...prev, [track.id]: param }))}
+                          onClose={() => toggleAutomationLane(track.id)}
                         />
                       )}
                     </div>
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+import { Metering, levelToDb, levelToMeter } from '@/services/Metering';
+
+interface LevelMeterProps {
+  meterId: string;
+  className?: string;
+}
+
+const CHANNELS = 2;
+
+/**
+ * Stereo peak/RMS meter with peak hold and a clip light. It paints straight
+ * into its own DOM nodes on every animation frame, so levels never cause a
+ * React render; tap the clip light to clear it.
+ */
+export function LevelMeter({ meterId, className = '' }: LevelMeterProps) {
+  const peakRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const rmsRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const holdRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const clipRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    return Metering.subscribe(meterId, (level) => {
+      level.channels.forEach((channel, index) => {
+        const peak = peakRefs.current[index];
+        const rms = rmsRefs.current[index];
+        const hold = holdRefs.current[index];
+        // The gradient stays put and is uncovered up to the level, so colour follows dB
+        if (peak) peak.style.clipPath = `inset(0 ${100 - levelToMeter(channel.peak) * 100}% 0 0)`;
+        if (rms) rms.style.clipPath = `inset(0 ${100 - levelToMeter(channel.rms) * 100}% 0 0)`;
+        if (hold) {
+          hold.style.left = `${levelToMeter(channel.hold) * 100}%`;
+          hold.style.opacity = channel.hold > 0 ? '1' : '0';
+        }
+      });
+
+      const clip = clipRef.current;
+      if (clip) {
+        clip.dataset.clipped = String(level.clipped);
+        const hold = Math.max(...level.channels.map(channel => channel.hold));
+        clip.title = level.clipped
+          ? 'Clipped - tap to reset'
+          : hold > 0 ? `Peak ${levelToDb(hold).toFixed(1)} dBFS` : 'No signal';
+      }
+    });
+  }, [meterId]);
+
+  return (
+    <div className={`flex items-center gap-1 ${className}`}>
+      <div className="flex-1 flex flex-col gap-px min-w-[24px]">
+        {Array.from({ length: CHANNELS }, (_, index) => (
+          <div key={index} className="relative h-1 rounded-sm bg-muted overflow-hidden">
+            <div
+              ref={el => { peakRefs.current[index] = el; }}
+              className="absolute inset-0 bg-gradient-to-r from-green-500 via-yellow-400 to-red-500 opacity-40"
+              style={{ clipPath: 'inset(0 100% 0 0)' }}
+            />
+            <div
+              ref={el => { rmsRefs.current[index] = el; }}
+              className="absolute inset-0 bg-gradient-to-r from-green-500 via-yellow-400 to-red-500"
+              style={{ clipPath: 'inset(0 100% 0 0)' }}
+            />
+            <div
+              ref={el => { holdRefs.current[index] = el; }}
+              className="absolute top-0 bottom-0 w-px -ml-px bg-foreground"
+              style={{ left: '0%', opacity: 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <button
+        ref={clipRef}
+        type="button"
+        data-clipped="false"
+        onClick={(e) => {
+          e.stopPropagation();
+          Metering.resetClip(meterId);
+        }}
+        className="w-2 h-2 rounded-sm bg-muted data-[clipped=true]:bg-destructive flex-shrink-0"
+        title="No signal"
+      />
+    </div>
+  );
+}
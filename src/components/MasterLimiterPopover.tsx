@@ -0,0 +1,69 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import type { MasterLimiterSettings } from '@/services/MasterLimiter';
+
+interface MasterLimiterPopoverProps {
+  settings: MasterLimiterSettings;
+  onSettingsChange: (settings: MasterLimiterSettings) => void;
+}
+
+export function MasterLimiterPopover({ settings, onSettingsChange }: MasterLimiterPopoverProps) {
+  const update = (changes: Partial<MasterLimiterSettings>) => onSettingsChange({ ...settings, ...changes });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 px-1.5 text-[10px] font-bold ${settings.enabled ? 'text-primary' : 'text-muted-foreground'}`}
+          title="Master limiter"
+        >
+          LIM
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-4" align="start">
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-medium flex-1">Master limiter</span>
+          <Switch checked={settings.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Ceiling</span>
+            <span className="font-mono">{settings.ceiling.toFixed(1)} dBTP</span>
+          </div>
+          <Slider
+            value={[settings.ceiling]}
+            onValueChange={([ceiling]) => update({ ceiling })}
+            min={-6}
+            max={0}
+            step={0.1}
+            disabled={!settings.enabled}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Release</span>
+            <span className="font-mono">{Math.round(settings.release * 1000)} ms</span>
+          </div>
+          <Slider
+            value={[settings.release * 1000]}
+            onValueChange={([release]) => update({ release: release / 1000 })}
+            min={10}
+            max={1000}
+            step={10}
+            disabled={!settings.enabled}
+          />
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Applied to playback and exports alike. Nothing leaves the master above the ceiling, between samples included.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,67 +1,134 @@
+import { useRef, useState } from 'react';
+import { useSnapToGrid } from '@/hooks/useSnapToGrid';
+import { DEFAULT_TEMPO_MAP, type TempoMap } from '@/lib/tempoMap';
+import type { Groove } from '@/lib/groove';
+import type { LoopSettings } from '@/services/ProjectManager';
+
+// Pointer travel (px) that turns a tap into a loop drag
+const DRAG_THRESHOLD = 5;
+
+type LoopDrag = { mode: 'create' | 'start' | 'end'; originX: number; anchor: number; moved: boolean };
+
 interface MeasureRulerProps {
   timelineWidth: number;
   totalDuration: number;
-  timeSignature?: { numerator: number; denominator: number };
-  bpm?: number;
+  tempoMap?: TempoMap;
+  groove?: Groove;
   onTimeSelect?: (time: number) => void;
   showBeatLines?: boolean;
+  loopRegion?: LoopSettings | null;
+  onLoopRegionChange?: (loop: LoopSettings) => void;
+  snapToGrid?: boolean;
 }
 
 export function MeasureRuler({ 
   timelineWidth, 
   totalDuration, 
-  timeSignature = { numerator: 4, denominator: 4 },
-  bpm = 120,
+  tempoMap = DEFAULT_TEMPO_MAP,
+  groove,
   onTimeSelect,
-  showBeatLines = true
+  showBeatLines = true,
+  loopRegion,
+  onLoopRegionChange,
+  snapToGrid = true
 }: MeasureRulerProps) {
-  // Calculate measure duration based on time signature and BPM
-  const beatDuration = 60 / bpm; // Duration of one beat in seconds
-  const measureDuration = (beatDuration * timeSignature.numerator * 4) / timeSignature.denominator;
-  
+  const { snapToGrid: snapTime } = useSnapToGrid({ tempoMap, groove, snapEnabled: snapToGrid });
+  const dragRef = useRef<LoopDrag | null>(null);
+  // Region being dragged; only committed on release so playback isn't rescheduled per pixel
+  const [draftLoop, setDraftLoop] = useState<LoopSettings | null>(null);
+
+  // Bar lines come from the tempo map, so they follow tempo and time signature changes
   const measures = [];
-  const totalMeasures = Math.ceil(totalDuration / measureDuration);
-  
-  for (let i = 0; i <= totalMeasures; i++) {
-    const time = i * measureDuration;
+  for (let i = 0; ; i++) {
+    const time = tempoMap.timeAtBar(i);
     const position = (time / totalDuration) * timelineWidth;
-    
-    if (position <= timelineWidth) {
-      measures.push({
-        measure: i + 1,
-        position,
-        time
-      });
-    }
+    if (!(position <= timelineWidth)) break; // also stops on an empty timeline
+
+    measures.push({
+      measure: i + 1,
+      position,
+      time
+    });
   }
 
-  const handleClick = (event: React.MouseEvent) => {
-    if (!onTimeSelect) return;
-    
+  const timeAt = (event: React.PointerEvent) => {
     const rect = event.currentTarget.getBoundingClientRect();
     const x = event.clientX - rect.left;
     const time = (x / timelineWidth) * totalDuration;
-    
-    onTimeSelect(Math.max(0, Math.min(time, totalDuration)));
+    return Math.max(0, Math.min(time, totalDuration));
   };
 
-  const handleTouchStart = (event: React.TouchEvent) => {
-    if (!onTimeSelect) return;
-    
-    const rect = event.currentTarget.getBoundingClientRect();
-    const touch = event.touches[0];
-    const x = touch.clientX - rect.left;
-    const time = (x / timelineWidth) * totalDuration;
-    
-    onTimeSelect(Math.max(0, Math.min(time, totalDuration)));
+  const shownLoop = draftLoop ?? loopRegion;
+
+  // Tap seeks; dragging across the ruler draws a loop, dragging its edges resizes it
+  const handlePointerDown = (event: React.PointerEvent) => {
+    const target = (event.target as HTMLElement).dataset.loopHandle;
+    const mode = target === 'start' || target === 'end' ? target : 'create';
+    const anchor = mode === 'start' ? loopRegion!.end : mode === 'end' ? loopRegion!.start : timeAt(event);
+
+    dragRef.current = { mode, originX: event.clientX, anchor, moved: false };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !onLoopRegionChange) return;
+    if (!drag.moved && Math.abs(event.clientX - drag.originX) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+
+    const time = snapTime(timeAt(event));
+    const anchor = drag.mode === 'create' ? snapTime(drag.anchor) : drag.anchor;
+    setDraftLoop({
+      enabled: drag.mode === 'create' ? true : loopRegion?.enabled ?? true,
+      start: Math.min(anchor, time),
+      end: Math.max(anchor, time),
+    });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+
+    if (!drag.moved) {
+      onTimeSelect?.(timeAt(event));
+    } else if (draftLoop && draftLoop.end > draftLoop.start) {
+      onLoopRegionChange?.(draftLoop);
+    }
+    setDraftLoop(null);
   };
 
   return (
     <div 
-      className="relative h-8 bg-timeline border-b border-border cursor-pointer" 
-      onClick={handleClick}
-      onTouchStart={handleTouchStart}
+      className="relative h-8 bg-timeline border-b border-border cursor-pointer touch-none" 
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        dragRef.current = null;
+        setDraftLoop(null);
+      }}
     >
+      {/* Loop region */}
+      {shownLoop && shownLoop.end > shownLoop.start && (
+        <div
+          className={`absolute top-0 h-full border-x-2 ${
+            shownLoop.enabled ? 'bg-primary/25 border-primary' : 'bg-muted/40 border-muted-foreground/50'
+          }`}
+          style={{
+            left: `${(shownLoop.start / totalDuration) * timelineWidth}px`,
+            width: `${((shownLoop.end - shownLoop.start) / totalDuration) * timelineWidth}px`
+          }}
+        >
+          {onLoopRegionChange && (
+            <>
+              <div data-loop-handle="start" className="absolute -left-2 top-0 w-4 h-full cursor-ew-resize" />
+              <div data-loop-handle="end" className="absolute -right-2 top-0 w-4 h-full cursor-ew-resize" />
+            </>
+          )}
+        </div>
+      )}
+
       {measures.map(({ measure, position }) => (
         <div
           key={measure}
@@ -79,24 +146,15 @@ export function MeasureRuler({
       ))}
       
       {/* Grid lines for beats */}
-      {showBeatLines && measures.map(({ measure, position, time }) => {
-        const beatLines = [];
-        for (let beat = 1; beat < timeSignature.numerator; beat++) {
-          const beatTime = time + (beat * beatDuration);
-          const beatPosition = (beatTime / totalDuration) * timelineWidth;
-          
-          if (beatPosition <= timelineWidth) {
-            beatLines.push(
-              <div
-                key={`${measure}-${beat}`}
-                className="absolute top-0 w-px h-full bg-border/30 pointer-events-none"
-                style={{ left: `${beatPosition}px` }}
-              />
-            );
-          }
-        }
-        return beatLines;
-      })}
+      {showBeatLines && tempoMap.beatsBetween(0, totalDuration)
+        .filter(({ beat }) => beat > 0)
+        .map(({ bar, beat, time }) => (
+          <div
+            key={`${bar}-${beat}`}
+            className="absolute top-0 w-px h-full bg-border/30 pointer-events-none"
+            style={{ left: `${(time / totalDuration) * timelineWidth}px` }}
+          />
+        ))}
     </div>
   );
 }
\ No newline at end of file
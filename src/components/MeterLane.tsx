@@ -0,0 +1,232 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  METER_DENOMINATORS,
+  METER_NUMERATORS,
+  type MeterEvent,
+  type TempoMap,
+  type TimeSignature,
+} from '@/lib/tempoMap';
+import { XIcon } from 'lucide-react';
+
+interface MeterLaneProps {
+  tempoMap: TempoMap;
+  timeToPixels: (time: number) => number;
+  pixelsToTime: (pixels: number) => number;
+  timelineWidth: number;
+  onMeterChange: (timeSignature: TimeSignature, meterChanges: MeterEvent[]) => void;
+  onClose: () => void;
+}
+
+interface MeterDraft {
+  timeSignature: TimeSignature;
+  changes: MeterEvent[];
+}
+
+const HIT_RADIUS_PX = 16; // finger-sized
+const DOUBLE_TAP_MS = 300;
+
+/**
+ * Time signature lane above the ruler. Bar 1 holds the project's time
+ * signature; tap the lane to add a change on the nearest bar, drag one along
+ * to move it and double-tap it to remove it. The selected change is edited
+ * from the lane header.
+ */
+export function MeterLane({
+  tempoMap,
+  timeToPixels,
+  pixelsToTime,
+  timelineWidth,
+  onMeterChange,
+  onClose,
+}: MeterLaneProps) {
+  // Local copy while dragging, committed on release like clip moves
+  const [draft, setDraft] = useState<MeterDraft | null>(null);
+  const [selectedBar, setSelectedBar] = useState<number | null>(null);
+  const dragRef = useRef<{ bar: number; moved: boolean } | null>(null);
+  const lastTapRef = useRef<{ bar: number; time: number } | null>(null);
+
+  const shown = draft ? tempoMap.withMeter(draft.timeSignature, draft.changes) : tempoMap;
+  const current: MeterDraft = { timeSignature: shown.timeSignature, changes: shown.meterChanges };
+  const markers: MeterEvent[] = [{ bar: 0, ...shown.timeSignature }, ...shown.meterChanges];
+  const selected = markers.find(marker => marker.bar === selectedBar);
+
+  const commit = (next: MeterDraft) => onMeterChange(next.timeSignature, next.changes);
+
+  // Edit the marker on `bar`; bar 0 is the project time signature and can't move
+  const withMarker = (base: MeterDraft, bar: number, changes: Partial<MeterEvent>): MeterDraft => {
+    if (bar === 0) {
+      const { numerator, denominator } = { ...base.timeSignature, ...changes };
+      return { ...base, timeSignature: { numerator, denominator } };
+    }
+    return {
+      ...base,
+      changes: base.changes.map(change => (change.bar === bar ? { ...change, ...changes } : change)),
+    };
+  };
+
+  // Bars are found on the saved map, so they don't shift under the finger mid-drag
+  const barAt = (x: number) => Math.max(0, Math.round(tempoMap.barAtTime(pixelsToTime(x))));
+
+  const localX = (e: React.PointerEvent<HTMLDivElement>) => e.clientX - e.currentTarget.getBoundingClientRect().left;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const x = localX(e);
+    const hit = markers.find(marker => Math.abs(timeToPixels(shown.timeAtBar(marker.bar)) - x) <= HIT_RADIUS_PX);
+
+    if (hit) {
+      // Double-tap removes a change; the project time signature stays
+      const lastTap = lastTapRef.current;
+      if (hit.bar > 0 && lastTap?.bar === hit.bar && e.timeStamp - lastTap.time < DOUBLE_TAP_MS) {
+        lastTapRef.current = null;
+        setSelectedBar(null);
+        commit({ ...current, changes: current.changes.filter(change => change.bar !== hit.bar) });
+        return;
+      }
+      lastTapRef.current = { bar: hit.bar, time: e.timeStamp };
+      dragRef.current = { bar: hit.bar, moved: false };
+      setSelectedBar(hit.bar);
+      setDraft(current);
+    } else {
+      const bar = Math.max(1, barAt(x));
+      // A new change starts out as the time signature already there
+      const next = markers.some(marker => marker.bar === bar)
+        ? current
+        : { ...current, changes: [...current.changes, { bar, ...shown.meterAt(bar) }] };
+      dragRef.current = { bar, moved: true };
+      lastTapRef.current = null;
+      setSelectedBar(bar);
+      setDraft(next);
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !draft || drag.bar === 0) return;
+
+    // A change can't pass its neighbours or land on bar 1
+    const others = draft.changes.filter(change => change.bar !== drag.bar).map(change => change.bar);
+    const previous = Math.max(0, ...others.filter(other => other < drag.bar));
+    const next = Math.min(Infinity, ...others.filter(other => other > drag.bar));
+    const bar = Math.max(previous + 1, Math.min(next - 1, barAt(localX(e))));
+    if (bar === drag.bar) return;
+
+    drag.moved = true;
+    setDraft(withMarker(draft, drag.bar, { bar }));
+    drag.bar = bar;
+    setSelectedBar(bar);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    if (drag?.moved && draft) commit(draft);
+    setDraft(null);
+  };
+
+  return (
+    <div
+      className="relative h-10 border-b border-border bg-muted/20"
+      style={{ width: `${timelineWidth}px` }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div
+        className="absolute inset-0 cursor-crosshair"
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {markers.map(marker => (
+          <div
+            key={marker.bar}
+            className="absolute bottom-0 h-5 flex items-center pointer-events-none"
+            style={{ left: `${timeToPixels(shown.timeAtBar(marker.bar))}px` }}
+          >
+            <div className={`w-0.5 h-full ${marker.bar === selectedBar ? 'bg-primary' : 'bg-primary/50'}`} />
+            <span
+              className={`ml-1 px-1 rounded text-[10px] font-mono font-bold ${
+                marker.bar === selectedBar ? 'bg-primary text-primary-foreground' : 'bg-background/80 text-primary'
+              }`}
+            >
+              {marker.numerator}/{marker.denominator}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Lane header */}
+      <div className="absolute top-0.5 left-1 flex items-center gap-0.5 rounded bg-background/80 px-1 z-10">
+        <span className="text-[10px] font-bold text-muted-foreground px-1">METER</span>
+        {selected && (
+          <>
+            <span className="text-[10px] font-mono px-1">Bar {selected.bar + 1}</span>
+            <Select
+              value={String(selected.numerator)}
+              onValueChange={(value) => commit(withMarker(current, selected.bar, { numerator: Number(value) }))}
+            >
+              <SelectTrigger className="h-5 w-12 px-1 text-[10px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {METER_NUMERATORS.map(numerator => (
+                  <SelectItem key={numerator} value={String(numerator)}>{numerator}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-[10px] text-muted-foreground">/</span>
+            <Select
+              value={String(selected.denominator)}
+              onValueChange={(value) => commit(withMarker(current, selected.bar, { denominator: Number(value) }))}
+            >
+              <SelectTrigger className="h-5 w-12 px-1 text-[10px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {METER_DENOMINATORS.map(denominator => (
+                  <SelectItem key={denominator} value={String(denominator)}>{denominator}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selected.bar > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setSelectedBar(null);
+                  commit({ ...current, changes: current.changes.filter(change => change.bar !== selected.bar) });
+                }}
+                className="h-5 px-1.5 text-[10px] text-muted-foreground"
+              >
+                Delete
+              </Button>
+            )}
+          </>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setSelectedBar(null);
+            commit({ ...current, changes: [] });
+          }}
+          disabled={tempoMap.meterChanges.length === 0}
+          className="h-5 px-1.5 text-[10px] text-muted-foreground"
+        >
+          Clear
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-5 w-5 p-0 text-muted-foreground">
+          <XIcon className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
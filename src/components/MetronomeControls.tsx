@@ -4,8 +4,21 @@ import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { Card } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
 import { MetronomeEngine } from '@/services/MetronomeService';
-import { Clock, Play, Pause, Minus, Plus, Volume2 } from 'lucide-react';
+import { AudioStore } from '@/services/AudioStore';
+import { AudioMixer } from '@/components/AudioMixer';
+import {
+  CLICK_SOUND_LABELS,
+  CLICK_SUBDIVISIONS,
+  accentForBeat,
+  nextAccent,
+  type BeatAccent,
+  type ClickSettings,
+  type ClickSound,
+} from '@/services/ClickSounds';
+import { Clock, Play, Pause, Minus, Plus, Volume2, Upload, XIcon } from 'lucide-react';
 
 interface MetronomeControlsProps {
   bpm: number;
@@ -14,8 +27,29 @@ interface MetronomeControlsProps {
   onMetronomeToggle: () => void;
   metronomeVolume: number;
   onMetronomeVolumeChange: (volume: number) => void;
+  clickSettings: ClickSettings;
+  onClickSettingsChange: (settings: ClickSettings) => void;
 }
 
+type SampleSlot = 'accent' | 'normal';
+
+const SAMPLE_SLOT_LABELS: Record<SampleSlot, string> = {
+  accent: 'Accent',
+  normal: 'Beat',
+};
+
+const ACCENT_STYLES: Record<BeatAccent, string> = {
+  accent: 'bg-accent text-accent-foreground border-accent',
+  normal: 'bg-primary/20 text-primary border-primary/40',
+  mute: 'bg-muted text-muted-foreground border-border',
+};
+
+const ACCENT_SYMBOLS: Record<BeatAccent, string> = {
+  accent: '>',
+  normal: '•',
+  mute: '–',
+};
+
 export function MetronomeControls({
   bpm,
   onBpmChange,
@@ -23,13 +57,16 @@ export function MetronomeControls({
   onMetronomeToggle,
   metronomeVolume,
   onMetronomeVolumeChange,
+  clickSettings,
+  onClickSettingsChange,
 }: MetronomeControlsProps) {
+  const { toast } = useToast();
   const [currentBeat, setCurrentBeat] = useState(0);
+  const [beatsInBar, setBeatsInBar] = useState(() => MetronomeEngine.getTempoMap().timeSignature.numerator);
   const [isRunning, setIsRunning] = useState(false);
   const [inputBpm, setInputBpm] = useState(bpm.toString());
 
   useEffect(() => {
-    MetronomeEngine.setBpm(bpm);
     setInputBpm(bpm.toString());
   }, [bpm]);
 
@@ -38,8 +75,9 @@ export function MetronomeControls({
   }, [metronomeVolume]);
 
   useEffect(() => {
-    MetronomeEngine.setOnBeatCallback((beatNumber, isDownbeat) => {
+    MetronomeEngine.setOnBeatCallback((beatNumber, isDownbeat, barBeats) => {
       setCurrentBeat(beatNumber);
+      setBeatsInBar(barBeats);
     });
 
     return () => {
@@ -71,6 +109,40 @@ export function MetronomeControls({
     }
   };
 
+  // Tapping a beat steps its accent; beats before it keep what they sound like now
+  const toggleAccent = (beat: number) => {
+    const accents = Array.from(
+      { length: Math.max(clickSettings.accents.length, beat + 1) },
+      (_, i) => accentForBeat(clickSettings.accents, i)
+    );
+    accents[beat] = nextAccent(accents[beat]);
+    onClickSettingsChange({ ...clickSettings, accents });
+  };
+
+  const importSample = async (slot: SampleSlot, file: File) => {
+    try {
+      const buffer = await MetronomeEngine.decodeClickSample(await file.arrayBuffer());
+      const base64Data = AudioMixer.arrayBufferToBase64(AudioMixer.audioBufferToWav(buffer));
+      const audioHash = await AudioStore.storeAudio(`data:audio/wav;base64,${base64Data}`);
+      const sample = { name: file.name.replace(/\.[^/.]+$/, ''), audioHash };
+      onClickSettingsChange({ ...clickSettings, samples: { ...clickSettings.samples, [slot]: sample } });
+      console.log('🥁 Imported click sample:', sample.name);
+    } catch (error) {
+      console.error('❌ Failed to import click sample:', error);
+      toast({
+        title: "Couldn't import click",
+        description: error instanceof Error ? error.message : 'The file could not be decoded as audio.',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeSample = (slot: SampleSlot) => {
+    const samples = { ...clickSettings.samples };
+    delete samples[slot];
+    onClickSettingsChange({ ...clickSettings, samples });
+  };
+
   // Tap tempo functionality
   const [tapTimes, setTapTimes] = useState<number[]>([]);
   
@@ -157,7 +229,7 @@ export function MetronomeControls({
         {/* Beat indicator */}
         {isRunning && (
           <div className="flex gap-1">
-            {[1, 2, 3, 4].map((beat) => (
+            {Array.from({ length: beatsInBar }, (_, i) => i + 1).map((beat) => (
               <div
                 key={beat}
                 className={`w-3 h-3 rounded-full transition-all duration-100 ${
@@ -173,6 +245,99 @@ export function MetronomeControls({
         )}
       </div>
 
+      {/* Click sound */}
+      <div className="space-y-2">
+        <Label className="text-sm">Click</Label>
+        <div className="flex items-center gap-2">
+          <Select
+            value={clickSettings.sound}
+            onValueChange={(sound) => onClickSettingsChange({ ...clickSettings, sound: sound as ClickSound })}
+          >
+            <SelectTrigger className="h-8 flex-1 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CLICK_SOUND_LABELS) as ClickSound[]).map(sound => (
+                <SelectItem key={sound} value={sound}>{CLICK_SOUND_LABELS[sound]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={String(clickSettings.subdivision)}
+            onValueChange={(value) => onClickSettingsChange({ ...clickSettings, subdivision: Number(value) })}
+          >
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CLICK_SUBDIVISIONS.map(option => (
+                <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {clickSettings.sound === 'custom' && (
+          <div className="space-y-1">
+            {(Object.keys(SAMPLE_SLOT_LABELS) as SampleSlot[]).map(slot => {
+              const sample = clickSettings.samples?.[slot];
+              return (
+                <div key={slot} className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-12">{SAMPLE_SLOT_LABELS[slot]}</span>
+                  <div className="relative flex-1 min-w-0">
+                    <input
+                      type="file"
+                      accept="audio/wav,audio/mp3,audio/mpeg,audio/aiff,audio/x-aiff,audio/m4a,audio/ogg"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) importSample(slot, file);
+                      }}
+                      className="absolute inset-0 opacity-0 cursor-pointer"
+                      title={`Import a sample for the ${SAMPLE_SLOT_LABELS[slot].toLowerCase()} click`}
+                    />
+                    <Button variant="outline" size="sm" className="h-7 w-full justify-start gap-1 text-xs">
+                      <Upload className="h-3 w-3 shrink-0" />
+                      <span className="truncate">{sample?.name ?? 'Import sample'}</span>
+                    </Button>
+                  </div>
+                  {sample && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeSample(slot)}
+                      className="h-7 w-7 p-0 text-muted-foreground"
+                    >
+                      <XIcon className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Accent pattern: tap a beat to step accent → normal → mute */}
+        <div className="flex flex-wrap gap-1">
+          {Array.from({ length: beatsInBar }, (_, beat) => {
+            const accent = accentForBeat(clickSettings.accents, beat);
+            return (
+              <button
+                key={beat}
+                type="button"
+                onClick={() => toggleAccent(beat)}
+                className={`h-7 w-7 rounded border text-xs font-mono ${ACCENT_STYLES[accent]} ${
+                  isRunning && beat + 1 === currentBeat ? 'ring-2 ring-ring' : ''
+                }`}
+                title={`Beat ${beat + 1}: ${accent}`}
+              >
+                {ACCENT_SYMBOLS[accent]}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
       {/* Metronome Volume */}
       <div className="space-y-2">
         <div className="flex items-center gap-2">
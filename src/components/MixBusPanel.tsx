@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { PanKnob } from '@/components/PanKnob';
+import { TrackEffectsDialog } from '@/components/TrackEffectsDialog';
+import type { AudioTrack, MixBus, MixBusKind } from '@/services/ProjectManager';
+import { createEffect, type ReverbEffect } from '@/services/TrackEffects';
+import { PlusIcon, SlidersHorizontalIcon, TrashIcon } from 'lucide-react';
+
+interface MixBusPanelProps {
+  buses: MixBus[];
+  tracks: AudioTrack[];
+  onBusesChange: (buses: MixBus[]) => void;
+  onDeleteBus: (busId: string) => void;
+}
+
+export function MixBusPanel({ buses, tracks, onBusesChange, onDeleteBus }: MixBusPanelProps) {
+  const [effectsBusId, setEffectsBusId] = useState<string | null>(null);
+  const effectsBus = buses.find(bus => bus.id === effectsBusId);
+
+  const updateBus = (busId: string, changes: Partial<MixBus>) => {
+    onBusesChange(buses.map(bus => (bus.id === busId ? { ...bus, ...changes } : bus)));
+  };
+
+  const addBus = (kind: MixBusKind) => {
+    const count = buses.filter(bus => bus.kind === kind).length + 1;
+    onBusesChange([
+      ...buses,
+      {
+        id: `bus-${Date.now()}`,
+        name: kind === 'group' ? `Group ${count}` : `Aux ${count}`,
+        kind,
+        volume: 0.8,
+        pan: 0,
+        isMuted: false,
+        // An aux usually exists to share a reverb, so start it with one
+        effects: kind === 'aux' ? [{ ...(createEffect('reverb') as ReverbEffect), mix: 1 }] : [],
+      },
+    ]);
+  };
+
+  const feedCount = (bus: MixBus) => tracks.filter(track =>
+    bus.kind === 'group'
+      ? track.output === bus.id
+      : track.sends?.some(send => send.busId === bus.id && send.level > 0)
+  ).length;
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">Buses</h3>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => addBus('group')}>
+            <PlusIcon className="w-4 h-4 mr-1" />
+            Group
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => addBus('aux')}>
+            <PlusIcon className="w-4 h-4 mr-1" />
+            Aux
+          </Button>
+        </div>
+      </div>
+
+      {buses.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Group buses sum tracks routed to them; aux buses take sends from any track. Route tracks with the Out button.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {buses.map(bus => {
+            const hasSolo = buses.some(other => other.isSolo);
+            return (
+              <div key={bus.id} className="flex items-center gap-2 rounded border border-border/50 px-2 py-1.5">
+                <Badge variant={bus.kind === 'group' ? 'secondary' : 'outline'} className="w-12 justify-center text-[10px]">
+                  {bus.kind === 'group' ? 'GROUP' : 'AUX'}
+                </Badge>
+                <Input
+                  value={bus.name}
+                  onChange={(e) => updateBus(bus.id, { name: e.target.value.slice(0, 100) })}
+                  className="h-7 w-28 text-xs"
+                />
+                <span className="text-[10px] text-muted-foreground w-12">
+                  {feedCount(bus)} {bus.kind === 'group' ? 'in' : 'sends'}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateBus(bus.id, { isMuted: !bus.isMuted })}
+                  className={`h-6 w-8 text-xs font-bold ${
+                    bus.isMuted || (hasSolo && !bus.isSolo)
+                      ? 'bg-destructive text-destructive-foreground'
+                      : 'hover:bg-muted text-muted-foreground'
+                  }`}
+                >
+                  M
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateBus(bus.id, { isSolo: !bus.isSolo })}
+                  className={`h-6 w-8 text-xs font-bold ${
+                    bus.isSolo ? 'bg-accent text-accent-foreground' : 'hover:bg-muted text-muted-foreground'
+                  }`}
+                >
+                  S
+                </Button>
+                <PanKnob value={bus.pan ?? 0} onChange={(pan) => updateBus(bus.id, { pan })} className="flex-shrink-0" />
+                <Slider
+                  value={[bus.volume * 100]}
+                  onValueChange={([value]) => updateBus(bus.id, { volume: value / 100 })}
+                  max={100}
+                  step={1}
+                  className="flex-1 min-w-[60px]"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEffectsBusId(bus.id)}
+                  className={`h-6 px-1.5 gap-1 text-[10px] font-bold ${
+                    bus.effects?.some(effect => effect.enabled) ? 'text-primary' : 'text-muted-foreground'
+                  }`}
+                >
+                  <SlidersHorizontalIcon className="w-3 h-3" />
+                  FX
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDeleteBus(bus.id)}
+                  className="h-6 w-6 p-0 text-destructive"
+                >
+                  <TrashIcon className="w-3 h-3" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {effectsBus && (
+        <TrackEffectsDialog
+          open
+          onOpenChange={(open) => !open && setEffectsBusId(null)}
+          trackName={effectsBus.name}
+          effects={effectsBus.effects ?? []}
+          onEffectsChange={(effects) => updateBus(effectsBus.id, { effects })}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { useRef } from 'react';
+
+interface PanKnobProps {
+  value: number; // -1 (left) to 1 (right)
+  onChange: (value: number) => void;
+  className?: string;
+}
+
+// Vertical drag distance that sweeps the knob from hard left to hard right
+const DRAG_RANGE_PX = 120;
+const MAX_ANGLE = 135;
+
+const formatPan = (pan: number): string => {
+  const percent = Math.round(Math.abs(pan) * 100);
+  if (percent === 0) return 'C';
+  return `${pan < 0 ? 'L' : 'R'}${percent}`;
+};
+
+export function PanKnob({ value, onChange, className = '' }: PanKnobProps) {
+  const dragRef = useRef<{ startY: number; startValue: number } | null>(null);
+
+  const clamp = (pan: number) => Math.round(Math.max(-1, Math.min(1, pan)) * 100) / 100;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startY: e.clientY, startValue: value };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    // Dragging up pans right
+    const next = clamp(drag.startValue + ((drag.startY - e.clientY) / DRAG_RANGE_PX) * 2);
+    if (next !== value) onChange(next);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowUp' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      onChange(clamp(value + 0.05));
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowLeft') {
+      e.preventDefault();
+      onChange(clamp(value - 0.05));
+    } else if (e.key === 'Home') {
+      e.preventDefault();
+      onChange(0);
+    }
+  };
+
+  return (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label="Pan"
+      aria-valuemin={-1}
+      aria-valuemax={1}
+      aria-valuenow={value}
+      aria-valuetext={formatPan(value)}
+      title={`Pan ${formatPan(value)} (double-click to centre)`}
+      className={`relative w-6 h-6 rounded-full border border-border bg-muted cursor-ns-resize touch-none select-none focus:outline-none focus-visible:ring-1 focus-visible:ring-ring ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => onChange(0)}
+      onKeyDown={handleKeyDown}
+    >
+      <div
+        className="absolute inset-0"
+        style={{ transform: `rotate(${value * MAX_ANGLE}deg)` }}
+      >
+        <div className="absolute left-1/2 top-0.5 w-0.5 h-2 -translate-x-1/2 rounded bg-primary" />
+      </div>
+    </div>
+  );
+}
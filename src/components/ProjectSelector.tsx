@@ -1,25 +1,83 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { FolderIcon, PlusIcon, TrashIcon, MusicIcon } from 'lucide-react';
-import { Project } from '@/services/ProjectManager';
-import { SafeProjectManager as ProjectManager } from '@/services/SafeProjectManager';
+import { FolderIcon, PlusIcon, TrashIcon, MusicIcon, DownloadIcon, UploadIcon, HistoryIcon, LayoutTemplateIcon, CopyIcon, TagIcon, SearchIcon } from 'lucide-react';
+import { ProjectManager, Project, type ProjectBackup } from '@/services/ProjectManager';
+import { Autosave } from '@/services/AutosaveService';
+import { ProjectIndex, queryProjects, collectTags, type ProjectIndexEntry, type ProjectSortKey } from '@/services/ProjectIndex';
+import { ProjectTemplates, type ProjectTemplate } from '@/services/ProjectTemplates';
+import { ProjectBundle, BUNDLE_EXTENSION, BUNDLE_MIME_TYPE } from '@/services/ProjectBundle';
+import { bytesToBase64 } from '@/services/storage/base64';
+import { projectTagSchema } from '@/lib/validation';
 import { useToast } from '@/hooks/use-toast';
 
+const BLANK_TEMPLATE_ID = 'blank';
+
+const SORT_OPTIONS: { value: ProjectSortKey; label: string }[] = [
+  { value: 'lastModified', label: 'Last modified' },
+  { value: 'createdAt', label: 'Date created' },
+  { value: 'name', label: 'Name' },
+  { value: 'duration', label: 'Length' },
+  { value: 'tempo', label: 'Tempo' },
+];
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+function ProjectThumbnail({ peaks }: { peaks: number[] }) {
+  const width = peaks.length * 2;
+  return (
+    <svg
+      viewBox={`0 0 ${width} 20`}
+      preserveAspectRatio="none"
+      className="w-24 h-8 shrink-0 text-primary"
+      aria-hidden="true"
+    >
+      {peaks.map((peak, i) => {
+        const height = Math.max(0.5, peak * 20);
+        return <rect key={i} x={i * 2} y={(20 - height) / 2} width={1.4} height={height} fill="currentColor" />;
+      })}
+    </svg>
+  );
+}
+
 interface ProjectSelectorProps {
   currentProject: Project | null;
   onProjectSelect: (project: Project) => void;
   onNewProject: (project: Project) => void;
+  onProjectUpdate: (project: Project) => void;
 }
 
-export function ProjectSelector({ currentProject, onProjectSelect, onNewProject }: ProjectSelectorProps) {
-  const [projects, setProjects] = useState<Project[]>([]);
+export function ProjectSelector({ currentProject, onProjectSelect, onNewProject, onProjectUpdate }: ProjectSelectorProps) {
+  const [projects, setProjects] = useState<ProjectIndexEntry[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sortBy, setSortBy] = useState<ProjectSortKey>('lastModified');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [tagsProject, setTagsProject] = useState<ProjectIndexEntry | null>(null);
+  const [tagsInput, setTagsInput] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [newProjectName, setNewProjectName] = useState('');
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [historyProject, setHistoryProject] = useState<ProjectIndexEntry | null>(null);
+  const [backups, setBackups] = useState<ProjectBackup[]>([]);
+  const [isLoadingBackups, setIsLoadingBackups] = useState(false);
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState(BLANK_TEMPLATE_ID);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [includeTemplateAudio, setIncludeTemplateAudio] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -30,8 +88,17 @@ export function ProjectSelector({ currentProject, onProjectSelect, onNewProject
     try {
       setIsLoading(true);
       await ProjectManager.initialize();
-      const allProjects = await ProjectManager.getAllProjects();
-      setProjects(allProjects);
+      setProjects(await ProjectIndex.getEntries());
+      setTemplates(await ProjectTemplates.getTemplates());
+
+      const failures = ProjectIndex.getLoadFailures();
+      if (failures.length > 0) {
+        toast({
+          title: `${failures.length} project${failures.length === 1 ? '' : 's'} could not be opened`,
+          description: failures.map(f => `${f.projectId ?? 'Unknown'}: ${f.field} - ${f.reason}`).join('\n'),
+          variant: "destructive",
+        });
+      }
     } catch (error) {
       console.error('Error loading projects:', error);
       toast({
@@ -44,6 +111,97 @@ export function ProjectSelector({ currentProject, onProjectSelect, onNewProject
     }
   };
 
+  const refreshProjects = async () => {
+    setProjects(await ProjectIndex.getEntries());
+  };
+
+  const allTags = useMemo(() => collectTags(projects), [projects]);
+  const visibleProjects = useMemo(
+    // Ignore filters for tags no project carries any more
+    () => queryProjects(projects, { search: searchQuery, tags: tagFilter.filter(tag => allTags.includes(tag)), sortBy }),
+    [projects, allTags, searchQuery, tagFilter, sortBy]
+  );
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const handleOpenProject = async (projectId: string) => {
+    try {
+      // Reopening the current project should pick up its pending edits
+      await Autosave.flush();
+      onProjectSelect(await ProjectManager.loadProject(projectId));
+    } catch (error) {
+      console.error('Error opening project:', error);
+      toast({
+        title: "Could not open project",
+        description: error instanceof Error ? error.message : "The project file could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDuplicateProject = async (project: ProjectIndexEntry) => {
+    try {
+      // Pending edits to the open project belong in the copy
+      await Autosave.flush();
+      const copy = await ProjectManager.duplicateProject(project.id);
+      await refreshProjects();
+
+      toast({
+        title: "Project duplicated",
+        description: `"${copy.name}" was added to your projects.`,
+      });
+    } catch (error) {
+      console.error('Error duplicating project:', error);
+      toast({
+        title: "Duplicate failed",
+        description: error instanceof Error ? error.message : "Could not duplicate the project.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEditTags = (project: ProjectIndexEntry) => {
+    setTagsProject(project);
+    setTagsInput(project.tags.join(', '));
+  };
+
+  const handleSaveTags = async () => {
+    if (!tagsProject) return;
+
+    const tags: string[] = [];
+    for (const rawTag of tagsInput.split(',').filter(tag => tag.trim())) {
+      const result = projectTagSchema.safeParse(rawTag);
+      if (!result.success) {
+        toast({
+          title: "Invalid tag",
+          description: result.error.errors[0]?.message,
+          variant: "destructive",
+        });
+        return;
+      }
+      tags.push(result.data);
+    }
+
+    try {
+      // Save pending edits first so the tagged version is the latest one
+      await Autosave.flush();
+      const updated = await ProjectManager.setProjectTags(tagsProject.id, tags);
+      await refreshProjects();
+      setTagsProject(null);
+      // Keep the open project in sync so autosave doesn't write the old tags back
+      if (currentProject?.id === updated.id) onProjectUpdate(updated);
+    } catch (error) {
+      console.error('Error saving tags:', error);
+      toast({
+        title: "Could not save tags",
+        description: error instanceof Error ? error.message : "The tags were not saved.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleCreateProject = async () => {
     if (!newProjectName.trim()) {
       toast({
@@ -55,17 +213,23 @@ export function ProjectSelector({ currentProject, onProjectSelect, onNewProject
     }
 
     try {
-      const newProject = ProjectManager.createNewProject(newProjectName.trim());
+      const template = templates.find(t => t.id === selectedTemplateId);
+      const newProject = template
+        ? ProjectTemplates.createProjectFromTemplate(newProjectName.trim(), template)
+        : ProjectManager.createNewProject(newProjectName.trim());
       await ProjectManager.saveProject(newProject);
       
-      setProjects(prev => [newProject, ...prev]);
+      await refreshProjects();
       onNewProject(newProject);
       setNewProjectName('');
+      setSelectedTemplateId(BLANK_TEMPLATE_ID);
       setIsCreateDialogOpen(false);
       
       toast({
         title: "Project created!",
-        description: `"${newProject.name}" is ready for recording.`,
+        description: template
+          ? `"${newProject.name}" was created from "${template.name}".`
+          : `"${newProject.name}" is ready for recording.`,
       });
     } catch (error) {
       console.error('Error creating project:', error);
@@ -77,6 +241,58 @@ export function ProjectSelector({ currentProject, onProjectSelect, onNewProject
     }
   };
 
+  const handleSaveTemplate = async () => {
+    if (!currentProject) return;
+    if (!templateName.trim()) {
+      toast({
+        title: "Template name required",
+        description: "Please enter a name for your template.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSavingTemplate(true);
+      const template = await ProjectTemplates.saveAsTemplate(currentProject, templateName.trim(), {
+        includeAudio: includeTemplateAudio,
+      });
+      setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+      setTemplateName('');
+      setIncludeTemplateAudio(false);
+      setIsTemplateDialogOpen(false);
+
+      toast({
+        title: "Template saved",
+        description: `New projects can now start from "${template.name}".`,
+      });
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast({
+        title: "Error saving template",
+        description: error instanceof Error ? error.message : "Could not save the template.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    try {
+      await ProjectTemplates.deleteTemplate(templateId);
+      setTemplates(prev => prev.filter(t => t.id !== templateId));
+      setSelectedTemplateId(BLANK_TEMPLATE_ID);
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast({
+        title: "Error deleting template",
+        description: error instanceof Error ? error.message : "Could not delete the template.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDeleteProject = async (projectId: string) => {
     try {
       await ProjectManager.deleteProject(projectId);
@@ -101,6 +317,102 @@ export function ProjectSelector({ currentProject, onProjectSelect, onNewProject
     }
   };
 
+  const handleExportProject = async (projectId: string) => {
+    try {
+      // Save pending edits, then load through the manager so we bundle the latest state
+      await Autosave.flush();
+      const project = await ProjectManager.loadProject(projectId);
+      const bundle = await ProjectBundle.createBundle(project);
+      await ProjectManager.shareFile(bytesToBase64(bundle), ProjectBundle.bundleFileName(project), BUNDLE_MIME_TYPE);
+
+      toast({
+        title: "Project exported",
+        description: `"${project.name}" was saved as a ${BUNDLE_EXTENSION} bundle.`,
+      });
+    } catch (error) {
+      // Closing the share sheet isn't a failure
+      if (error instanceof Error && error.message.includes('cancel')) return;
+
+      console.error('Error exporting project:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not export the project.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      const existingIds = new Set(projects.map(p => p.id));
+      const project = await ProjectBundle.importBundle(new Uint8Array(await file.arrayBuffer()), existingIds);
+      await ProjectManager.saveProject(project);
+
+      await refreshProjects();
+      onProjectSelect(project);
+
+      toast({
+        title: "Project imported",
+        description: `"${project.name}" with ${project.tracks.length} tracks is ready.`,
+      });
+    } catch (error) {
+      console.error('Error importing project:', error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not import the project.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleShowHistory = async (project: ProjectIndexEntry) => {
+    setHistoryProject(project);
+    setBackups([]);
+    setIsLoadingBackups(true);
+    try {
+      setBackups(await ProjectManager.getBackups(project.id));
+    } catch (error) {
+      console.error('Error loading backups:', error);
+      toast({
+        title: "Could not load previous versions",
+        description: error instanceof Error ? error.message : "Backups are unavailable.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingBackups(false);
+    }
+  };
+
+  const handleRestoreBackup = async (backup: ProjectBackup) => {
+    try {
+      // Pending edits would otherwise be saved over the restored version
+      await Autosave.flush();
+      const restored = await ProjectManager.restoreBackup(backup.projectId, backup.id);
+      await refreshProjects();
+      setHistoryProject(null);
+      onProjectSelect(restored);
+
+      toast({
+        title: "Version restored",
+        description: `"${restored.name}" is back to the version from ${formatDate(backup.savedAt)}.`,
+      });
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : "Could not restore this version.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString(undefined, {
       year: 'numeric',
@@ -135,36 +447,169 @@ export function ProjectSelector({ currentProject, onProjectSelect, onNewProject
             Your Projects
           </h3>
           
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="sm" className="gap-2">
-                <PlusIcon className="w-4 h-4" />
-                New Project
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Create New Project</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept={`${BUNDLE_EXTENSION},${BUNDLE_MIME_TYPE}`}
+              className="hidden"
+              onChange={handleImportFile}
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-2"
+              disabled={isImporting}
+              onClick={() => importInputRef.current?.click()}
+            >
+              <UploadIcon className="w-4 h-4" />
+              {isImporting ? 'Importing...' : 'Import'}
+            </Button>
+
+            <Dialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-2"
+                  disabled={!currentProject}
+                  onClick={() => setTemplateName(currentProject?.name ?? '')}
+                >
+                  <LayoutTemplateIcon className="w-4 h-4" />
+                  Save as Template
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Save as Template</DialogTitle>
+                  <DialogDescription>
+                    Keeps the tracks, tempo, time signature, metronome and grid settings of "{currentProject?.name}".
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <Input
+                    placeholder="Enter template name..."
+                    value={templateName}
+                    onChange={(e) => setTemplateName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSaveTemplate()}
+                  />
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="template-include-audio">Include audio</Label>
+                    <Switch
+                      id="template-include-audio"
+                      checked={includeTemplateAudio}
+                      onCheckedChange={setIncludeTemplateAudio}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setIsTemplateDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleSaveTemplate} disabled={isSavingTemplate}>
+                      {isSavingTemplate ? 'Saving...' : 'Save Template'}
+                    </Button>
+                  </div>
+                </div>
+              </DialogContent>
+            </Dialog>
+
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" className="gap-2">
+                  <PlusIcon className="w-4 h-4" />
+                  New Project
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Create New Project</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <Input
+                    placeholder="Enter project name..."
+                    value={newProjectName}
+                    onChange={(e) => setNewProjectName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreateProject()}
+                  />
+                  <div className="flex items-center gap-2">
+                    <Select value={selectedTemplateId} onValueChange={setSelectedTemplateId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Start from..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={BLANK_TEMPLATE_ID}>Blank project</SelectItem>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name} · {template.tracks.length} tracks{template.includesAudio ? ' · audio' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedTemplateId !== BLANK_TEMPLATE_ID && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteTemplate(selectedTemplateId)}
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                        title="Delete template"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleCreateProject}>
+                      Create Project
+                    </Button>
+                  </div>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+
+        {projects.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
                 <Input
-                  placeholder="Enter project name..."
-                  value={newProjectName}
-                  onChange={(e) => setNewProjectName(e.target.value)}
-                  onKeyDown={(e) => e.key === 'Enter' && handleCreateProject()}
+                  placeholder="Search projects and tags..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-9"
                 />
-                <div className="flex justify-end gap-2">
-                  <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button onClick={handleCreateProject}>
-                    Create Project
-                  </Button>
-                </div>
               </div>
-            </DialogContent>
-          </Dialog>
-        </div>
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as ProjectSortKey)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {allTags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {allTags.map((tag) => (
+                  <Badge
+                    key={tag}
+                    variant={tagFilter.includes(tag) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => toggleTagFilter(tag)}
+                  >
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
 
         {projects.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
@@ -172,9 +617,11 @@ export function ProjectSelector({ currentProject, onProjectSelect, onNewProject
             <p>No projects yet</p>
             <p className="text-sm">Create your first music project to get started</p>
           </div>
+        ) : visibleProjects.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No projects match your search</p>
         ) : (
-          <div className="space-y-2 max-h-64 overflow-y-auto">
-            {projects.map((project) => (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {visibleProjects.map((project) => (
               <div
                 key={project.id}
                 className={`flex items-center justify-between p-3 rounded-lg border transition-colors cursor-pointer ${
@@ -182,16 +629,74 @@ export function ProjectSelector({ currentProject, onProjectSelect, onNewProject
                     ? 'bg-primary/10 border-primary'
                     : 'bg-muted/50 border-border hover:bg-muted'
                 }`}
-                onClick={() => onProjectSelect(project)}
+                onClick={() => handleOpenProject(project.id)}
               >
-                <div className="flex-1 min-w-0">
+                <ProjectThumbnail peaks={project.thumbnail} />
+                <div className="flex-1 min-w-0 ml-3">
                   <h4 className="font-medium truncate">{project.name}</h4>
                   <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                    <span>{project.tracks.length} tracks</span>
+                    <span>{project.trackCount} tracks</span>
+                    <span>{formatDuration(project.duration)}</span>
+                    <span>{project.tempo} BPM</span>
                     <span>{formatDate(project.lastModified)}</span>
                   </div>
+                  {project.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {project.tags.map((tag) => (
+                        <Badge key={tag} variant="secondary">{tag}</Badge>
+                      ))}
+                    </div>
+                  )}
                 </div>
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleEditTags(project);
+                  }}
+                  title="Edit tags"
+                >
+                  <TagIcon className="w-4 h-4" />
+                </Button>
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDuplicateProject(project);
+                  }}
+                  title="Duplicate project"
+                >
+                  <CopyIcon className="w-4 h-4" />
+                </Button>
                 
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleShowHistory(project);
+                  }}
+                  title="Restore previous version"
+                >
+                  <HistoryIcon className="w-4 h-4" />
+                </Button>
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleExportProject(project.id);
+                  }}
+                  title={`Export as ${BUNDLE_EXTENSION}`}
+                >
+                  <DownloadIcon className="w-4 h-4" />
+                </Button>
+
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
                     <Button
@@ -226,6 +731,73 @@ export function ProjectSelector({ currentProject, onProjectSelect, onNewProject
           </div>
         )}
       </div>
+
+      <Dialog open={!!tagsProject} onOpenChange={(open) => !open && setTagsProject(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit tags</DialogTitle>
+            <DialogDescription>
+              Tags for "{tagsProject?.name}", separated by commas.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              placeholder="e.g. verse idea, demo, 90s"
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveTags()}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setTagsProject(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveTags}>
+                Save Tags
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyProject} onOpenChange={(open) => !open && setHistoryProject(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Restore previous version</DialogTitle>
+            <DialogDescription>
+              Earlier saves of "{historyProject?.name}". Restoring keeps the current version as a backup.
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingBackups ? (
+            <div className="animate-pulse space-y-2">
+              {[1, 2].map(i => (
+                <div key={i} className="h-12 bg-muted rounded"></div>
+              ))}
+            </div>
+          ) : backups.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No previous versions yet</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {backups.map((backup) => (
+                <div
+                  key={backup.id}
+                  className="flex items-center justify-between p-3 rounded-lg border bg-muted/50 border-border"
+                >
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-medium truncate">{formatDate(backup.savedAt)}</h4>
+                    <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                      <span>{backup.trackCount} tracks</span>
+                      {backup.name !== historyProject?.name && <span className="truncate">{backup.name}</span>}
+                    </div>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => handleRestoreBackup(backup)}>
+                    Restore
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
\ No newline at end of file
@@ -3,6 +3,8 @@ import { Card } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
 import { DeviceSelector } from '@/components/DeviceSelector';
 import { MetronomeControls } from '@/components/MetronomeControls';
+import { StorageUsageCard } from '@/components/StorageUsageCard';
+import type { ClickSettings } from '@/services/ClickSounds';
 import { Volume2 } from 'lucide-react';
 
 interface ProjectSettingsProps {
@@ -10,6 +12,7 @@ interface ProjectSettingsProps {
   bpm: number;
   isMetronomeEnabled: boolean;
   metronomeVolume: number;
+  clickSettings: ClickSettings;
   snapToGrid: boolean;
   showCountIn: boolean;
   latencyCompensation: number;
@@ -18,6 +21,7 @@ interface ProjectSettingsProps {
   onBpmChange: (bpm: number) => void;
   onMetronomeToggle: () => void;
   onMetronomeVolumeChange: (volume: number) => void;
+  onClickSettingsChange: (settings: ClickSettings) => void;
   onSnapToGridChange: (enabled: boolean) => void;
   onShowCountInChange: (enabled: boolean) => void;
   onLatencyCompensationChange: (ms: number) => void;
@@ -29,6 +33,7 @@ export const ProjectSettings = memo(function ProjectSettings({
   bpm,
   isMetronomeEnabled,
   metronomeVolume,
+  clickSettings,
   snapToGrid,
   showCountIn,
   latencyCompensation,
@@ -37,6 +42,7 @@ export const ProjectSettings = memo(function ProjectSettings({
   onBpmChange,
   onMetronomeToggle,
   onMetronomeVolumeChange,
+  onClickSettingsChange,
   onSnapToGridChange,
   onShowCountInChange,
   onLatencyCompensationChange,
@@ -78,7 +84,12 @@ export const ProjectSettings = memo(function ProjectSettings({
         onBpmChange={onBpmChange}
         onMetronomeToggle={onMetronomeToggle}
         onMetronomeVolumeChange={onMetronomeVolumeChange}
+        clickSettings={clickSettings}
+        onClickSettingsChange={onClickSettingsChange}
       />
+
+      {/* Disk usage and cleanup */}
+      <StorageUsageCard />
     </>
   );
 });
@@ -3,20 +3,58 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { AudioTrack } from '@/services/ProjectManager';
-import { MetronomeEngine } from '@/services/MetronomeService';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/hooks/use-toast';
+import { AudioTrack, ProjectManager } from '@/services/ProjectManager';
+import { AudioStore } from '@/services/AudioStore';
+import { PlaybackEngine } from '@/services/PlaybackEngine';
+import { clipWindow } from '@/services/MixGraph';
+import type { TempoMap } from '@/lib/tempoMap';
+import {
+  BUILT_IN_GROOVES,
+  GRID_FEEL_LABELS,
+  MAX_SWING,
+  MIN_SWING,
+  detectTransients,
+  extractGroove,
+  resolveGroove,
+  snapToGroove,
+  type GridFeel,
+  type GrooveSettings,
+  type GrooveTemplate,
+} from '@/lib/groove';
 import { Zap } from 'lucide-react';
 
 interface QuantizeDialogProps {
   tracks: AudioTrack[];
-  bpm: number;
-  onQuantize: (trackIds: string[], subdivision: number) => void;
+  tempoMap: TempoMap;
+  grooveSettings: GrooveSettings;
+  grooveTemplates: GrooveTemplate[];
+  onGrooveChange: (settings: GrooveSettings) => void;
+  onGrooveTemplatesChange: (templates: GrooveTemplate[]) => void;
+  onQuantize: (updates: { trackId: string; startTime: number }[]) => void;
 }
 
-export function QuantizeDialog({ tracks, bpm, onQuantize }: QuantizeDialogProps) {
+const NO_TEMPLATE = 'none';
+
+export function QuantizeDialog({
+  tracks,
+  tempoMap,
+  grooveSettings,
+  grooveTemplates,
+  onGrooveChange,
+  onGrooveTemplatesChange,
+  onQuantize,
+}: QuantizeDialogProps) {
+  const { toast } = useToast();
   const [selectedTracks, setSelectedTracks] = useState<string[]>([]);
   const [subdivision, setSubdivision] = useState('4');
   const [isOpen, setIsOpen] = useState(false);
+  const [grooveSourceId, setGrooveSourceId] = useState<string>('');
+  const [isExtracting, setIsExtracting] = useState(false);
+
+  const groove = resolveGroove(grooveSettings, grooveTemplates);
 
   const handleTrackToggle = (trackId: string) => {
     setSelectedTracks(prev => 
@@ -36,12 +74,62 @@ export function QuantizeDialog({ tracks, bpm, onQuantize }: QuantizeDialogProps)
 
   const handleQuantize = () => {
     if (selectedTracks.length > 0) {
-      onQuantize(selectedTracks, parseInt(subdivision));
+      // Clip starts move to the nearest grid line on the tempo map, swung or grooved like snapping
+      const linesPerQuarter = parseInt(subdivision) / 4;
+      onQuantize(tracks
+        .filter(track => selectedTracks.includes(track.id))
+        .map(track => ({
+          trackId: track.id,
+          startTime: snapToGroove(tempoMap, track.startTime ?? 0, linesPerQuarter, groove),
+        })));
       setIsOpen(false);
       setSelectedTracks([]);
     }
   };
 
+  // Template from where the hits in a clip land against the straight 16th grid
+  const handleExtractGroove = async () => {
+    const track = tracks.find(t => t.id === grooveSourceId);
+    if (!track) return;
+
+    setIsExtracting(true);
+    try {
+      const audioData = await AudioStore.getTrackAudio(track);
+      if (!audioData) throw new Error('This clip has no audio');
+
+      await PlaybackEngine.initialize();
+      const buffer = await ProjectManager.base64ToAudioBuffer(audioData, PlaybackEngine.getAudioContext()!);
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+      const clip = clipWindow(track, buffer);
+      const hits = detectTransients(channels, buffer.sampleRate)
+        .filter(time => time >= clip.trimStart && time < clip.trimEnd)
+        .map(time => clip.start + time - clip.trimStart);
+
+      const template = extractGroove(tempoMap, hits, 4, `${track.name} groove`);
+      onGrooveTemplatesChange([...grooveTemplates, template]);
+      onGrooveChange({ ...grooveSettings, templateId: template.id });
+      console.log(`🥁 Extracted groove from ${hits.length} hits:`, template.name);
+      toast({
+        title: "Groove extracted",
+        description: `"${template.name}" is now the project groove`,
+      });
+    } catch (error) {
+      console.error('❌ Failed to extract groove:', error);
+      toast({
+        title: "Couldn't extract groove",
+        description: error instanceof Error ? error.message : 'The clip could not be analysed.',
+        variant: "destructive",
+      });
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleDeleteTemplate = (templateId: string) => {
+    onGrooveTemplatesChange(grooveTemplates.filter(template => template.id !== templateId));
+    onGrooveChange({ ...grooveSettings, templateId: undefined });
+  };
+
   const subdivisionOptions = [
     { value: '1', label: 'Whole Notes (1/1)', description: 'Snap to measures' },
     { value: '2', label: 'Half Notes (1/2)', description: 'Snap to half beats' },
@@ -58,7 +146,7 @@ export function QuantizeDialog({ tracks, bpm, onQuantize }: QuantizeDialogProps)
           Quantize
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Quantize Tracks</DialogTitle>
         </DialogHeader>
@@ -121,8 +209,108 @@ export function QuantizeDialog({ tracks, bpm, onQuantize }: QuantizeDialogProps)
             </RadioGroup>
           </div>
 
+          {/* Groove: shared with grid snapping */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium block">Groove</Label>
+
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground w-16">Template</Label>
+              <Select
+                value={grooveSettings.templateId ?? NO_TEMPLATE}
+                onValueChange={(value) => onGrooveChange({
+                  ...grooveSettings,
+                  templateId: value === NO_TEMPLATE ? undefined : value,
+                })}
+              >
+                <SelectTrigger className="h-8 flex-1 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEMPLATE}>None</SelectItem>
+                  {[...BUILT_IN_GROOVES, ...grooveTemplates].map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {grooveTemplates.some(template => template.id === grooveSettings.templateId) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDeleteTemplate(grooveSettings.templateId!)}
+                  className="h-8 px-2 text-xs text-muted-foreground"
+                >
+                  Delete
+                </Button>
+              )}
+            </div>
+
+            {groove.template ? (
+              <p className="text-xs text-muted-foreground">
+                The template sets its own grid, so the note value, feel and swing are not used.
+              </p>
+            ) : (
+              <>
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs text-muted-foreground w-16">Feel</Label>
+                  <Select
+                    value={grooveSettings.feel}
+                    onValueChange={(feel) => onGrooveChange({ ...grooveSettings, feel: feel as GridFeel })}
+                  >
+                    <SelectTrigger className="h-8 flex-1 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(GRID_FEEL_LABELS) as GridFeel[]).map(feel => (
+                        <SelectItem key={feel} value={feel}>{GRID_FEEL_LABELS[feel]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs text-muted-foreground w-16">Swing</Label>
+                  <Slider
+                    value={[grooveSettings.swing]}
+                    onValueChange={(value) => onGrooveChange({ ...grooveSettings, swing: value[0] })}
+                    min={MIN_SWING}
+                    max={MAX_SWING}
+                    step={1}
+                    disabled={grooveSettings.feel !== 'straight'}
+                    className="flex-1"
+                  />
+                  <span className="text-xs font-mono w-10 text-right">{grooveSettings.swing}%</span>
+                </div>
+              </>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground w-16">From clip</Label>
+              <Select value={grooveSourceId} onValueChange={setGrooveSourceId}>
+                <SelectTrigger className="h-8 flex-1 text-xs">
+                  <SelectValue placeholder="Choose a clip" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tracks.filter(track => AudioStore.hasTrackAudio(track)).map(track => (
+                    <SelectItem key={track.id} value={track.id}>{track.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExtractGroove}
+                disabled={!grooveSourceId || isExtracting}
+                className="h-8 text-xs"
+              >
+                {isExtracting ? 'Extracting...' : 'Extract'}
+              </Button>
+            </div>
+          </div>
+
           <div className="text-xs text-muted-foreground">
-            Current tempo: {bpm} BPM
+            {tempoMap.isConstant
+              ? `Current tempo: ${tempoMap.tempo} BPM`
+              : `Tempo map: ${tempoMap.tempo} BPM with ${tempoMap.changes.length} tempo change${tempoMap.changes.length === 1 ? '' : 's'}; the grid follows it`}
           </div>
 
           {/* Actions */}
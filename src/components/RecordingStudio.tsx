@@ -1,14 +1,31 @@
 import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
-import { SafeProjectManager as ProjectManager } from '@/services/SafeProjectManager';
 import { AudioMixer } from '@/components/AudioMixer';
 import { PlaybackEngine } from '@/services/PlaybackEngine';
+import { AudioStore } from '@/services/AudioStore';
+import { Autosave } from '@/services/AutosaveService';
+import { StorageManager } from '@/services/StorageManager';
+import { SessionJournal, type PendingRecovery } from '@/services/SessionJournal';
+import { ProjectIndex, queryProjects } from '@/services/ProjectIndex';
+import type { TrackEffect } from '@/services/TrackEffects';
+import type { TrackAutomation } from '@/services/Automation';
+import { MASTER_METER_ID } from '@/services/Metering';
+import { DEFAULT_MASTER_LIMITER, type MasterLimiterSettings } from '@/services/MasterLimiter';
+import { DEFAULT_CLICK_SETTINGS, type ClickSettings } from '@/services/ClickSounds';
+import { DEFAULT_GROOVE_SETTINGS, resolveGroove, type GrooveSettings, type GrooveTemplate } from '@/lib/groove';
+import { DEFAULT_TIME_SIGNATURE, TempoMap, type MeterEvent, type TempoEvent, type TimeSignature } from '@/lib/tempoMap';
 import { MetronomeEngine } from '@/services/MetronomeService';
 import { ProjectSelector } from '@/components/ProjectSelector';
 import { AudioLayer } from '@/components/AudioLayer';
 import { DAWTimeline } from '@/components/DAWTimeline';
+import { LevelMeter } from '@/components/LevelMeter';
+import { MasterLimiterPopover } from '@/components/MasterLimiterPopover';
 import { DeviceSelector } from '@/components/DeviceSelector';
 import { MetronomeControls } from '@/components/MetronomeControls';
+import { QuantizeDialog } from '@/components/QuantizeDialog';
 import { NativeExportDialog } from '@/components/NativeExportDialog';
+import { RecoveryDialog } from '@/components/RecoveryDialog';
+import { MixBusPanel } from '@/components/MixBusPanel';
+import type { TrackRouting } from '@/components/TrackRoutingPopover';
 import { useNativePlatform } from '@/hooks/useNativePlatform';
 import { useUndoRedo } from '@/hooks/useUndoRedo';
 import AudioInput from '@/plugins/AudioInputPlugin';
@@ -19,9 +36,9 @@ import { Card } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
 import { Toaster } from '@/components/ui/toaster';
 import { useToast } from '@/hooks/use-toast';
-import { Mic, Play, Pause, Square, Upload, Save, Download, FolderOpen, Volume2, Eye, EyeOff, ChevronDown, Undo, Redo } from 'lucide-react';
+import { Mic, Play, Pause, Square, Repeat, Upload, Save, Download, FolderOpen, Volume2, Eye, EyeOff, ChevronDown, Undo, Redo } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Project, AudioTrack } from '@/services/ProjectManager';
+import { ProjectManager, Project, AudioTrack, type LoopSettings, type MixBus } from '@/services/ProjectManager';
 import { SimpleFallback } from '@/components/SimpleFallback';
 
 // Audio normalization function to peak at -0.1dB with minimum at -12dB
@@ -82,6 +99,73 @@ const normalizeAudioBuffer = (audioBuffer: AudioBuffer, audioContext: AudioConte
   return normalizedBuffer;
 };
 
+// The project as the studio holds it, with missing settings filled in the way they're
+// loaded. Autosave compares against this, so opening a project that predates a
+// setting doesn't count as an edit.
+type EditorProject = Project & {
+  settings: Required<Pick<Project['settings'],
+    'timeSignature' | 'metronomeEnabled' | 'metronomeVolume' | 'click' | 'snapToGrid' | 'groove' | 'limiter'>>;
+};
+const editorProject = (project: Project): EditorProject => {
+  const {
+    masterVolume, tempo, tempoChanges, timeSignature, meterChanges, metronomeEnabled, metronomeVolume,
+    click, snapToGrid, groove, grooveTemplates, loop, limiter, ...otherSettings
+  } = project.settings;
+  return {
+    ...project,
+    buses: project.buses ?? [],
+    settings: {
+      ...otherSettings,
+      masterVolume: masterVolume ?? 1,
+      tempo: tempo || 120,
+      tempoChanges: tempoChanges?.length ? tempoChanges : undefined,
+      timeSignature: timeSignature ?? DEFAULT_TIME_SIGNATURE,
+      meterChanges: meterChanges?.length ? meterChanges : undefined,
+      metronomeEnabled: metronomeEnabled || false,
+      metronomeVolume: metronomeVolume || 0.5,
+      click: click ?? DEFAULT_CLICK_SETTINGS,
+      snapToGrid: snapToGrid !== false,
+      groove: groove ?? DEFAULT_GROOVE_SETTINGS,
+      grooveTemplates: grooveTemplates?.length ? grooveTemplates : undefined,
+      loop,
+      limiter: limiter ?? DEFAULT_MASTER_LIMITER,
+    },
+  };
+};
+
+// Decode a finished (or recovered) MediaRecorder take into a normalized WAV track
+const recordingToTrack = async (
+  audioBlob: Blob,
+  audioContext: AudioContext,
+  startTime: number,
+  name: string
+): Promise<AudioTrack> => {
+  const arrayBuffer = await audioBlob.arrayBuffer();
+  const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+
+  // Normalize audio to peak at -0.1dB with minimum at -12dB
+  const normalizedBuffer = normalizeAudioBuffer(audioBuffer, audioContext);
+
+  // Convert to WAV format and then to base64
+  const wavBuffer = AudioMixer.audioBufferToWav(normalizedBuffer);
+  const base64Data = AudioMixer.arrayBufferToBase64(wavBuffer);
+
+  console.log(`📊 Audio buffer duration: ${normalizedBuffer.duration}s`);
+
+  return {
+    id: Date.now().toString(),
+    name,
+    audioData: `data:audio/wav;base64,${base64Data}`,
+    isPlaying: false,
+    isMuted: false,
+    volume: 1,
+    duration: normalizedBuffer.duration,
+    startTime,
+    trimStart: 0,
+    trimEnd: normalizedBuffer.duration
+  };
+};
+
 
 export function RecordingStudio() {
   console.log('RecordingStudio component initializing...');
@@ -92,7 +176,7 @@ export function RecordingStudio() {
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
   
   // Undo/Redo state management
-  const { tracks, setTracks, undo, redo, canUndo, canRedo } = useUndoRedo([]);
+  const { tracks, setTracks, undo, redo, canUndo, canRedo, historyTracks } = useUndoRedo([]);
   
   const [isRecording, setIsRecording] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -101,19 +185,35 @@ export function RecordingStudio() {
   const [showProjectSelector, setShowProjectSelector] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [masterVolume, setMasterVolume] = useState(1);
+  const [masterLimiter, setMasterLimiter] = useState<MasterLimiterSettings>(DEFAULT_MASTER_LIMITER);
   const [recordingStartTime, setRecordingStartTime] = useState(0);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | undefined>(undefined);
   
   // Metronome and timing states
   const [bpm, setBpm] = useState(120);
+  const [tempoChanges, setTempoChanges] = useState<TempoEvent[]>([]);
+  const [timeSignature, setTimeSignature] = useState<TimeSignature>(DEFAULT_TIME_SIGNATURE);
+  const [meterChanges, setMeterChanges] = useState<MeterEvent[]>([]);
+  const tempoMap = useMemo(
+    () => new TempoMap(bpm, tempoChanges, timeSignature, meterChanges),
+    [bpm, tempoChanges, timeSignature, meterChanges]
+  );
   const [isMetronomeEnabled, setIsMetronomeEnabled] = useState(false);
   const [metronomeVolume, setMetronomeVolume] = useState(0.5);
+  const [clickSettings, setClickSettings] = useState<ClickSettings>(DEFAULT_CLICK_SETTINGS);
   const [snapToGrid, setSnapToGrid] = useState(true);
+  const [grooveSettings, setGrooveSettings] = useState<GrooveSettings>(DEFAULT_GROOVE_SETTINGS);
+  const [grooveTemplates, setGrooveTemplates] = useState<GrooveTemplate[]>([]);
+  const groove = useMemo(() => resolveGroove(grooveSettings, grooveTemplates), [grooveSettings, grooveTemplates]);
+  const [loopRegion, setLoopRegion] = useState<LoopSettings | null>(null);
+  const [buses, setBuses] = useState<MixBus[]>([]);
   const [showCountIn, setShowCountIn] = useState(true);
   const [showAudioLayers, setShowAudioLayers] = useState(true);
   const [latencyCompensation, setLatencyCompensation] = useState(0);
   const [soloTracks, setSoloTracks] = useState<Set<string>>(new Set());
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [pendingRecovery, setPendingRecovery] = useState<PendingRecovery | null>(null);
+  const [isRecoveryResolved, setIsRecoveryResolved] = useState(false);
   
   const audioContextRef = useRef<AudioContext | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -133,19 +233,10 @@ export function RecordingStudio() {
       );
       setTracks(updatedTracks);
       
-      // If currently playing, restart playback immediately to apply mute changes
-      if (isPlaying) {
-        const wasPlayingTime = currentTime;
-        PlaybackEngine.stop();
-        
-        // Calculate new playable tracks with updated mute state
-        const newPlayableTracks = soloTracks.size > 0 
-          ? updatedTracks.filter(track => soloTracks.has(track.id) && track.audioData)
-          : updatedTracks.filter(track => !track.isMuted && track.audioData);
-        
-        if (newPlayableTracks.length > 0) {
-          await PlaybackEngine.playTracks(newPlayableTracks, wasPlayingTime);
-        }
+      // The engine fades the track in or out without interrupting playback
+      const mutedTrack = updatedTracks.find(track => track.id === trackId);
+      if (mutedTrack) {
+        PlaybackEngine.setTrackMuted(trackId, mutedTrack.isMuted);
       }
       
       if (currentProject) {
@@ -167,21 +258,7 @@ export function RecordingStudio() {
         newSoloTracks.add(trackId);
       }
       setSoloTracks(newSoloTracks);
-      
-      // If currently playing, restart playback immediately to apply solo changes
-      if (isPlaying) {
-        const wasPlayingTime = currentTime;
-        PlaybackEngine.stop();
-        
-        // Calculate new playable tracks with updated solo state
-        const newPlayableTracks = newSoloTracks.size > 0 
-          ? tracks.filter(track => newSoloTracks.has(track.id) && track.audioData)
-          : tracks.filter(track => !track.isMuted && track.audioData);
-        
-        if (newPlayableTracks.length > 0) {
-          await PlaybackEngine.playTracks(newPlayableTracks, wasPlayingTime);
-        }
-      }
+      PlaybackEngine.setSoloTracks(newSoloTracks);
     },
 
     updateTrackName: async (trackId: string, newName: string) => {
@@ -203,9 +280,41 @@ export function RecordingStudio() {
       }
     },
 
+    // Pan, routing and effects are persisted by autosave; dragging fires far too often to save each step
+    updateTrackPan: (trackId: string, pan: number) => {
+      setTracks(tracks.map(track => 
+        track.id === trackId ? { ...track, pan } : track
+      ));
+      PlaybackEngine.updateTrackPan(trackId, pan);
+    },
+
+    updateTrackRouting: (trackId: string, routing: TrackRouting) => {
+      const updatedTracks = tracks.map(track => 
+        track.id === trackId ? { ...track, ...routing } : track
+      );
+      setTracks(updatedTracks);
+      PlaybackEngine.updateTracks(updatedTracks);
+    },
+
+    updateTrackEffects: (trackId: string, effects: TrackEffect[]) => {
+      setTracks(tracks.map(track => 
+        track.id === trackId ? { ...track, effects } : track
+      ));
+      PlaybackEngine.updateTrackEffects(trackId, effects);
+    },
+
+    updateTrackAutomation: (trackId: string, automation: TrackAutomation) => {
+      const updatedTracks = tracks.map(track => 
+        track.id === trackId ? { ...track, automation } : track
+      );
+      setTracks(updatedTracks);
+      PlaybackEngine.updateTracks(updatedTracks);
+    },
+
     removeTrack: async (trackId: string) => {
       const updatedTracks = tracks.filter(track => track.id !== trackId);
       setTracks(updatedTracks);
+      PlaybackEngine.updateTracks(updatedTracks);
       
       if (currentProject) {
         const updatedProject = {
@@ -223,10 +332,10 @@ export function RecordingStudio() {
   const playableTracks = useMemo(() => {
     if (soloTracks.size > 0) {
       // If any tracks are soloed, only play soloed tracks
-      return tracks.filter(track => soloTracks.has(track.id) && track.audioData);
+      return tracks.filter(track => soloTracks.has(track.id) && AudioStore.hasTrackAudio(track));
     } else {
       // Otherwise, play all non-muted tracks
-      return tracks.filter(track => !track.isMuted && track.audioData);
+      return tracks.filter(track => !track.isMuted && AudioStore.hasTrackAudio(track));
     }
   }, [tracks, soloTracks]);
 
@@ -250,6 +359,20 @@ export function RecordingStudio() {
           console.warn('⚠️ ProjectManager initialization failed:', pmError);
           // Continue anyway as it might work in fallback mode
         }
+
+        // Look for unsaved work left behind by a crash before autosave starts writing again
+        try {
+          const recovery = await SessionJournal.getPendingRecovery();
+          if (recovery) {
+            console.log('🩹 Found unsaved work from the last session:', recovery.projectName);
+            setPendingRecovery(recovery);
+          } else {
+            setIsRecoveryResolved(true);
+          }
+        } catch (recoveryError) {
+          console.warn('⚠️ Could not read the session journal:', recoveryError);
+          setIsRecoveryResolved(true);
+        }
         
         console.log('🎵 Initializing PlaybackEngine...');
         try {
@@ -274,14 +397,20 @@ export function RecordingStudio() {
         
         // Check for existing projects first, then create default if none exist
         console.log('📂 Checking for existing projects...');
-        const existingProjects = await ProjectManager.getAllProjects();
+        const existingProjects = queryProjects(await ProjectIndex.getEntries(), { sortBy: 'lastModified' });
         
-        let projectToLoad: Project;
-        if (existingProjects.length > 0) {
-          // Auto-load the most recent project
-          projectToLoad = existingProjects[0]; // Already sorted by lastModified
-          console.log('✅ Loading most recent project:', projectToLoad.name);
-        } else {
+        // Auto-load the most recent project that still opens
+        let projectToLoad: Project | null = null;
+        for (const entry of existingProjects) {
+          try {
+            projectToLoad = await ProjectManager.loadProject(entry.id);
+            console.log('✅ Loading most recent project:', projectToLoad.name);
+            break;
+          } catch (loadError) {
+            console.warn('⚠️ Skipping unreadable project:', entry.name, loadError);
+          }
+        }
+        if (!projectToLoad) {
           // Create and save default project
           projectToLoad = ProjectManager.createNewProject('My First Project');
           await ProjectManager.saveProject(projectToLoad);
@@ -290,13 +419,24 @@ export function RecordingStudio() {
         
         setCurrentProject(projectToLoad);
         setProjectName(projectToLoad.name);
+        setBuses(projectToLoad.buses ?? []);
         
         // Load project settings safely
         if (projectToLoad.settings) {
-          setBpm(projectToLoad.settings.tempo || 120);
-          setIsMetronomeEnabled(projectToLoad.settings.metronomeEnabled || false);
-          setMetronomeVolume(projectToLoad.settings.metronomeVolume || 0.5);
-          setSnapToGrid(projectToLoad.settings.snapToGrid !== false);
+          const settings = editorProject(projectToLoad).settings;
+          setBpm(settings.tempo);
+          setTempoChanges(settings.tempoChanges ?? []);
+          setTimeSignature(settings.timeSignature);
+          setMeterChanges(settings.meterChanges ?? []);
+          setIsMetronomeEnabled(settings.metronomeEnabled);
+          setMetronomeVolume(settings.metronomeVolume);
+          setClickSettings(settings.click);
+          setSnapToGrid(settings.snapToGrid);
+          setGrooveSettings(settings.groove);
+          setGrooveTemplates(settings.grooveTemplates ?? []);
+          setLoopRegion(settings.loop ?? null);
+          setMasterVolume(settings.masterVolume);
+          setMasterLimiter(settings.limiter);
         }
         
         clearTimeout(initTimeout);
@@ -344,17 +484,28 @@ export function RecordingStudio() {
 
   useEffect(() => {
     if (currentProject && currentProject.id !== currentProjectId) {
-      // Only load settings when actually switching to a different project
+      // Only load settings when switching projects (or reopening one, see openProject)
       setCurrentProjectId(currentProject.id);
       setTracks(currentProject.tracks);
       setProjectName(currentProject.name);
+      setBuses(currentProject.buses ?? []);
       
       // Load project settings only when switching projects
       if (currentProject.settings) {
-        setBpm(currentProject.settings.tempo || 120);
-        setIsMetronomeEnabled(currentProject.settings.metronomeEnabled || false);
-        setMetronomeVolume(currentProject.settings.metronomeVolume || 0.5);
-        setSnapToGrid(currentProject.settings.snapToGrid !== false);
+        const settings = editorProject(currentProject).settings;
+        setBpm(settings.tempo);
+        setTempoChanges(settings.tempoChanges ?? []);
+        setTimeSignature(settings.timeSignature);
+        setMeterChanges(settings.meterChanges ?? []);
+        setIsMetronomeEnabled(settings.metronomeEnabled);
+        setMetronomeVolume(settings.metronomeVolume);
+        setClickSettings(settings.click);
+        setSnapToGrid(settings.snapToGrid);
+        setGrooveSettings(settings.groove);
+        setGrooveTemplates(settings.grooveTemplates ?? []);
+        setLoopRegion(settings.loop ?? null);
+        setMasterVolume(settings.masterVolume);
+        setMasterLimiter(settings.limiter);
       }
     } else if (currentProject && currentProject.id === currentProjectId) {
       // Just update tracks and name, keep current settings
@@ -363,6 +514,164 @@ export function RecordingStudio() {
     }
   }, [currentProject, currentProjectId, setTracks]);
 
+  // Whatever the manager handed us is already on disk
+  useEffect(() => {
+    if (currentProject) {
+      Autosave.markSaved(editorProject(currentProject));
+    }
+  }, [currentProject]);
+
+  // Autosave edits that weren't saved explicitly (settings, undo/redo, timeline edits)
+  useEffect(() => {
+    // Skip the render where a newly opened project's tracks haven't been loaded yet
+    if (!currentProject || currentProject.id !== currentProjectId || !isRecoveryResolved) return;
+
+    Autosave.schedule(editorProject({
+      ...currentProject,
+      name: projectName,
+      tracks,
+      buses,
+      settings: {
+        ...currentProject.settings,
+        masterVolume,
+        tempo: bpm,
+        tempoChanges: tempoChanges.length > 0 ? tempoChanges : undefined,
+        timeSignature,
+        meterChanges: meterChanges.length > 0 ? meterChanges : undefined,
+        metronomeEnabled: isMetronomeEnabled,
+        metronomeVolume: metronomeVolume,
+        click: clickSettings,
+        snapToGrid: snapToGrid,
+        groove: grooveSettings,
+        grooveTemplates: grooveTemplates.length > 0 ? grooveTemplates : undefined,
+        loop: loopRegion ?? undefined,
+        limiter: masterLimiter,
+      }
+    }));
+  }, [currentProject, currentProjectId, isRecoveryResolved, projectName, tracks, buses, masterVolume, bpm, tempoChanges, timeSignature, meterChanges, isMetronomeEnabled, metronomeVolume, clickSettings, snapToGrid, grooveSettings, grooveTemplates, loopRegion, masterLimiter]);
+
+  // Cycle mode: the engine wraps at the loop end on its own, even mid-playback
+  useEffect(() => {
+    PlaybackEngine.setLoop(loopRegion?.enabled ? loopRegion : null);
+  }, [loopRegion]);
+
+  // Clicks follow the tempo map, picking up edits mid-playback
+  useEffect(() => {
+    MetronomeEngine.setTempoMap(tempoMap);
+  }, [tempoMap]);
+
+  useEffect(() => {
+    MetronomeEngine.setClickSettings(clickSettings);
+  }, [clickSettings]);
+
+  const updateTempoMap = useCallback((tempo: number, changes: TempoEvent[]) => {
+    setBpm(tempo);
+    setTempoChanges(changes);
+  }, []);
+
+  const updateMeter = useCallback((signature: TimeSignature, changes: MeterEvent[]) => {
+    setTimeSignature(signature);
+    setMeterChanges(changes);
+  }, []);
+
+  // Quantize only moves clip starts; autosave picks the change up
+  const quantizeTracks = useCallback((updates: { trackId: string; startTime: number }[]) => {
+    const startTimes = new Map(updates.map(update => [update.trackId, update.startTime]));
+    const updatedTracks = tracks.map(track =>
+      startTimes.has(track.id) ? { ...track, startTime: startTimes.get(track.id) } : track
+    );
+    setTracks(updatedTracks);
+    PlaybackEngine.updateTracks(updatedTracks);
+  }, [tracks, setTracks]);
+
+  // Bus changes reach the running mix without restarting playback
+  useEffect(() => {
+    PlaybackEngine.setBuses(buses);
+  }, [buses]);
+
+  useEffect(() => {
+    PlaybackEngine.setMasterVolume(masterVolume);
+  }, [masterVolume]);
+
+  useEffect(() => {
+    PlaybackEngine.setMasterLimiter(masterLimiter);
+  }, [masterLimiter]);
+
+  // Clips only the undo history still points at must survive storage cleanup
+  useEffect(
+    () => StorageManager.retainAudio(() => historyTracks().map(track => track.audioHash)),
+    [historyTracks]
+  );
+
+  // Persist pending work when the app is backgrounded or closed
+  useEffect(() => {
+    const handleHide = () => {
+      if (document.visibilityState === 'hidden') {
+        SessionJournal.flushRecording();
+        Autosave.flush();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleHide);
+    window.addEventListener('pagehide', handleHide);
+    return () => {
+      document.removeEventListener('visibilitychange', handleHide);
+      window.removeEventListener('pagehide', handleHide);
+    };
+  }, []);
+
+  // Load a project into the editor with its settings and buses, even when it's the
+  // one already open (restored work, a restored backup)
+  const openProject = (project: Project) => {
+    setCurrentProjectId(null);
+    setCurrentProject(project);
+  };
+
+  const handleRestoreRecovery = async () => {
+    if (!pendingRecovery) return;
+
+    try {
+      let project = pendingRecovery.project ?? await ProjectManager.loadProject(pendingRecovery.projectId);
+
+      if (pendingRecovery.recording) {
+        await initAudioContext();
+        const { audio, startTime, name } = pendingRecovery.recording;
+        const recoveredTrack = await recordingToTrack(audio, audioContextRef.current!, startTime, name);
+        project = { ...project, tracks: [...project.tracks, recoveredTrack] };
+      }
+
+      project = { ...project, lastModified: new Date().toISOString() };
+      await ProjectManager.saveProject(project);
+      await SessionJournal.clear();
+
+      openProject(project);
+      setPendingRecovery(null);
+      setIsRecoveryResolved(true);
+
+      toast({
+        title: "Work restored",
+        description: `Recovered unsaved changes to "${project.name}".`,
+      });
+    } catch (error) {
+      console.error('❌ Recovery failed:', error);
+      toast({
+        title: "Recovery failed",
+        description: error instanceof Error ? error.message : "Could not restore the unsaved work.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDiscardRecovery = async () => {
+    try {
+      await SessionJournal.clear();
+    } catch (error) {
+      console.warn('⚠️ Failed to clear the session journal:', error);
+    }
+    setPendingRecovery(null);
+    setIsRecoveryResolved(true);
+  };
+
   // Keyboard shortcuts for undo/redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -397,12 +706,22 @@ export function RecordingStudio() {
         name: projectName,
         lastModified: new Date().toISOString(),
         tracks,
+        buses,
         settings: {
           ...currentProject.settings,
+          masterVolume,
           tempo: bpm,
+          tempoChanges: tempoChanges.length > 0 ? tempoChanges : undefined,
+          timeSignature,
+          meterChanges: meterChanges.length > 0 ? meterChanges : undefined,
           metronomeEnabled: isMetronomeEnabled,
           metronomeVolume: metronomeVolume,
+          click: clickSettings,
           snapToGrid: snapToGrid,
+          groove: grooveSettings,
+          grooveTemplates: grooveTemplates.length > 0 ? grooveTemplates : undefined,
+          loop: loopRegion ?? undefined,
+          limiter: masterLimiter,
         }
       };
 
@@ -447,7 +766,7 @@ export function RecordingStudio() {
           title: "Count-in starting...",
           description: "Recording will begin after count-in",
         });
-        await MetronomeEngine.playCountIn(1);
+        await MetronomeEngine.playCountIn(1, currentTime);
       }
       
       // iOS-only latency compensation with fixed values
@@ -473,20 +792,20 @@ export function RecordingStudio() {
 
       let unmutedTracksCount = 0;
 
-      // Start metronome if enabled
-      if (isMetronomeEnabled) {
-        await MetronomeEngine.start();
-      }
-      
       // Start playing existing tracks if withPlayback is true and tracks exist
       if (withPlayback) {
         unmutedTracksCount = playableTracks.length;
         if (playableTracks.length > 0) {
-          await PlaybackEngine.playTracks(playableTracks, currentTime);
+          await PlaybackEngine.playTracks(tracks, currentTime, soloTracks);
           setIsPlaying(true);
         }
       }
 
+      // Start metronome if enabled; it locks onto the transport when tracks are playing
+      if (isMetronomeEnabled) {
+        await MetronomeEngine.start(currentTime);
+      }
+
       // iOS-only app: Don't pass deviceId - let native AVAudioSession handle device selection
       // The Swift plugin already forces built-in microphone
       const audioConstraints: MediaTrackConstraints = {
@@ -522,11 +841,22 @@ export function RecordingStudio() {
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           recordedChunksRef.current.push(event.data);
+          SessionJournal.appendRecordingChunk(event.data);
         }
       };
 
       const actualStartTime = currentTime;
       setRecordingStartTime(actualStartTime);
+
+      // Journal the take as it's recorded so a crash doesn't lose it
+      if (currentProject) {
+        SessionJournal.beginRecording({
+          projectId: currentProject.id,
+          name: recordingName || `Recording ${tracks.length + 1}`,
+          mimeType: mediaRecorder.mimeType || options.mimeType || 'audio/webm',
+          startTime: Math.max(0, actualStartTime - compensatedLatency),
+        }).catch(error => console.warn('⚠️ Could not journal recording:', error));
+      }
       
       console.log(`🎙️ MediaRecorder.start() called at: ${performance.now()}ms`);
       console.log(`📍 Timeline position when recording starts: ${actualStartTime}s`);
@@ -553,6 +883,7 @@ export function RecordingStudio() {
   const stopRecording = async () => {
     if (mediaRecorderRef.current && isRecording) {
       mediaRecorderRef.current.stop();
+      SessionJournal.flushRecording();
       setIsRecording(false);
 
       // Stop metronome
@@ -578,9 +909,6 @@ export function RecordingStudio() {
             const mimeType = mediaRecorderRef.current?.mimeType || 'audio/webm';
             const audioBlob = new Blob(recordedChunksRef.current, { type: mimeType });
             
-            // Convert blob to ArrayBuffer
-            const arrayBuffer = await audioBlob.arrayBuffer();
-            
             // Initialize audio context if needed
             if (!audioContextRef.current) {
               audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -591,38 +919,18 @@ export function RecordingStudio() {
               await audioContextRef.current.resume();
             }
             
-            // Decode audio data
-            const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-            
-            // Normalize audio to peak at -0.1dB with minimum at -12dB
-            const normalizedBuffer = normalizeAudioBuffer(audioBuffer, audioContextRef.current);
-            
-            // Convert to WAV format and then to base64
-            const wavBuffer = AudioMixer.audioBufferToWav(normalizedBuffer);
-            const base64Data = AudioMixer.arrayBufferToBase64(wavBuffer);
-            
-            // Add data URL prefix for proper format
-            const dataUrl = `data:audio/wav;base64,${base64Data}`;
-            
             // Create new track with dynamic latency compensation
             const compensatedStartTime = Math.max(0, recordingStartTime - latencyCompensation);
             
             console.log(`🔧 Applied latency compensation: ${latencyCompensation}s (${(latencyCompensation * 1000).toFixed(2)}ms)`);
-            console.log(`📊 Audio buffer duration: ${normalizedBuffer.duration}s`);
             console.log(`📍 Start time - Original: ${recordingStartTime}s, Compensated: ${compensatedStartTime}s`);
             
-            const newTrack = {
-              id: Date.now().toString(),
-              name: recordingName || `Recording ${tracks.length + 1}`,
-              audioData: dataUrl,
-              isPlaying: false,
-              isMuted: false,
-              volume: 1,
-              duration: normalizedBuffer.duration,
-              startTime: compensatedStartTime, // Automatically shifted back 150ms
-              trimStart: 0,
-              trimEnd: normalizedBuffer.duration
-            };
+            const newTrack = await recordingToTrack(
+              audioBlob,
+              audioContextRef.current,
+              compensatedStartTime, // Automatically shifted back by the latency compensation
+              recordingName || `Recording ${tracks.length + 1}`
+            );
 
             // Add track to current tracks
             const newTracks = [...tracks, newTrack];
@@ -639,6 +947,9 @@ export function RecordingStudio() {
               await ProjectManager.saveProject(updatedProject);
             }
 
+            // The take is safely in the project now
+            await SessionJournal.endRecording();
+
             setRecordingName('');
             
       toast({
@@ -815,11 +1126,11 @@ export function RecordingStudio() {
       setIsPlaying(false);
     } else {
       if (playableTracks.length > 0) {
+        await PlaybackEngine.playTracks(tracks, currentTime, soloTracks);
+        setIsPlaying(true);
         if (isMetronomeEnabled) {
-          await MetronomeEngine.start();
+          await MetronomeEngine.start(currentTime);
         }
-        await PlaybackEngine.playTracks(playableTracks, currentTime);
-        setIsPlaying(true);
       } else {
         toast({
           title: "No tracks to play",
@@ -841,6 +1152,21 @@ export function RecordingStudio() {
     }
   };
 
+  // Tracks fed the deleted bus go back to the master and lose their sends to it
+  const handleDeleteBus = (busId: string) => {
+    const updatedTracks = tracks.map(track => track.output === busId || track.sends?.some(send => send.busId === busId)
+      ? {
+          ...track,
+          output: track.output === busId ? undefined : track.output,
+          sends: track.sends?.filter(send => send.busId !== busId),
+        }
+      : track
+    );
+    setBuses(buses.filter(bus => bus.id !== busId));
+    setTracks(updatedTracks);
+    PlaybackEngine.updateTracks(updatedTracks);
+  };
+
   const handleSeek = (time: number) => {
     PlaybackEngine.seekTo(time);
     setCurrentTime(time);
@@ -850,18 +1176,22 @@ export function RecordingStudio() {
     try {
       console.log('🚀 Starting native project export with options:', options);
       
-      if (!currentProject || currentProject.tracks.length === 0) {
+      if (!currentProject || tracks.length === 0) {
         throw new Error("No tracks to export");
       }
 
-      const validTracks = currentProject.tracks.filter(track => track.audioData && track.audioData.length > 0);
+      // Mix the tracks as heard; autosaved edits (pan, undo) may not be in currentProject yet
+      const validTracks = tracks.filter(track => AudioStore.hasTrackAudio(track));
       if (validTracks.length === 0) {
         throw new Error("No tracks contain audio data");
       }
 
       console.log(`📊 Exporting ${validTracks.length} tracks to native Files app`);
 
-      const mixedBuffer = await AudioMixer.mixTracks(validTracks);
+      const mixedBuffer = await AudioMixer.mixTracks(validTracks, soloTracks, buses, {
+        volume: masterVolume,
+        limiter: masterLimiter,
+      });
       if (!mixedBuffer || mixedBuffer.length === 0) {
         throw new Error('Mixed audio buffer is empty');
       }
@@ -941,7 +1271,7 @@ export function RecordingStudio() {
     try {
       console.log('🚀 Starting project export...');
       
-      if (!currentProject || currentProject.tracks.length === 0) {
+      if (!currentProject || tracks.length === 0) {
         toast({
           title: "Export Error",
           description: "No tracks to export",
@@ -951,7 +1281,7 @@ export function RecordingStudio() {
       }
 
       // Validate tracks have audio data
-      const validTracks = currentProject.tracks.filter(track => track.audioData && track.audioData.length > 0);
+      const validTracks = tracks.filter(track => AudioStore.hasTrackAudio(track));
       if (validTracks.length === 0) {
         toast({
           title: "Export Error",
@@ -961,10 +1291,13 @@ export function RecordingStudio() {
         return;
       }
 
-      console.log(`📊 Exporting ${validTracks.length} of ${currentProject.tracks.length} tracks`);
+      console.log(`📊 Exporting ${validTracks.length} of ${tracks.length} tracks`);
 
       // Mix all tracks with enhanced error handling
-      const mixedBuffer = await AudioMixer.mixTracks(validTracks);
+      const mixedBuffer = await AudioMixer.mixTracks(validTracks, soloTracks, buses, {
+        volume: masterVolume,
+        limiter: masterLimiter,
+      });
       
       if (!mixedBuffer || mixedBuffer.length === 0) {
         throw new Error('Mixed audio buffer is empty');
@@ -1052,7 +1385,10 @@ export function RecordingStudio() {
 
   const handleProjectSelect = async (project: Project) => {
     try {
-      setCurrentProject(project);
+      // Edits to the project being left are saved before it's swapped out
+      await Autosave.flush();
+      // A restored backup keeps the open project's id, so load it in full
+      openProject(project);
       setShowProjectSelector(false);
       
       toast({
@@ -1175,6 +1511,7 @@ export function RecordingStudio() {
             currentProject={currentProject}
             onProjectSelect={handleProjectSelect}
             onNewProject={handleNewProject}
+            onProjectUpdate={setCurrentProject}
           />
         )}
 
@@ -1216,6 +1553,8 @@ export function RecordingStudio() {
             onMetronomeToggle={() => setIsMetronomeEnabled(!isMetronomeEnabled)}
             metronomeVolume={metronomeVolume}
             onMetronomeVolumeChange={setMetronomeVolume}
+            clickSettings={clickSettings}
+            onClickSettingsChange={setClickSettings}
           />
         </div>
 
@@ -1281,6 +1620,24 @@ export function RecordingStudio() {
                   Stop
                 </Button>
 
+                <Button
+                  // First press without a region loops four bars from the playhead
+                  onClick={() => setLoopRegion(prev => prev
+                    ? { ...prev, enabled: !prev.enabled }
+                    : {
+                      enabled: true,
+                      start: currentTime,
+                      end: tempoMap.timeAtBar(tempoMap.barAtTime(currentTime) + 4),
+                    })}
+                  variant={loopRegion?.enabled ? "default" : "outline"}
+                  className="min-h-[48px] touch-manipulation"
+                  size="lg"
+                  title="Loop (drag on the ruler to set the region)"
+                >
+                  <Repeat className="w-5 h-5" />
+                  <span className="sr-only">Loop</span>
+                </Button>
+
                 <Button onClick={handleUndo} disabled={!canUndo} variant="outline" className="min-h-[48px] touch-manipulation" size="lg" title="Undo (Ctrl+Z)">
                   <Undo className="w-5 h-5" />
                   <span className="sr-only">Undo</span>
@@ -1324,10 +1681,7 @@ export function RecordingStudio() {
                 <span className="text-sm">Master</span>
                 <Slider
                   value={[masterVolume]}
-                  onValueChange={(value) => {
-                    setMasterVolume(value[0]);
-                    PlaybackEngine.setMasterVolume(value[0]);
-                  }}
+                  onValueChange={(value) => setMasterVolume(value[0])}
                   max={1}
                   step={0.1}
                   className="w-24"
@@ -1335,7 +1689,19 @@ export function RecordingStudio() {
                 <span className="text-sm text-muted-foreground">
                   {Math.round(masterVolume * 100)}%
                 </span>
+                <LevelMeter meterId={MASTER_METER_ID} className="w-32" />
+                <MasterLimiterPopover settings={masterLimiter} onSettingsChange={setMasterLimiter} />
               </div>
+
+              <QuantizeDialog
+                tracks={tracks}
+                tempoMap={tempoMap}
+                grooveSettings={grooveSettings}
+                grooveTemplates={grooveTemplates}
+                onGrooveChange={setGrooveSettings}
+                onGrooveTemplatesChange={setGrooveTemplates}
+                onQuantize={quantizeTracks}
+              />
               
               {(isPlaying || currentTime > 0) && (
                 <div className="text-sm text-muted-foreground">
@@ -1380,12 +1746,22 @@ export function RecordingStudio() {
               PlaybackEngine.updateTrackVolume(trackId, volume);
             }
           }}
+          onTrackPanChange={memoizedCallbacks.updateTrackPan}
+          onTrackEffectsChange={memoizedCallbacks.updateTrackEffects}
+          onTrackRoutingChange={memoizedCallbacks.updateTrackRouting}
+          onTrackAutomationChange={memoizedCallbacks.updateTrackAutomation}
+          buses={buses}
           onRemoveTrack={memoizedCallbacks.removeTrack}
           onUpdateTrackName={memoizedCallbacks.updateTrackName}
-          bpm={bpm}
+          tempoMap={tempoMap}
+          onTempoMapChange={updateTempoMap}
+          onMeterChange={updateMeter}
+          groove={groove}
           snapToGrid={snapToGrid}
           onScrollToTime={setScrollToTimeFunction}
           soloTracks={soloTracks}
+          loopRegion={loopRegion}
+          onLoopRegionChange={setLoopRegion}
           onCutTrack={async (originalId, part1, part2) => {
             console.log('✂️ Cut track callback:', { originalId, part1: part1.name, part2: part2.name });
             
@@ -1394,6 +1770,7 @@ export function RecordingStudio() {
             );
             
             setTracks(updatedTracks);
+            PlaybackEngine.updateTracks(updatedTracks);
             
             if (currentProject) {
               const updatedProject = {
@@ -1421,6 +1798,7 @@ export function RecordingStudio() {
                   ...updates,
                   // Ensure we don't accidentally overwrite critical data
                   audioData: updates.audioData || track.audioData,
+                  audioHash: updates.audioHash || track.audioHash,
                   duration: updates.duration || track.duration,
                   volume: updates.volume !== undefined ? updates.volume : track.volume
                 };
@@ -1439,18 +1817,9 @@ export function RecordingStudio() {
             
             setTracks(updatedTracks);
             
-            // Restart playback if playing to reflect changes
-            // The WaveformBlock's local state prevents constant restarts during drag
-            if (isPlaying) {
-              console.log('🔁 Restarting playback to apply changes');
-              PlaybackEngine.stop();
-              const newPlayableTracks = soloTracks.size > 0 
-                ? updatedTracks.filter(track => soloTracks.has(track.id) && track.audioData)
-                : updatedTracks.filter(track => !track.isMuted && track.audioData);
-              if (newPlayableTracks.length > 0) {
-                await PlaybackEngine.playTracks(newPlayableTracks, currentTime);
-              }
-            }
+            // Only the edited clip is rescheduled; the rest of the mix keeps playing
+            // The WaveformBlock's local state prevents constant updates during drag
+            PlaybackEngine.updateTracks(updatedTracks);
             
             // Auto-save the project
             if (currentProject) {
@@ -1465,6 +1834,14 @@ export function RecordingStudio() {
           }}
         />
 
+        {/* Group and aux buses */}
+        <MixBusPanel
+          buses={buses}
+          tracks={tracks}
+          onBusesChange={setBuses}
+          onDeleteBus={handleDeleteBus}
+        />
+
         {/* Audio Layers */}
         <Card className="p-6">
           <div className="space-y-4">
@@ -1525,6 +1902,12 @@ export function RecordingStudio() {
           </div>
         </Card>
 
+        <RecoveryDialog
+          recovery={pendingRecovery}
+          onRestore={handleRestoreRecovery}
+          onDiscard={handleDiscardRecovery}
+        />
+
         {/* Native Export Dialog */}
         {isNative && (
           <NativeExportDialog
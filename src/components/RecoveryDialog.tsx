@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { AlertDialog, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { LifeBuoy } from 'lucide-react';
+import type { PendingRecovery } from '@/services/SessionJournal';
+
+interface RecoveryDialogProps {
+  recovery: PendingRecovery | null;
+  onRestore: () => Promise<void>;
+  onDiscard: () => Promise<void>;
+}
+
+export function RecoveryDialog({ recovery, onRestore, onDiscard }: RecoveryDialogProps) {
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const formatTime = (iso: string) => {
+    if (!iso) return 'your last session';
+    return new Date(iso).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <AlertDialog open={!!recovery}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <LifeBuoy className="w-5 h-5" />
+            Recover unsaved work?
+          </AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2">
+              <p>
+                The app closed before "{recovery?.projectName}" was saved ({formatTime(recovery?.updatedAt ?? '')}).
+              </p>
+              <ul className="list-disc pl-5 text-sm">
+                {recovery?.project && <li>Unsaved edits ({recovery.project.tracks.length} tracks)</li>}
+                {recovery?.recording && <li>An unfinished recording: "{recovery.recording.name}"</li>}
+              </ul>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" disabled={isWorking} onClick={() => run(onDiscard)}>
+            Discard
+          </Button>
+          <Button disabled={isWorking} onClick={() => run(onRestore)}>
+            {isWorking ? 'Restoring...' : 'Restore'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
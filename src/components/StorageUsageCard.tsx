@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { HardDrive, RefreshCw, Trash2 } from 'lucide-react';
+import { StorageManager, type StorageReport } from '@/services/StorageManager';
+import { useToast } from '@/hooks/use-toast';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+interface CleanupButtonProps {
+  label: string;
+  title: string;
+  description: string;
+  disabled: boolean;
+  onConfirm: () => void;
+}
+
+function CleanupButton({ label, title, description, disabled, onConfirm }: CleanupButtonProps) {
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" className="w-full gap-2" disabled={disabled}>
+          <Trash2 className="w-4 h-4" />
+          {label}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>{description}</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+export function StorageUsageCard() {
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const { toast } = useToast();
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReport(await StorageManager.getReport());
+    } catch (error) {
+      console.error('Error building storage report:', error);
+      toast({
+        title: "Storage report failed",
+        description: error instanceof Error ? error.message : "Could not read storage usage.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // Exports are files the user made on purpose, so they're only removed when asked for
+  const handleCleanup = async (options: { orphanedAudio: boolean; exports: boolean }) => {
+    setIsCleaning(true);
+    try {
+      const result = await StorageManager.cleanup(options);
+      toast({
+        title: "Storage cleaned up",
+        description: `Removed ${result.deletedFiles} files and freed ${formatBytes(result.freedBytes)}.`,
+      });
+      await loadReport();
+    } catch (error) {
+      console.error('Error cleaning up storage:', error);
+      toast({
+        title: "Cleanup failed",
+        description: error instanceof Error ? error.message : "Could not remove unused files.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCleaning(false);
+    }
+  };
+
+  const orphanedBytes = report?.orphanedAudio.reduce((sum, file) => sum + file.bytes, 0) ?? 0;
+  const exportBytes = report?.exports.reduce((sum, file) => sum + file.bytes, 0) ?? 0;
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <HardDrive className="w-5 h-5" />
+          <span className="font-medium">Storage</span>
+          <span className="ml-auto text-sm text-muted-foreground">
+            {report ? formatBytes(report.totalBytes) : '—'}
+          </span>
+          <Button variant="ghost" size="sm" onClick={loadReport} disabled={isLoading} title="Refresh">
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+
+        {report && (
+          <>
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {report.projects.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No saved projects</p>
+              ) : (
+                report.projects.map(project => (
+                  <div key={project.projectId} className="flex items-center justify-between text-sm">
+                    <span className="truncate">{project.name}</span>
+                    <span className="text-muted-foreground whitespace-nowrap ml-2">
+                      {formatBytes(project.audioBytes)} audio · {project.clipCount} clips
+                      {project.backupBytes > 0 && ` · ${formatBytes(project.backupBytes)} backups`}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="border-t border-border pt-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Unused audio</span>
+                <span className="text-muted-foreground">
+                  {report.orphanedAudio.length} files · {formatBytes(orphanedBytes)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span>Exports</span>
+                <span className="text-muted-foreground">
+                  {report.exports.length} files · {formatBytes(exportBytes)}
+                </span>
+              </div>
+            </div>
+
+            <CleanupButton
+              label={isCleaning ? 'Cleaning up...' : `Free ${formatBytes(orphanedBytes)} of unused audio`}
+              title="Clean up storage"
+              description={`This deletes ${report.orphanedAudio.length} audio files no project uses. Your projects, their backups and your exports are not affected.`}
+              disabled={isCleaning || report.orphanedAudio.length === 0}
+              onConfirm={() => handleCleanup({ orphanedAudio: true, exports: false })}
+            />
+            <CleanupButton
+              label={`Delete exports (${formatBytes(exportBytes)})`}
+              title="Delete exports"
+              description={`This deletes ${report.exports.length} exported files, including project bundles. Your projects and their backups are not affected.`}
+              disabled={isCleaning || report.exports.length === 0}
+              onConfirm={() => handleCleanup({ orphanedAudio: false, exports: true })}
+            />
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
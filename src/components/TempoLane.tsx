@@ -0,0 +1,274 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { MAX_TEMPO, MIN_TEMPO, type TempoEvent, type TempoMap } from '@/lib/tempoMap';
+import { MinusIcon, PlusIcon, XIcon } from 'lucide-react';
+
+interface TempoLaneProps {
+  tempoMap: TempoMap;
+  timeToPixels: (time: number) => number;
+  pixelsToTime: (pixels: number) => number;
+  timelineWidth: number;
+  onTempoMapChange: (tempo: number, changes: TempoEvent[]) => void;
+  onClose: () => void;
+}
+
+interface TempoDraft {
+  tempo: number;
+  changes: TempoEvent[];
+}
+
+const LANE_HEIGHT = 64; // h-16, same as the automation lanes
+const POINT_RADIUS = 5;
+const INSET = POINT_RADIUS + 1; // keeps points at the extremes fully visible
+const HIT_RADIUS_PX = 12; // finger-sized
+const DOUBLE_TAP_MS = 300;
+const RAMP_SAMPLES = 24;
+
+const tempoToY = (bpm: number) =>
+  INSET + (1 - (bpm - MIN_TEMPO) / (MAX_TEMPO - MIN_TEMPO)) * (LANE_HEIGHT - INSET * 2);
+const yToTempo = (y: number) => {
+  const ratio = 1 - (y - INSET) / (LANE_HEIGHT - INSET * 2);
+  return Math.round(MIN_TEMPO + Math.max(0, Math.min(1, ratio)) * (MAX_TEMPO - MIN_TEMPO));
+};
+
+/**
+ * Tempo lane under the ruler. The project tempo is the point on bar 1; tap
+ * the lane to add a tempo change on the nearest bar, drag points to change
+ * them and double-tap one to remove it. The selected change can be nudged a
+ * BPM at a time and set to ramp in from the previous tempo.
+ */
+export function TempoLane({
+  tempoMap,
+  timeToPixels,
+  pixelsToTime,
+  timelineWidth,
+  onTempoMapChange,
+  onClose,
+}: TempoLaneProps) {
+  // Local copy while dragging, committed on release like clip moves
+  const [draft, setDraft] = useState<TempoDraft | null>(null);
+  const [selectedBar, setSelectedBar] = useState<number | null>(null);
+  const dragRef = useRef<{ bar: number; moved: boolean } | null>(null);
+  const lastTapRef = useRef<{ bar: number; time: number } | null>(null);
+
+  const shown = draft ? tempoMap.withTempo(draft.tempo, draft.changes) : tempoMap;
+  const current: TempoDraft = { tempo: shown.tempo, changes: shown.changes };
+  const points: TempoEvent[] = [{ bar: 0, bpm: shown.tempo }, ...shown.changes];
+  const selected = points.find(point => point.bar === selectedBar);
+
+  const commit = (next: TempoDraft) => onTempoMapChange(next.tempo, next.changes);
+
+  // Edit the point on `bar`; bar 0 is the project tempo, which only has a BPM
+  const withPoint = (base: TempoDraft, bar: number, changes: Partial<TempoEvent>): TempoDraft => {
+    if (bar === 0) return { ...base, tempo: changes.bpm ?? base.tempo };
+    return {
+      ...base,
+      changes: base.changes.map(change => (change.bar === bar ? { ...change, ...changes } : change)),
+    };
+  };
+
+  // Bars are found on the saved map, so they don't shift under the finger mid-drag
+  const barAt = (x: number) => Math.max(0, Math.round(tempoMap.barAtTime(pixelsToTime(x))));
+
+  const localPosition = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.stopPropagation();
+    const { x, y } = localPosition(e);
+
+    const hit = points.find(point =>
+      Math.hypot(timeToPixels(shown.timeAtBar(point.bar)) - x, tempoToY(point.bpm) - y) <= HIT_RADIUS_PX
+    );
+
+    if (hit) {
+      // Double-tap removes a tempo change; the project tempo stays
+      const lastTap = lastTapRef.current;
+      if (hit.bar > 0 && lastTap?.bar === hit.bar && e.timeStamp - lastTap.time < DOUBLE_TAP_MS) {
+        lastTapRef.current = null;
+        setSelectedBar(null);
+        commit({ ...current, changes: current.changes.filter(change => change.bar !== hit.bar) });
+        return;
+      }
+      lastTapRef.current = { bar: hit.bar, time: e.timeStamp };
+      dragRef.current = { bar: hit.bar, moved: false };
+      setSelectedBar(hit.bar);
+      setDraft(current);
+    } else {
+      const bar = barAt(x);
+      const existing = points.find(point => point.bar === bar);
+      const next = existing
+        ? withPoint(current, bar, { bpm: yToTempo(y) })
+        : { ...current, changes: [...current.changes, { bar, bpm: yToTempo(y) }] };
+      dragRef.current = { bar, moved: true };
+      lastTapRef.current = null;
+      setSelectedBar(bar);
+      setDraft(next);
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !draft) return;
+    const { x, y } = localPosition(e);
+
+    let bar = drag.bar;
+    if (bar > 0) {
+      // A change can't pass its neighbours or land on bar 1
+      const others = draft.changes.filter(change => change.bar !== drag.bar).map(change => change.bar);
+      const previous = Math.max(0, ...others.filter(other => other < drag.bar));
+      const next = Math.min(Infinity, ...others.filter(other => other > drag.bar));
+      bar = Math.max(previous + 1, Math.min(next - 1, barAt(x)));
+    }
+
+    drag.moved = true;
+    setDraft(withPoint(draft, drag.bar, { bar, bpm: yToTempo(y) }));
+    drag.bar = bar;
+    setSelectedBar(bar);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    if (drag?.moved && draft) commit(draft);
+    setDraft(null);
+  };
+
+  // Steps jump at the bar line; ramps are drawn through the map so their curve matches playback
+  const linePoints = [`0,${tempoToY(shown.tempo)}`];
+  let previousBpm = shown.tempo;
+  let previousTime = 0;
+  for (const change of shown.changes) {
+    const time = shown.timeAtBar(change.bar);
+    if (change.ramp) {
+      for (let i = 1; i < RAMP_SAMPLES; i++) {
+        const sampleTime = previousTime + ((time - previousTime) * i) / RAMP_SAMPLES;
+        linePoints.push(`${timeToPixels(sampleTime)},${tempoToY(shown.tempoAt(sampleTime))}`);
+      }
+    } else {
+      linePoints.push(`${timeToPixels(time)},${tempoToY(previousBpm)}`);
+    }
+    linePoints.push(`${timeToPixels(time)},${tempoToY(change.bpm)}`);
+    previousBpm = change.bpm;
+    previousTime = time;
+  }
+  linePoints.push(`${timelineWidth},${tempoToY(previousBpm)}`);
+
+  const draggedPoint = draft && dragRef.current ? selected : undefined;
+
+  return (
+    <div
+      className="relative h-16 border-b border-border bg-muted/20"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <svg
+        width={timelineWidth}
+        height={LANE_HEIGHT}
+        className="absolute inset-0 cursor-crosshair"
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <polyline points={linePoints.join(' ')} fill="none" className="stroke-primary" strokeWidth={1.5} />
+        {points.map(point => (
+          <circle
+            key={point.bar}
+            cx={timeToPixels(shown.timeAtBar(point.bar))}
+            cy={tempoToY(point.bpm)}
+            r={POINT_RADIUS}
+            className={point.bar === selectedBar ? 'fill-primary stroke-primary' : 'fill-background stroke-primary'}
+            strokeWidth={1.5}
+          />
+        ))}
+      </svg>
+
+      {draggedPoint && (
+        <div
+          className="absolute -top-5 text-[10px] font-mono bg-primary text-primary-foreground px-1 rounded pointer-events-none z-20"
+          style={{ left: `${timeToPixels(shown.timeAtBar(draggedPoint.bar)) + 8}px` }}
+        >
+          Bar {draggedPoint.bar + 1}: {draggedPoint.bpm} BPM
+        </div>
+      )}
+
+      {/* Lane header */}
+      <div className="absolute top-1 left-1 flex items-center gap-0.5 rounded bg-background/80 px-1 z-10">
+        <span className="text-[10px] font-bold text-muted-foreground px-1">TEMPO</span>
+        {selected && (
+          <>
+            <span className="text-[10px] font-mono px-1">Bar {selected.bar + 1}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => commit(withPoint(current, selected.bar, { bpm: selected.bpm - 1 }))}
+              disabled={selected.bpm <= MIN_TEMPO}
+              className="h-5 w-5 p-0 text-muted-foreground"
+            >
+              <MinusIcon className="w-3 h-3" />
+            </Button>
+            <span className="text-[10px] font-mono w-12 text-center">{selected.bpm} BPM</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => commit(withPoint(current, selected.bar, { bpm: selected.bpm + 1 }))}
+              disabled={selected.bpm >= MAX_TEMPO}
+              className="h-5 w-5 p-0 text-muted-foreground"
+            >
+              <PlusIcon className="w-3 h-3" />
+            </Button>
+            {selected.bar > 0 && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => commit(withPoint(current, selected.bar, { ramp: !selected.ramp }))}
+                  className={`h-5 px-1.5 text-[10px] font-bold ${
+                    selected.ramp ? 'bg-primary/20 text-primary' : 'text-muted-foreground'
+                  }`}
+                  title="Ramp in from the previous tempo"
+                >
+                  RAMP
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setSelectedBar(null);
+                    commit({ ...current, changes: current.changes.filter(change => change.bar !== selected.bar) });
+                  }}
+                  className="h-5 px-1.5 text-[10px] text-muted-foreground"
+                >
+                  Delete
+                </Button>
+              </>
+            )}
+          </>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setSelectedBar(null);
+            commit({ ...current, changes: [] });
+          }}
+          disabled={tempoMap.isConstant}
+          className="h-5 px-1.5 text-[10px] text-muted-foreground"
+        >
+          Clear
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-5 w-5 p-0 text-muted-foreground">
+          <XIcon className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { TrashIcon, VolumeXIcon, Volume2Icon, Edit3 } from 'lucide-react';
 import { AudioTrack, ProjectManager } from '@/services/ProjectManager';
+import { AudioStore } from '@/services/AudioStore';
 import { WaveformDisplay } from './WaveformDisplay';
 
 interface TimelineTrackProps {
@@ -33,8 +34,11 @@ export function TimelineTrack({
 
   useEffect(() => {
     const loadAudioBuffer = async () => {
-      if (track.audioData && !audioBuffer) {
+      if ((track.audioData || track.audioHash) && !audioBuffer) {
         try {
+          const audioData = await AudioStore.resolveAudio(track.audioData, track.audioHash);
+          if (!audioData) return;
+
           if (!audioContextRef.current) {
             audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
           }
@@ -43,7 +47,7 @@ export function TimelineTrack({
             await audioContextRef.current.resume();
           }
           
-          const buffer = await ProjectManager.base64ToAudioBuffer(track.audioData, audioContextRef.current);
+          const buffer = await ProjectManager.base64ToAudioBuffer(audioData, audioContextRef.current);
           setAudioBuffer(buffer);
         } catch (error) {
           console.error('Error loading audio buffer for timeline:', error);
@@ -52,7 +56,7 @@ export function TimelineTrack({
     };
 
     loadAudioBuffer();
-  }, [track.audioData, audioBuffer]);
+  }, [track.audioData, track.audioHash, audioBuffer]);
 
   const trackWidthPixels = timeToPixels(track.duration, width);
   const startPosition = timeToPixels(track.startTime || 0, width);
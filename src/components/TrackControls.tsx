@@ -2,7 +2,12 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
-import { AudioTrack } from '@/services/ProjectManager';
+import { LevelMeter } from '@/components/LevelMeter';
+import { PanKnob } from '@/components/PanKnob';
+import { TrackEffectsDialog } from '@/components/TrackEffectsDialog';
+import { TrackRoutingPopover, type TrackRouting } from '@/components/TrackRoutingPopover';
+import { AudioTrack, type MixBus } from '@/services/ProjectManager';
+import type { TrackEffect } from '@/services/TrackEffects';
 import { 
   VolumeXIcon, 
   Volume2Icon, 
@@ -11,7 +16,9 @@ import {
   Edit3,
   TrashIcon,
   HeadphonesIcon,
-  BarChart3Icon
+  BarChart3Icon,
+  SlidersHorizontalIcon,
+  TrendingUpIcon
 } from 'lucide-react';
 
 interface TrackControlsProps {
@@ -21,6 +28,12 @@ interface TrackControlsProps {
   onToggleSolo: (trackId: string) => void;
   onToggleRecord: (trackId: string) => void;
   onVolumeChange: (trackId: string, volume: number) => void;
+  onPanChange: (trackId: string, pan: number) => void;
+  onEffectsChange: (trackId: string, effects: TrackEffect[]) => void;
+  onRoutingChange: (trackId: string, routing: TrackRouting) => void;
+  buses?: MixBus[];
+  isAutomationOpen?: boolean;
+  onToggleAutomation?: (trackId: string) => void;
   onRemove: (trackId: string) => void;
   onUpdateTrackName: (trackId: string, name: string) => void;
   isSoloed?: boolean;
@@ -35,6 +48,12 @@ export function TrackControls({
   onToggleSolo,
   onToggleRecord,
   onVolumeChange,
+  onPanChange,
+  onEffectsChange,
+  onRoutingChange,
+  buses = [],
+  isAutomationOpen = false,
+  onToggleAutomation,
   onRemove,
   onUpdateTrackName,
   isSoloed = false,
@@ -43,6 +62,9 @@ export function TrackControls({
 }: TrackControlsProps) {
   const [isEditingName, setIsEditingName] = useState(false);
   const [editName, setEditName] = useState(track.name);
+  const [showEffects, setShowEffects] = useState(false);
+  const activeEffects = (track.effects ?? []).filter(effect => effect.enabled).length;
+  const hasAutomation = Object.values(track.automation ?? {}).some(points => points.length > 0);
 
   return (
     <div className="flex flex-col h-24 border-r border-border bg-layer-bg/50 min-w-[200px] group">
@@ -53,6 +75,36 @@ export function TrackControls({
         </div>
         <BarChart3Icon className="w-4 h-4 text-muted-foreground" />
         <div className="flex-1" />
+        <TrackRoutingPopover
+          track={track}
+          buses={buses}
+          onRoutingChange={(routing) => onRoutingChange(track.id, routing)}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowEffects(true)}
+          className={`h-6 px-1.5 gap-1 text-[10px] font-bold ${
+            activeEffects > 0 ? 'text-primary' : 'text-muted-foreground'
+          }`}
+          title="Track effects"
+        >
+          <SlidersHorizontalIcon className="w-3 h-3" />
+          FX{activeEffects > 0 ? ` ${activeEffects}` : ''}
+        </Button>
+        {onToggleAutomation && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onToggleAutomation(track.id)}
+            className={`h-6 w-6 p-0 ${
+              isAutomationOpen ? 'bg-primary/20 text-primary' : hasAutomation ? 'text-primary' : 'text-muted-foreground'
+            }`}
+            title="Automation"
+          >
+            <TrendingUpIcon className="w-3 h-3" />
+          </Button>
+        )}
         <Button
           variant="ghost"
           size="sm"
@@ -150,8 +202,15 @@ export function TrackControls({
           I
         </Button>
 
-        {/* Volume slider */}
-        <div className="flex-1 px-2">
+        {/* Pan knob */}
+        <PanKnob
+          value={track.pan ?? 0}
+          onChange={(pan) => onPanChange(track.id, pan)}
+          className="ml-1 flex-shrink-0"
+        />
+
+        {/* Volume slider and level meter */}
+        <div className="flex-1 px-2 space-y-1">
           <Slider
             value={[track.volume * 100]}
             onValueChange={(value) => onVolumeChange(track.id, value[0] / 100)}
@@ -159,6 +218,7 @@ export function TrackControls({
             step={1}
             className="w-full"
           />
+          <LevelMeter meterId={track.id} />
         </div>
 
         {/* Volume icon */}
@@ -170,6 +230,14 @@ export function TrackControls({
           )}
         </div>
       </div>
+
+      <TrackEffectsDialog
+        open={showEffects}
+        onOpenChange={setShowEffects}
+        trackName={track.name}
+        effects={track.effects ?? []}
+        onEffectsChange={(effects) => onEffectsChange(track.id, effects)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,256 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  createEffect,
+  EFFECT_LABELS,
+  MAX_DELAY_SECONDS,
+  MAX_REVERB_SECONDS,
+  type EffectType,
+  type EqBand,
+  type EqBandType,
+  type TrackEffect,
+} from '@/services/TrackEffects';
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, TrashIcon } from 'lucide-react';
+
+interface TrackEffectsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trackName: string;
+  effects: TrackEffect[];
+  onEffectsChange: (effects: TrackEffect[]) => void;
+}
+
+interface ParamSpec {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const db = (value: number) => `${value.toFixed(1)} dB`;
+const ms = (value: number) => `${Math.round(value * 1000)} ms`;
+const seconds = (value: number) => `${value.toFixed(2)} s`;
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const EFFECT_PARAMS: Record<Exclude<EffectType, 'eq'>, ParamSpec[]> = {
+  compressor: [
+    { key: 'threshold', label: 'Threshold', min: -60, max: 0, step: 0.5, format: db },
+    { key: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.5, format: value => `${value.toFixed(1)}:1` },
+    { key: 'knee', label: 'Knee', min: 0, max: 40, step: 1, format: db },
+    { key: 'attack', label: 'Attack', min: 0, max: 0.2, step: 0.001, format: ms },
+    { key: 'release', label: 'Release', min: 0.01, max: 1, step: 0.01, format: ms },
+    { key: 'makeupGain', label: 'Makeup', min: 0, max: 24, step: 0.5, format: db },
+  ],
+  gate: [
+    { key: 'threshold', label: 'Threshold', min: -70, max: 0, step: 1, format: db },
+    { key: 'attack', label: 'Attack', min: 0.001, max: 0.1, step: 0.001, format: ms },
+    { key: 'release', label: 'Release', min: 0.01, max: 1, step: 0.01, format: ms },
+  ],
+  delay: [
+    { key: 'time', label: 'Time', min: 0.01, max: MAX_DELAY_SECONDS, step: 0.005, format: ms },
+    { key: 'feedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01, format: percent },
+    { key: 'mix', label: 'Mix', min: 0, max: 1, step: 0.01, format: percent },
+  ],
+  reverb: [
+    { key: 'decay', label: 'Decay', min: 0.1, max: MAX_REVERB_SECONDS, step: 0.1, format: seconds },
+    { key: 'preDelay', label: 'Pre-delay', min: 0, max: 0.2, step: 0.005, format: ms },
+    { key: 'mix', label: 'Mix', min: 0, max: 1, step: 0.01, format: percent },
+  ],
+};
+
+const EQ_BAND_TYPES: { value: EqBandType; label: string }[] = [
+  { value: 'lowshelf', label: 'Low shelf' },
+  { value: 'peaking', label: 'Bell' },
+  { value: 'highshelf', label: 'High shelf' },
+  { value: 'highpass', label: 'High pass' },
+  { value: 'lowpass', label: 'Low pass' },
+];
+
+// Frequency sliders run on a log scale so every octave gets the same travel
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+const frequencyToSlider = (hz: number) => Math.log(hz / MIN_FREQUENCY) / Math.log(MAX_FREQUENCY / MIN_FREQUENCY);
+const sliderToFrequency = (position: number) =>
+  Math.round(MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, position));
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)} kHz` : `${hz} Hz`);
+
+function ParamSlider({ label, value, display, min, max, step, onChange }: {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="grid grid-cols-[80px_1fr_72px] items-center gap-3">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <Slider value={[value]} min={min} max={max} step={step} onValueChange={([next]) => onChange(next)} />
+      <span className="text-xs font-mono text-right">{display}</span>
+    </div>
+  );
+}
+
+function EqBandEditor({ band, onChange }: { band: EqBand; onChange: (band: EqBand) => void }) {
+  const hasGain = band.type === 'lowshelf' || band.type === 'peaking' || band.type === 'highshelf';
+  return (
+    <div className="space-y-2 rounded border border-border/50 p-2">
+      <Select value={band.type} onValueChange={(type) => onChange({ ...band, type: type as EqBandType })}>
+        <SelectTrigger className="h-7 w-32 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {EQ_BAND_TYPES.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <ParamSlider
+        label="Frequency"
+        value={frequencyToSlider(band.frequency)}
+        display={formatFrequency(band.frequency)}
+        min={0}
+        max={1}
+        step={0.001}
+        onChange={(position) => onChange({ ...band, frequency: sliderToFrequency(position) })}
+      />
+      {hasGain && (
+        <ParamSlider
+          label="Gain"
+          value={band.gain}
+          display={db(band.gain)}
+          min={-24}
+          max={24}
+          step={0.5}
+          onChange={(gain) => onChange({ ...band, gain })}
+        />
+      )}
+      <ParamSlider
+        label="Q"
+        value={band.q}
+        display={band.q.toFixed(2)}
+        min={0.1}
+        max={18}
+        step={0.1}
+        onChange={(q) => onChange({ ...band, q })}
+      />
+    </div>
+  );
+}
+
+export function TrackEffectsDialog({ open, onOpenChange, trackName, effects, onEffectsChange }: TrackEffectsDialogProps) {
+  const updateEffect = (index: number, effect: TrackEffect) => {
+    onEffectsChange(effects.map((current, i) => (i === index ? effect : current)));
+  };
+
+  const moveEffect = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= effects.length) return;
+    const next = [...effects];
+    [next[index], next[target]] = [next[target], next[index]];
+    onEffectsChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Effects: {trackName}</DialogTitle>
+          <DialogDescription>
+            Processed top to bottom, before the fader. Export uses the same chain.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="space-y-3">
+            {effects.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">No effects yet</p>
+            )}
+
+            {effects.map((effect, index) => (
+              <div key={effect.id} className="rounded-lg border border-border p-3 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={effect.enabled}
+                    onCheckedChange={(enabled) => updateEffect(index, { ...effect, enabled })}
+                  />
+                  <span className={`text-sm font-medium flex-1 ${effect.enabled ? '' : 'text-muted-foreground'}`}>
+                    {EFFECT_LABELS[effect.type]}
+                  </span>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === 0} onClick={() => moveEffect(index, -1)}>
+                    <ArrowUpIcon className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === effects.length - 1} onClick={() => moveEffect(index, 1)}>
+                    <ArrowDownIcon className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-destructive"
+                    onClick={() => onEffectsChange(effects.filter((_, i) => i !== index))}
+                  >
+                    <TrashIcon className="w-3 h-3" />
+                  </Button>
+                </div>
+
+                {effect.type === 'eq' ? (
+                  <div className="space-y-2">
+                    {effect.bands.map((band, bandIndex) => (
+                      <EqBandEditor
+                        key={bandIndex}
+                        band={band}
+                        onChange={(next) => updateEffect(index, {
+                          ...effect,
+                          bands: effect.bands.map((current, i) => (i === bandIndex ? next : current)),
+                        })}
+                      />
+                    ))}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {EFFECT_PARAMS[effect.type].map(param => {
+                      const value = (effect as unknown as Record<string, number>)[param.key];
+                      return (
+                        <ParamSlider
+                          key={param.key}
+                          label={param.label}
+                          value={value}
+                          display={param.format(value)}
+                          min={param.min}
+                          max={param.max}
+                          step={param.step}
+                          onChange={(next) => updateEffect(index, { ...effect, [param.key]: next } as TrackEffect)}
+                        />
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <Select value="" onValueChange={(type) => onEffectsChange([...effects, createEffect(type as EffectType)])}>
+          <SelectTrigger className="w-full">
+            <div className="flex items-center gap-2">
+              <PlusIcon className="w-4 h-4" />
+              <SelectValue placeholder="Add effect" />
+            </div>
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(EFFECT_LABELS) as EffectType[]).map(type => (
+              <SelectItem key={type} value={type}>{EFFECT_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import type { AudioTrack, MixBus, TrackSend } from '@/services/ProjectManager';
+import { SplitIcon } from 'lucide-react';
+
+export interface TrackRouting {
+  output?: string;
+  sends?: TrackSend[];
+}
+
+interface TrackRoutingPopoverProps {
+  track: AudioTrack;
+  buses: MixBus[];
+  onRoutingChange: (routing: TrackRouting) => void;
+}
+
+const MASTER_OUTPUT = 'master';
+
+export function TrackRoutingPopover({ track, buses, onRoutingChange }: TrackRoutingPopoverProps) {
+  const groups = buses.filter(bus => bus.kind === 'group');
+  const auxes = buses.filter(bus => bus.kind === 'aux');
+  const output = groups.find(bus => bus.id === track.output);
+  const sends = track.sends ?? [];
+  const activeSends = sends.filter(send => send.level > 0 && auxes.some(bus => bus.id === send.busId)).length;
+
+  const updateSend = (busId: string, changes: Partial<TrackSend>) => {
+    const existing = sends.find(send => send.busId === busId);
+    const next = existing
+      ? sends.map(send => (send.busId === busId ? { ...send, ...changes } : send))
+      : [...sends, { busId, level: 0, preFader: false, ...changes }];
+    onRoutingChange({ output: track.output, sends: next });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 px-1.5 gap-1 text-[10px] font-bold max-w-[80px] ${
+            output || activeSends > 0 ? 'text-primary' : 'text-muted-foreground'
+          }`}
+          title="Output and sends"
+        >
+          <SplitIcon className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">{output ? output.name : 'Out'}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4" align="start">
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-muted-foreground">Output</div>
+          <Select
+            value={output ? output.id : MASTER_OUTPUT}
+            onValueChange={(value) => onRoutingChange({
+              output: value === MASTER_OUTPUT ? undefined : value,
+              sends: track.sends,
+            })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={MASTER_OUTPUT}>Master</SelectItem>
+              {groups.map(bus => (
+                <SelectItem key={bus.id} value={bus.id}>{bus.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-muted-foreground">Sends</div>
+          {auxes.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Add an aux bus in the Buses panel to send to it.</p>
+          ) : (
+            auxes.map(bus => {
+              const send = sends.find(s => s.busId === bus.id);
+              const level = send?.level ?? 0;
+              return (
+                <div key={bus.id} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs flex-1 truncate">{bus.name}</span>
+                    <span className="text-[10px] text-muted-foreground">Pre</span>
+                    <Switch
+                      checked={send?.preFader ?? false}
+                      onCheckedChange={(preFader) => updateSend(bus.id, { preFader })}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Slider
+                      value={[level * 100]}
+                      onValueChange={([value]) => updateSend(bus.id, { level: value / 100 })}
+                      max={100}
+                      step={1}
+                      className="flex-1"
+                    />
+                    <span className="text-xs font-mono w-9 text-right">{Math.round(level * 100)}%</span>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
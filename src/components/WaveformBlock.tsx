@@ -2,6 +2,10 @@ import { useState, useRef, useEffect } from 'react';
 import { AudioTrack } from '@/services/ProjectManager';
 import { WaveformDisplay } from './WaveformDisplay';
 import { useSnapToGrid } from '@/hooks/useSnapToGrid';
+import type { TempoMap } from '@/lib/tempoMap';
+import type { Groove } from '@/lib/groove';
+import { AudioStore } from '@/services/AudioStore';
+import { DEFAULT_FADE_CURVE, FADE_CURVE_LABELS, fadeGain, type ClipFade, type FadeCurve } from '@/services/ClipFades';
 
 interface WaveformBlockProps {
   track: AudioTrack;
@@ -12,7 +16,8 @@ interface WaveformBlockProps {
   onCutTrack?: (originalId: string, part1: AudioTrack, part2: AudioTrack) => void;
   isPlaying: boolean;
   currentTime: number;
-  bpm?: number;
+  tempoMap?: TempoMap;
+  groove?: Groove;
   snapToGrid?: boolean;
   scrollOffset?: number;
   zoomLevel?: number;
@@ -29,7 +34,8 @@ export function WaveformBlock({
   onCutTrack,
   isPlaying,
   currentTime,
-  bpm = 120,
+  tempoMap,
+  groove,
   snapToGrid = true,
   scrollOffset = 0,
   zoomLevel = 1,
@@ -48,6 +54,9 @@ export function WaveformBlock({
   const [localTrimStart, setLocalTrimStart] = useState<number | null>(null);
   const [localTrimEnd, setLocalTrimEnd] = useState<number | null>(null);
   const [localStartTime, setLocalStartTime] = useState<number | null>(null);
+  const [localFadeIn, setLocalFadeIn] = useState<number | null>(null);
+  const [localFadeOut, setLocalFadeOut] = useState<number | null>(null);
+  const [isFading, setIsFading] = useState<'in' | 'out' | false>(false);
   const blockRef = useRef<HTMLDivElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const lastTapTime = useRef<number>(0);
@@ -69,12 +78,15 @@ export function WaveformBlock({
     };
   }, []);
   
-  const { snapToGrid: snapToGridFn } = useSnapToGrid({ bpm, snapEnabled: snapToGrid, zoomLevel });
+  const { snapToGrid: snapToGridFn } = useSnapToGrid({ tempoMap, groove, snapEnabled: snapToGrid, zoomLevel });
 
   useEffect(() => {
     const loadAudioBuffer = async () => {
-      if (track.audioData && !audioBuffer) {
+      if ((track.audioData || track.audioHash) && !audioBuffer) {
         try {
+          const audioData = await AudioStore.resolveAudio(track.audioData, track.audioHash);
+          if (!audioData || !isMountedRef.current) return;
+
           if (!audioContextRef.current) {
             audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
           }
@@ -84,9 +96,9 @@ export function WaveformBlock({
           }
           
           // Use a more robust approach to extract base64 data
-          let cleanBase64 = track.audioData;
-          if (track.audioData.includes(',')) {
-            cleanBase64 = track.audioData.split(',')[1];
+          let cleanBase64 = audioData;
+          if (audioData.includes(',')) {
+            cleanBase64 = audioData.split(',')[1];
           }
           
           const binaryString = atob(cleanBase64);
@@ -104,7 +116,7 @@ export function WaveformBlock({
     };
 
     loadAudioBuffer();
-  }, [track.audioData, audioBuffer]);
+  }, [track.audioData, track.audioHash, audioBuffer]);
 
   // Use local state during drag for smooth visual feedback, otherwise use track values
   const startTime = localStartTime !== null ? localStartTime : (track.startTime || 0);
@@ -115,6 +127,11 @@ export function WaveformBlock({
   const startPosition = timeToPixels(startTime);
   const blockWidth = timeToPixels(displayDuration);
 
+  const fadeIn: ClipFade = track.fadeIn ?? { duration: 0, curve: DEFAULT_FADE_CURVE };
+  const fadeOut: ClipFade = track.fadeOut ?? { duration: 0, curve: DEFAULT_FADE_CURVE };
+  const fadeInDuration = localFadeIn ?? fadeIn.duration;
+  const fadeOutDuration = localFadeOut ?? fadeOut.duration;
+
   // Native iOS touch handling - proper gesture detection with movement threshold
   const handleTouchStart = (e: React.TouchEvent) => {
     // 🎯 Don't preventDefault yet - let timeline scrolling work
@@ -342,7 +359,7 @@ export function WaveformBlock({
   };
 
   const handleCut = () => {
-    if (!track.audioData || !onCutTrack) {
+    if (!AudioStore.hasTrackAudio(track) || !onCutTrack) {
       console.log('⚠️ Cannot cut - missing audio data or onCutTrack callback');
       return;
     }
@@ -368,7 +385,8 @@ export function WaveformBlock({
       id: `${track.id}_part1_${Date.now()}`,
       name: `${track.name} (1)`,
       trimEnd: track.duration - absoluteCutPoint,
-      duration: track.duration
+      duration: track.duration,
+      fadeOut: undefined
     };
     
     const track2: AudioTrack = {
@@ -377,7 +395,8 @@ export function WaveformBlock({
       name: `${track.name} (2)`,
       startTime: currentTime,
       trimStart: absoluteCutPoint,
-      duration: track.duration
+      duration: track.duration,
+      fadeIn: undefined
     };
     
     console.log('✂️ Cutting track:', {
@@ -556,6 +575,70 @@ export function WaveformBlock({
     }
   };
 
+  // Fade handles: drag along the clip to set the length, tap to change the curve
+  const handleFadeTouchStart = (e: React.TouchEvent, side: 'in' | 'out') => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const startX = e.touches[0].clientX;
+    const fade = side === 'in' ? fadeIn : fadeOut;
+    const otherFade = side === 'in' ? fadeOut.duration : fadeIn.duration;
+    const maxDuration = Math.max(0, displayDuration - otherFade);
+    let duration = fade.duration;
+    let moved = false;
+
+    setIsFading(side);
+
+    const handleMove = (moveEvent: TouchEvent) => {
+      moveEvent.preventDefault();
+      const deltaX = moveEvent.touches[0].clientX - startX;
+      if (!moved && Math.abs(deltaX) < dragThresholdPx) return;
+      moved = true;
+
+      // The fade-in handle moves right to lengthen, the fade-out handle left
+      const deltaTime = pixelsToTime(side === 'in' ? deltaX : -deltaX);
+      duration = Math.max(0, Math.min(fade.duration + deltaTime, maxDuration));
+      if (side === 'in') setLocalFadeIn(duration);
+      else setLocalFadeOut(duration);
+    };
+
+    const handleEnd = () => {
+      document.removeEventListener('touchmove', handleMove);
+      document.removeEventListener('touchend', handleEnd);
+      if (!isMountedRef.current) return;
+
+      const curves = Object.keys(FADE_CURVE_LABELS) as FadeCurve[];
+      const next: ClipFade = moved
+        ? { ...fade, duration }
+        : { ...fade, curve: curves[(curves.indexOf(fade.curve) + 1) % curves.length] };
+      console.log(`🎚️ Fade ${side} on ${track.name}:`, next);
+      onTrackUpdate(track.id, side === 'in' ? { fadeIn: next } : { fadeOut: next });
+
+      setLocalFadeIn(null);
+      setLocalFadeOut(null);
+      setIsFading(false);
+    };
+
+    document.addEventListener('touchmove', handleMove, { passive: false });
+    document.addEventListener('touchend', handleEnd);
+  };
+
+  const fadeInWidth = timeToPixels(fadeInDuration);
+  const fadeOutWidth = timeToPixels(fadeOutDuration);
+  const fadePath = (fade: ClipFade, width: number, side: 'in' | 'out') => {
+    const steps = 24;
+    const points: string[] = [];
+    for (let i = 0; i <= steps; i++) {
+      const t = i / steps;
+      const gain = fadeGain(fade.curve, t);
+      const x = side === 'in' ? t * width : blockWidth - t * width;
+      points.push(`${x},${64 - gain * 64}`);
+    }
+    // Shade the part of the clip the fade attenuates
+    const corner = side === 'in' ? '0,0' : `${blockWidth},0`;
+    return `M ${corner} L ${points.join(' L ')} Z`;
+  };
+
   return (
     <div
       ref={blockRef}
@@ -600,6 +683,34 @@ export function WaveformBlock({
           </div>
         )}
 
+        {/* Fade curves */}
+        {(fadeInWidth > 0 || fadeOutWidth > 0) && (
+          <svg width={blockWidth} height={64} className="absolute inset-0 pointer-events-none">
+            {fadeInWidth > 0 && <path d={fadePath(fadeIn, fadeInWidth, 'in')} className="fill-background/40 stroke-primary-foreground/70" />}
+            {fadeOutWidth > 0 && <path d={fadePath(fadeOut, fadeOutWidth, 'out')} className="fill-background/40 stroke-primary-foreground/70" />}
+          </svg>
+        )}
+
+        {/* Fade handles, clear of the trim handles at the edges */}
+        {(['in', 'out'] as const).map(side => {
+          const offset = Math.max(side === 'in' ? fadeInWidth : fadeOutWidth, isInTrimMode ? 48 : 24);
+          return (
+            <div
+              key={side}
+              data-fade-handle={side}
+              className={`absolute top-0 w-4 h-4 -mx-2 rounded-sm border border-primary-foreground bg-primary shadow transition-opacity ${
+                isFading === side ? 'opacity-100 scale-125' : 'opacity-70 group-hover:opacity-100'
+              }`}
+              style={{
+                ...(side === 'in' ? { left: `${offset}px` } : { right: `${offset}px` }),
+                touchAction: 'none',
+                zIndex: 30
+              }}
+              onTouchStart={(e) => handleFadeTouchStart(e, side)}
+            />
+          );
+        })}
+
         {/* Track name overlay */}
         <div className="absolute top-1 left-2 text-xs font-medium text-primary-foreground/90 pointer-events-none">
           {track.name}
@@ -674,6 +785,12 @@ export function WaveformBlock({
       </div>
 
       {/* Status indicators */}
+      {isFading && (
+        <div className="absolute -top-8 left-1/2 transform -translate-x-1/2 bg-accent text-accent-foreground text-xs px-2 py-1 rounded whitespace-nowrap">
+          Fade {isFading}: {(isFading === 'in' ? fadeInDuration : fadeOutDuration).toFixed(2)}s
+          {' '}({FADE_CURVE_LABELS[(isFading === 'in' ? fadeIn : fadeOut).curve]}, tap to change)
+        </div>
+      )}
       {isResizing && (
         <div className="absolute -top-8 left-1/2 transform -translate-x-1/2 bg-accent text-accent-foreground text-xs px-2 py-1 rounded whitespace-nowrap">
           {isResizing === 'start' ? `Start: ${trimStart.toFixed(1)}s` : `End: ${trimEnd.toFixed(1)}s`}
@@ -1,52 +1,38 @@
 import { useCallback } from 'react';
-import { MetronomeEngine } from '@/services/MetronomeService';
+import { DEFAULT_TEMPO_MAP, type TempoMap } from '@/lib/tempoMap';
+import { STRAIGHT_GROOVE, grooveGridBetween, isStraightGroove, snapToGroove, type Groove } from '@/lib/groove';
 
 interface UseSnapToGridProps {
-  bpm: number;
+  tempoMap?: TempoMap;
   subdivision?: number;
+  groove?: Groove;
   snapEnabled?: boolean;
 }
 
 export function useSnapToGrid({ 
-  bpm, 
+  tempoMap = DEFAULT_TEMPO_MAP, 
   subdivision = 4, 
+  groove = STRAIGHT_GROOVE,
   snapEnabled = true,
   zoomLevel = 1 
 }: UseSnapToGridProps & { zoomLevel?: number }) {
-  
-  const snapToGrid = useCallback((timeInSeconds: number): number => {
-    if (!snapEnabled) return timeInSeconds;
-    
-    const beatDuration = 60 / bpm;
-    // Increase subdivision detail based on zoom level
-    let effectiveSubdivision = subdivision;
+  // Increase subdivision detail based on zoom level; a swung or templated grid keeps its lines
+  let effectiveSubdivision = subdivision;
+  if (isStraightGroove(groove)) {
     if (zoomLevel >= 2) effectiveSubdivision = subdivision * 2;
     if (zoomLevel >= 4) effectiveSubdivision = subdivision * 4;
     if (zoomLevel >= 6) effectiveSubdivision = subdivision * 8;
-    
-    const snapInterval = beatDuration / effectiveSubdivision;
-    
-    return Math.round(timeInSeconds / snapInterval) * snapInterval;
-  }, [bpm, subdivision, snapEnabled, zoomLevel]);
+  }
+  
+  const snapToGrid = useCallback((timeInSeconds: number): number => {
+    if (!snapEnabled) return timeInSeconds;
+    return snapToGroove(tempoMap, timeInSeconds, effectiveSubdivision, groove);
+  }, [tempoMap, effectiveSubdivision, groove, snapEnabled]);
 
+  // Grid lines follow the tempo map, so they spread out and bunch up with tempo changes
   const getSnapPoints = useCallback((duration: number): number[] => {
-    const points: number[] = [];
-    const beatDuration = 60 / bpm;
-    
-    // Increase subdivision detail based on zoom level
-    let effectiveSubdivision = subdivision;
-    if (zoomLevel >= 2) effectiveSubdivision = subdivision * 2;
-    if (zoomLevel >= 4) effectiveSubdivision = subdivision * 4;
-    if (zoomLevel >= 6) effectiveSubdivision = subdivision * 8;
-    
-    const snapInterval = beatDuration / effectiveSubdivision;
-    
-    for (let time = 0; time <= duration; time += snapInterval) {
-      points.push(time);
-    }
-    
-    return points;
-  }, [bpm, subdivision, zoomLevel]);
+    return grooveGridBetween(tempoMap, 0, duration, effectiveSubdivision, groove).map(line => line.time);
+  }, [tempoMap, effectiveSubdivision, groove]);
 
   const findNearestSnapPoint = useCallback((time: number, threshold: number = 0.1): number | null => {
     if (!snapEnabled) return null;
@@ -66,17 +52,17 @@ export function useSnapToGrid({
     timeToPixels: (time: number, width: number) => number,
     timelineWidth: number
   ) => {
-    const snapPoints = getSnapPoints(duration);
     const snapTime = findNearestSnapPoint(currentTime, 0.5);
     
-    return snapPoints.map(point => ({
-      time: point,
-      position: timeToPixels(point, timelineWidth),
-      isActive: snapTime === point,
-      isBeat: (point * bpm / 60) % 1 === 0,
-      isMeasure: (point * bpm / 60) % 4 === 0,
+    // Beats and bar lines come from the time signature in force at each point
+    return grooveGridBetween(tempoMap, 0, duration, effectiveSubdivision, groove).map(line => ({
+      time: line.time,
+      position: timeToPixels(line.time, timelineWidth),
+      isActive: snapTime === line.time,
+      isBeat: line.isBeat,
+      isMeasure: line.isBar,
     }));
-  }, [getSnapPoints, findNearestSnapPoint, bpm]);
+  }, [findNearestSnapPoint, tempoMap, effectiveSubdivision, groove]);
 
   return {
     snapToGrid,
@@ -84,4 +70,4 @@ export function useSnapToGrid({
     findNearestSnapPoint,
     getSnapIndicators,
   };
-}
\ No newline at end of file
+}
@@ -65,12 +65,19 @@ export function useUndoRedo(initialTracks: AudioTrack[]) {
     return null;
   }, []);
 
+  // Every track state the user can still step back or forward to
+  const historyTracks = useCallback(
+    () => historyRef.current.flatMap(state => state.tracks),
+    []
+  );
+
   return {
     tracks,
     setTracks: pushHistory,
     undo,
     redo,
     canUndo,
-    canRedo
+    canRedo,
+    historyTracks
   };
 }
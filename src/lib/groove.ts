@@ -0,0 +1,258 @@
+/**
+ * Grooves: grids that aren't dead straight
+ *
+ * A grid line sits every step through the bar, restarting on each bar line
+ * like the straight grid does. The feel stretches the step to triplets or
+ * dotted notes, swing delays every second line of a straight grid, and a
+ * groove template shifts each line of the bar by its own amount. Templates
+ * are either built in or pulled from a recorded clip's transients. Snapping
+ * and quantizing both go through here.
+ */
+
+import type { GridLine, TempoMap } from './tempoMap';
+
+export type GridFeel = 'straight' | 'triplet' | 'dotted';
+
+export interface GrooveTemplate {
+  id: string;
+  name: string;
+  subdivision: number; // grid lines per quarter note
+  offsets: number[]; // shift of each line in steps, repeating from every bar line
+}
+
+// How the project's grid is played, as stored in its settings
+export interface GrooveSettings {
+  feel: GridFeel;
+  swing: number; // percent; 50 is straight
+  templateId?: string; // overrides feel and swing
+}
+
+// Groove settings with the template looked up
+export interface Groove {
+  feel: GridFeel;
+  swing: number;
+  template?: GrooveTemplate;
+}
+
+export const MIN_SWING = 50;
+export const MAX_SWING = 75;
+
+export const DEFAULT_GROOVE_SETTINGS: GrooveSettings = { feel: 'straight', swing: MIN_SWING };
+export const STRAIGHT_GROOVE: Groove = { feel: 'straight', swing: MIN_SWING };
+
+export const GRID_FEEL_LABELS: Record<GridFeel, string> = {
+  straight: 'Straight',
+  triplet: 'Triplet',
+  dotted: 'Dotted',
+};
+
+const FEEL_STEP_SCALE: Record<GridFeel, number> = {
+  straight: 1,
+  triplet: 2 / 3,
+  dotted: 3 / 2,
+};
+
+export const BUILT_IN_GROOVES: GrooveTemplate[] = [
+  { id: 'shuffle-8', name: 'Shuffle 8ths', subdivision: 2, offsets: [0, 1 / 3] },
+  { id: 'laid-back-16', name: 'Laid-back 16ths', subdivision: 4, offsets: [0, 0.12, 0.06, 0.18] },
+  { id: 'pushed-8', name: 'Pushed 8ths', subdivision: 2, offsets: [0, -0.08] },
+  { id: 'backbeat-drag', name: 'Dragged backbeat', subdivision: 1, offsets: [0, 0.06, 0, 0.1] },
+];
+
+// Onsets closer together than this are one hit
+const MIN_ONSET_GAP_SECONDS = 0.05;
+const ONSET_FRAME_SECONDS = 0.005;
+// A hit is a frame this much louder than the frames just before it
+const ONSET_RISE = 2;
+const ONSET_HISTORY_FRAMES = 8;
+// Quieter than this (relative to the loudest frame) is never a hit
+const ONSET_FLOOR = 0.05;
+const MIN_GROOVE_ONSETS = 4;
+
+const EPSILON = 1e-9;
+
+export function resolveGroove(settings: GrooveSettings | undefined, templates: GrooveTemplate[] = []): Groove {
+  if (!settings) return STRAIGHT_GROOVE;
+  const template = settings.templateId
+    ? [...BUILT_IN_GROOVES, ...templates].find(candidate => candidate.id === settings.templateId)
+    : undefined;
+  return { feel: settings.feel, swing: settings.swing, template };
+}
+
+export function isStraightGroove(groove: Groove): boolean {
+  return !groove.template && groove.feel === 'straight' && groove.swing === MIN_SWING;
+}
+
+// Quarter notes between grid lines, before any shift
+const stepOf = (subdivision: number, groove: Groove): number =>
+  groove.template ? 1 / groove.template.subdivision : FEEL_STEP_SCALE[groove.feel] / subdivision;
+
+// Shift of grid line `index` of a bar, in steps
+const shiftOf = (index: number, groove: Groove): number => {
+  if (groove.template) {
+    const { offsets } = groove.template;
+    return offsets.length > 0 ? offsets[index % offsets.length] : 0;
+  }
+  if (groove.feel !== 'straight' || index % 2 === 0) return 0;
+  // Swing moves the off-line of each pair to `swing` percent of the pair
+  return (2 * groove.swing) / 100 - 1;
+};
+
+/**
+ * Grid lines of one bar, in quarter notes from the start: the unshifted
+ * position and where the groove puts it.
+ */
+function linesInBar(tempoMap: TempoMap, bar: number, subdivision: number, groove: Groove) {
+  const barStart = tempoMap.beatAtBar(bar);
+  const barLength = tempoMap.beatAtBar(bar + 1) - barStart;
+  const step = stepOf(subdivision, groove);
+  const lines: { offset: number; beat: number }[] = [];
+  for (let index = 0; index * step < barLength - EPSILON; index++) {
+    const offset = index * step;
+    lines.push({ offset, beat: barStart + offset + shiftOf(index, groove) * step });
+  }
+  return lines;
+}
+
+/**
+ * Nearest grid line to `time`, with `subdivision` lines per quarter note
+ * before the groove's feel is applied (a template brings its own grid).
+ */
+export function snapToGroove(tempoMap: TempoMap, time: number, subdivision: number, groove: Groove): number {
+  if (isStraightGroove(groove)) return tempoMap.snap(time, subdivision);
+
+  // Shifted lines can cross into the neighbouring bars, so those are candidates too
+  const bar = Math.max(0, Math.floor(tempoMap.barAtTime(time)));
+  let nearest = 0;
+  let distance = Infinity;
+  for (let candidateBar = Math.max(0, bar - 1); candidateBar <= bar + 1; candidateBar++) {
+    for (const line of linesInBar(tempoMap, candidateBar, subdivision, groove)) {
+      const lineTime = tempoMap.timeAtBeat(Math.max(0, line.beat));
+      if (Math.abs(lineTime - time) < distance) {
+        nearest = lineTime;
+        distance = Math.abs(lineTime - time);
+      }
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Grid lines from `from` up to, but not including, `to`, placed by the groove.
+ */
+export function grooveGridBetween(
+  tempoMap: TempoMap,
+  from: number,
+  to: number,
+  subdivision: number,
+  groove: Groove
+): GridLine[] {
+  if (isStraightGroove(groove)) return tempoMap.gridBetween(from, to, subdivision);
+
+  const lines: GridLine[] = [];
+  for (let bar = Math.max(0, Math.floor(tempoMap.barAtTime(from)) - 1); tempoMap.timeAtBar(bar) < to; bar++) {
+    const beatLength = 4 / tempoMap.meterAt(bar).denominator;
+    for (const line of linesInBar(tempoMap, bar, subdivision, groove)) {
+      const time = tempoMap.timeAtBeat(Math.max(0, line.beat));
+      if (time < from || time >= to) continue;
+      const beats = line.offset / beatLength;
+      lines.push({
+        time,
+        offset: line.offset,
+        isBeat: Math.abs(beats - Math.round(beats)) < EPSILON,
+        isBar: line.offset === 0,
+      });
+    }
+  }
+  return lines.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Times (seconds into the audio) where hits start: frames that come in
+ * clearly louder than the ones just before them.
+ */
+export function detectTransients(channels: Float32Array[], sampleRate: number): number[] {
+  const frameLength = Math.max(1, Math.round(ONSET_FRAME_SECONDS * sampleRate));
+  const frameCount = Math.floor((channels[0]?.length ?? 0) / frameLength);
+  const energy = new Float32Array(frameCount);
+
+  let loudest = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (const channel of channels) {
+      for (let i = frame * frameLength; i < (frame + 1) * frameLength; i++) sum += channel[i] * channel[i];
+    }
+    energy[frame] = sum / (frameLength * channels.length);
+    loudest = Math.max(loudest, energy[frame]);
+  }
+
+  const onsets: number[] = [];
+  let lastOnset = -Infinity;
+  for (let frame = 1; frame < frameCount; frame++) {
+    if (energy[frame] < loudest * ONSET_FLOOR * ONSET_FLOOR) continue;
+
+    let history = 0;
+    const from = Math.max(0, frame - ONSET_HISTORY_FRAMES);
+    for (let i = from; i < frame; i++) history += energy[i];
+    history /= frame - from;
+
+    if (energy[frame] <= history * ONSET_RISE * ONSET_RISE) continue;
+    const time = onsetInFrame(channels, frame * frameLength, frameLength) / sampleRate;
+    if (time - lastOnset >= MIN_ONSET_GAP_SECONDS) {
+      onsets.push(time);
+      lastOnset = time;
+    }
+  }
+  return onsets;
+}
+
+// First sample of a frame that gets to half the frame's peak, so hits aren't placed early
+function onsetInFrame(channels: Float32Array[], start: number, length: number): number {
+  const levelAt = (i: number) => Math.max(...channels.map(channel => Math.abs(channel[i])));
+  let peak = 0;
+  for (let i = start; i < start + length; i++) peak = Math.max(peak, levelAt(i));
+  for (let i = start; i < start + length; i++) {
+    if (levelAt(i) >= peak / 2) return i;
+  }
+  return start;
+}
+
+/**
+ * Groove template from hits on the timeline: each line of the bar is shifted
+ * by how far, on average, the hits nearest it landed off the straight grid.
+ * Lines nothing landed near stay put.
+ */
+export function extractGroove(
+  tempoMap: TempoMap,
+  onsets: number[],
+  subdivision: number,
+  name: string
+): GrooveTemplate {
+  if (onsets.length < MIN_GROOVE_ONSETS) {
+    throw new Error(`Found only ${onsets.length} hits; a groove needs at least ${MIN_GROOVE_ONSETS}`);
+  }
+
+  // The template covers one bar of the time signature the hits start in
+  const { numerator, denominator } = tempoMap.meterAt(Math.max(0, Math.floor(tempoMap.barAtTime(onsets[0]))));
+  const lineCount = Math.max(1, Math.round(((numerator * 4) / denominator) * subdivision));
+  const sums = new Array<number>(lineCount).fill(0);
+  const counts = new Array<number>(lineCount).fill(0);
+
+  for (const onset of onsets) {
+    const beat = tempoMap.beatAtTime(onset);
+    const bar = Math.max(0, Math.floor(tempoMap.barAtBeat(beat)));
+    const position = (beat - tempoMap.beatAtBar(bar)) * subdivision;
+    const line = Math.round(position);
+    // A hit just before the bar line belongs to the next bar's first line
+    const index = line % lineCount;
+    sums[index] += position - line;
+    counts[index]++;
+  }
+
+  return {
+    id: `groove-${Date.now()}`,
+    name,
+    subdivision,
+    offsets: sums.map((sum, index) => (counts[index] > 0 ? Math.round((sum / counts[index]) * 1000) / 1000 : 0)),
+  };
+}
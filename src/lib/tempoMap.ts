@@ -0,0 +1,328 @@
+/**
+ * Tempo map: where bars and beats fall on the timeline
+ *
+ * The project starts at its tempo and changes tempo at bar lines, either
+ * stepping straight to the new tempo or ramping into it linearly (per beat)
+ * from the previous one. Its time signature can change at bar lines too.
+ * Everything that turns bars and beats into seconds (the ruler, grid
+ * snapping, quantizing and the metronome) goes through here.
+ *
+ * Beat positions are counted in quarter notes from the start of bar 1, as
+ * tempo is given in quarter notes per minute.
+ */
+
+export interface TempoEvent {
+  bar: number; // 0-based bar the tempo is reached on
+  bpm: number;
+  ramp?: boolean; // glide from the previous tempo, arriving at `bpm` on `bar`
+}
+
+export interface TimeSignature {
+  numerator: number;
+  denominator: number;
+}
+
+export interface MeterEvent extends TimeSignature {
+  bar: number; // 0-based bar the time signature starts on
+}
+
+export interface GridBeat {
+  time: number; // seconds
+  bar: number; // 0-based
+  beat: number; // 0-based beat of the bar; 0 is the downbeat
+  subdivision: number; // 0-based step within the beat; 0 is on the beat
+  beatsInBar: number;
+}
+
+export interface GridLine {
+  time: number; // seconds
+  offset: number; // quarter notes into the bar
+  isBeat: boolean;
+  isBar: boolean;
+}
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { numerator: 4, denominator: 4 };
+
+export const MIN_TEMPO = 30;
+export const MAX_TEMPO = 300;
+
+export const METER_NUMERATORS = Array.from({ length: 16 }, (_, i) => i + 1);
+export const METER_DENOMINATORS = [2, 4, 8, 16];
+
+// Positions closer than this (in quarter notes) are the same grid line
+const EPSILON = 1e-9;
+
+const clampTempo = (bpm: number): number => Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, bpm));
+
+// Stretch of constant or linearly changing tempo
+interface TempoSegment {
+  beat: number; // quarter notes from the start
+  time: number; // seconds
+  startBpm: number;
+  slope: number; // bpm per quarter note; 0 when the tempo holds
+}
+
+// Run of bars in one time signature
+interface MeterSegment extends TimeSignature {
+  bar: number;
+  beat: number; // quarter notes from the start to its first bar
+}
+
+// Quarter notes in one bar / one beat of a time signature (an eighth in 6/8)
+const barLengthOf = (meter: TimeSignature): number => (meter.numerator * 4) / meter.denominator;
+const beatLengthOf = (meter: TimeSignature): number => 4 / meter.denominator;
+
+/**
+ * Sorted tempo changes after bar 1, one per bar, with tempos in range
+ */
+export function normalizeTempoChanges(changes: TempoEvent[]): TempoEvent[] {
+  const byBar = new Map<number, TempoEvent>();
+  for (const change of changes) {
+    const bar = Math.round(change.bar);
+    if (bar < 1) continue;
+    byBar.set(bar, { bar, bpm: clampTempo(change.bpm), ...(change.ramp ? { ramp: true } : {}) });
+  }
+  return Array.from(byBar.values()).sort((a, b) => a.bar - b.bar);
+}
+
+/**
+ * Sorted time signature changes after bar 1, one per bar
+ */
+export function normalizeMeterChanges(changes: MeterEvent[]): MeterEvent[] {
+  const byBar = new Map<number, MeterEvent>();
+  for (const change of changes) {
+    const bar = Math.round(change.bar);
+    if (bar < 1 || !METER_DENOMINATORS.includes(change.denominator)) continue;
+    const numerator = Math.max(1, Math.min(16, Math.round(change.numerator)));
+    byBar.set(bar, { bar, numerator, denominator: change.denominator });
+  }
+  return Array.from(byBar.values()).sort((a, b) => a.bar - b.bar);
+}
+
+export class TempoMap {
+  readonly tempo: number;
+  readonly changes: TempoEvent[];
+  readonly timeSignature: TimeSignature; // at bar 1
+  readonly meterChanges: MeterEvent[];
+  private segments: TempoSegment[] = [];
+  private meters: MeterSegment[] = [];
+
+  constructor(
+    tempo: number,
+    changes: TempoEvent[] = [],
+    timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE,
+    meterChanges: MeterEvent[] = []
+  ) {
+    this.tempo = clampTempo(tempo);
+    this.changes = normalizeTempoChanges(changes);
+    this.timeSignature = timeSignature;
+    this.meterChanges = normalizeMeterChanges(meterChanges);
+
+    // Bars have to be laid out before tempo changes can be placed on them
+    let meter: MeterSegment = { bar: 0, beat: 0, ...timeSignature };
+    this.meters.push(meter);
+    for (const change of this.meterChanges) {
+      meter = {
+        bar: change.bar,
+        beat: meter.beat + (change.bar - meter.bar) * barLengthOf(meter),
+        numerator: change.numerator,
+        denominator: change.denominator,
+      };
+      this.meters.push(meter);
+    }
+
+    let segment: TempoSegment = { beat: 0, time: 0, startBpm: this.tempo, slope: 0 };
+    for (const change of this.changes) {
+      const beat = this.beatAtBar(change.bar);
+      if (change.ramp) segment.slope = (change.bpm - segment.startBpm) / (beat - segment.beat);
+      this.segments.push(segment);
+      segment = { beat, time: this.segmentTime(segment, beat), startBpm: change.bpm, slope: 0 };
+    }
+    this.segments.push(segment);
+  }
+
+  get isConstant(): boolean {
+    return this.changes.length === 0;
+  }
+
+  withTempo(tempo: number, changes: TempoEvent[]): TempoMap {
+    return new TempoMap(tempo, changes, this.timeSignature, this.meterChanges);
+  }
+
+  withMeter(timeSignature: TimeSignature, meterChanges: MeterEvent[]): TempoMap {
+    return new TempoMap(this.tempo, this.changes, timeSignature, meterChanges);
+  }
+
+  // Time signature in force on a (0-based) bar
+  meterAt(bar: number): TimeSignature {
+    const { numerator, denominator } = this.meterSegmentAtBar(bar);
+    return { numerator, denominator };
+  }
+
+  beatAtBar(bar: number): number {
+    const meter = this.meterSegmentAtBar(bar);
+    return meter.beat + (bar - meter.bar) * barLengthOf(meter);
+  }
+
+  barAtBeat(beat: number): number {
+    let meter = this.meters[0];
+    for (const segment of this.meters) {
+      if (segment.beat > beat + EPSILON) break;
+      meter = segment;
+    }
+    return meter.bar + (beat - meter.beat) / barLengthOf(meter);
+  }
+
+  timeAtBeat(beat: number): number {
+    return this.segmentTime(this.segmentAtBeat(beat), beat);
+  }
+
+  beatAtTime(time: number): number {
+    const segment = this.segmentAtTime(time);
+    const elapsed = time - segment.time;
+    if (segment.slope === 0) return segment.beat + (elapsed * segment.startBpm) / 60;
+    return segment.beat + (segment.startBpm * (Math.exp((segment.slope * elapsed) / 60) - 1)) / segment.slope;
+  }
+
+  timeAtBar(bar: number): number {
+    return this.timeAtBeat(this.beatAtBar(bar));
+  }
+
+  // Fractional bar at a time, 0 at the start
+  barAtTime(time: number): number {
+    return this.barAtBeat(this.beatAtTime(time));
+  }
+
+  tempoAt(time: number): number {
+    const beat = this.beatAtTime(time);
+    const segment = this.segmentAtBeat(beat);
+    return segment.startBpm + segment.slope * (beat - segment.beat);
+  }
+
+  // Length in seconds of one beat of the time signature starting at `time`
+  beatSecondsAt(time: number): number {
+    const beat = this.beatAtTime(time);
+    const meter = this.meterAt(Math.floor(this.barAtBeat(beat) + EPSILON));
+    return this.timeAtBeat(beat + beatLengthOf(meter)) - time;
+  }
+
+  /**
+   * Nearest grid line to `time`, with `divisionsPerBeat` lines per quarter
+   * note (4 snaps to sixteenths). The grid restarts on every bar line, so bars
+   * of odd lengths (7/8) still snap to their bar lines.
+   */
+  snap(time: number, divisionsPerBeat: number): number {
+    const beat = this.beatAtTime(time);
+    const bar = Math.max(0, Math.floor(this.barAtBeat(beat) + EPSILON));
+    const barStart = this.beatAtBar(bar);
+    const barEnd = this.beatAtBar(bar + 1);
+    const gridLine = Math.min(barEnd, barStart + Math.round((beat - barStart) * divisionsPerBeat) / divisionsPerBeat);
+    const nearest = Math.abs(barEnd - beat) < Math.abs(gridLine - beat) ? barEnd : gridLine;
+    return this.timeAtBeat(Math.max(0, nearest));
+  }
+
+  // Nearest 1/`noteValue` note to `time` (4 quantizes to quarter notes)
+  quantize(time: number, noteValue: number): number {
+    return this.snap(time, noteValue / 4);
+  }
+
+  /**
+   * Beats of the time signature from `from` up to, but not including, `to`,
+   * each split into `subdivisions` even steps.
+   */
+  beatsBetween(from: number, to: number, subdivisions: number = 1): GridBeat[] {
+    return this.collectBetween(from, to, (bar, meter) =>
+      Array.from({ length: meter.numerator * subdivisions }, (_, step) => {
+        const beat = Math.floor(step / subdivisions);
+        const subdivision = step % subdivisions;
+        return {
+          offset: (step / subdivisions) * beatLengthOf(meter),
+          line: (time: number): GridBeat => ({ time, bar, beat, subdivision, beatsInBar: meter.numerator }),
+        };
+      })
+    );
+  }
+
+  /**
+   * Grid lines from `from` up to, but not including, `to`, with
+   * `divisionsPerBeat` lines per quarter note, restarting on every bar line.
+   */
+  gridBetween(from: number, to: number, divisionsPerBeat: number): GridLine[] {
+    return this.collectBetween(from, to, (_, meter) => {
+      const length = barLengthOf(meter);
+      const beatLength = beatLengthOf(meter);
+      const steps = Math.ceil(length * divisionsPerBeat - EPSILON);
+      return Array.from({ length: steps }, (_, step) => {
+        const offset = step / divisionsPerBeat;
+        const beats = offset / beatLength;
+        return {
+          offset,
+          line: (time: number): GridLine => ({
+            time,
+            offset,
+            isBeat: Math.abs(beats - Math.round(beats)) < EPSILON,
+            isBar: step === 0,
+          }),
+        };
+      });
+    });
+  }
+
+  // Walk bar by bar, turning each bar's positions (quarter notes into the bar) into times
+  private collectBetween<T>(
+    from: number,
+    to: number,
+    positionsInBar: (bar: number, meter: TimeSignature) => { offset: number; line: (time: number) => T }[]
+  ): T[] {
+    const lines: T[] = [];
+    const start = this.beatAtTime(from);
+    for (let bar = Math.max(0, Math.floor(this.barAtBeat(start) + EPSILON)); ; bar++) {
+      const barStart = this.beatAtBar(bar);
+      if (this.timeAtBeat(barStart) >= to) return lines;
+
+      for (const { offset, line } of positionsInBar(bar, this.meterAt(bar))) {
+        const beat = barStart + offset;
+        if (beat < start - EPSILON) continue;
+        const time = this.timeAtBeat(beat);
+        if (time >= to) return lines;
+        lines.push(line(time));
+      }
+    }
+  }
+
+  private meterSegmentAtBar(bar: number): MeterSegment {
+    let found = this.meters[0];
+    for (const segment of this.meters) {
+      if (segment.bar > bar) break;
+      found = segment;
+    }
+    return found;
+  }
+
+  private segmentAtBeat(beat: number): TempoSegment {
+    let found = this.segments[0];
+    for (const segment of this.segments) {
+      if (segment.beat > beat) break;
+      found = segment;
+    }
+    return found;
+  }
+
+  private segmentAtTime(time: number): TempoSegment {
+    let found = this.segments[0];
+    for (const segment of this.segments) {
+      if (segment.time > time) break;
+      found = segment;
+    }
+    return found;
+  }
+
+  private segmentTime(segment: TempoSegment, beat: number): number {
+    const beats = beat - segment.beat;
+    if (segment.slope === 0) return segment.time + (beats * 60) / segment.startBpm;
+    // Integral of 60 / bpm over a tempo rising (or falling) linearly per beat
+    return segment.time + (60 / segment.slope) * Math.log((segment.startBpm + segment.slope * beats) / segment.startBpm);
+  }
+}
+
+export const DEFAULT_TEMPO_MAP = new TempoMap(120);
@@ -53,6 +53,13 @@ export const volumeSchema = z.number()
   .min(0, { message: "Volume must be between 0 and 1" })
   .max(1, { message: "Volume must be between 0 and 1" });
 
+/**
+ * Pan validation (-1 left to 1 right)
+ */
+export const panSchema = z.number()
+  .min(-1, { message: "Pan must be between -1 and 1" })
+  .max(1, { message: "Pan must be between -1 and 1" });
+
 /**
  * Time signature validation
  */
@@ -68,6 +75,249 @@ export const timeSignatureSchema = z.object({
     })
 });
 
+/**
+ * Name as stored in a project file. Looser than the input schemas so files
+ * named before those rules existed still open.
+ */
+export const storedNameSchema = z.string()
+  .trim()
+  .min(1, { message: "Name is required" })
+  .max(200, { message: "Name must be less than 200 characters" });
+
+const audioHashSchema = z.string().regex(/^[0-9a-f]{64}$/, { message: "Audio hash must be a SHA-256 hex digest" });
+
+const timeSecondsSchema = z.number()
+  .finite({ message: "Time must be a finite number" })
+  .min(0, { message: "Time cannot be negative" });
+
+const effectBaseSchema = z.object({
+  id: z.string().min(1, { message: "Effect id is required" }),
+  enabled: z.boolean(),
+});
+
+const mixSchema = z.number().min(0).max(1, { message: "Mix must be between 0 and 1" });
+
+/**
+ * Insert effect as stored on a track
+ */
+export const trackEffectSchema = z.discriminatedUnion('type', [
+  effectBaseSchema.extend({
+    type: z.literal('eq'),
+    bands: z.array(z.object({
+      type: z.enum(['lowshelf', 'peaking', 'highshelf', 'lowpass', 'highpass']),
+      frequency: z.number().min(20).max(20000, { message: "EQ frequency must be between 20 Hz and 20 kHz" }),
+      gain: z.number().min(-24).max(24, { message: "EQ gain must be between -24 and 24 dB" }),
+      q: z.number().min(0.1).max(18),
+    })).max(8, { message: "EQ can have at most 8 bands" }),
+  }),
+  effectBaseSchema.extend({
+    type: z.literal('compressor'),
+    threshold: z.number().min(-100).max(0),
+    ratio: z.number().min(1).max(20),
+    knee: z.number().min(0).max(40),
+    attack: z.number().min(0).max(1),
+    release: z.number().min(0).max(1),
+    makeupGain: z.number().min(0).max(24),
+  }),
+  effectBaseSchema.extend({
+    type: z.literal('gate'),
+    threshold: z.number().min(-70).max(0),
+    attack: z.number().min(0.001).max(0.5),
+    release: z.number().min(0.001).max(2),
+  }),
+  effectBaseSchema.extend({
+    type: z.literal('delay'),
+    time: z.number().min(0.01).max(2, { message: "Delay time must be at most 2 seconds" }),
+    feedback: z.number().min(0).max(0.9),
+    mix: mixSchema,
+  }),
+  effectBaseSchema.extend({
+    type: z.literal('reverb'),
+    decay: z.number().min(0.1).max(8, { message: "Reverb decay must be at most 8 seconds" }),
+    preDelay: z.number().min(0).max(0.5),
+    mix: mixSchema,
+  }),
+]);
+
+const automationLaneSchema = (value: z.ZodNumber) => z.array(z.object({
+  time: timeSecondsSchema,
+  value,
+}));
+
+/**
+ * Volume/pan automation breakpoints of a track
+ */
+export const trackAutomationSchema = z.object({
+  volume: automationLaneSchema(volumeSchema).optional(),
+  pan: automationLaneSchema(panSchema).optional(),
+});
+
+/**
+ * Fade at the start or end of a clip
+ */
+export const clipFadeSchema = z.object({
+  duration: timeSecondsSchema,
+  curve: z.enum(['linear', 'exponential', 'scurve']),
+});
+
+/**
+ * Audio track as stored in a project file
+ */
+export const audioTrackSchema = z.object({
+  id: z.string().min(1, { message: "Track id is required" }),
+  name: z.string().max(200, { message: "Track name must be less than 200 characters" }),
+  audioData: z.string().optional(),
+  audioHash: audioHashSchema.optional(),
+  audioBufferData: z.object({
+    sampleRate: z.number().positive(),
+    length: z.number().int().min(0),
+    numberOfChannels: z.number().int().min(1),
+    channelData: z.array(z.array(z.number())),
+  }).optional(),
+  isPlaying: z.boolean(),
+  isMuted: z.boolean(),
+  isSolo: z.boolean().optional(),
+  isRecording: z.boolean().optional(),
+  volume: volumeSchema,
+  pan: panSchema.optional(),
+  effects: z.array(trackEffectSchema).optional(),
+  output: z.string().min(1).optional(),
+  sends: z.array(z.object({
+    busId: z.string().min(1, { message: "Send bus id is required" }),
+    level: volumeSchema,
+    preFader: z.boolean(),
+  })).optional(),
+  automation: trackAutomationSchema.optional(),
+  duration: timeSecondsSchema,
+  startTime: timeSecondsSchema.optional(),
+  trimStart: timeSecondsSchema.optional(),
+  trimEnd: timeSecondsSchema.optional(),
+  fadeIn: clipFadeSchema.optional(),
+  fadeOut: clipFadeSchema.optional(),
+}).passthrough();
+
+/**
+ * Group or aux bus as stored in a project file
+ */
+export const mixBusSchema = z.object({
+  id: z.string().min(1, { message: "Bus id is required" }),
+  name: z.string().max(100, { message: "Bus name must be less than 100 characters" }),
+  kind: z.enum(['group', 'aux']),
+  volume: volumeSchema,
+  pan: panSchema.optional(),
+  isMuted: z.boolean(),
+  isSolo: z.boolean().optional(),
+  effects: z.array(trackEffectSchema).optional(),
+}).passthrough();
+
+const clickSampleSchema = z.object({
+  name: z.string().max(200),
+  audioHash: audioHashSchema,
+});
+
+/**
+ * Project settings as stored in a project file
+ */
+export const projectSettingsSchema = z.object({
+  masterVolume: volumeSchema,
+  tempo: bpmSchema,
+  tempoChanges: z.array(z.object({
+    bar: z.number().int().min(1),
+    bpm: bpmSchema,
+    ramp: z.boolean().optional(),
+  })).optional(),
+  timeSignature: z.object({
+    numerator: timeSignatureSchema.shape.beatsPerMeasure,
+    denominator: timeSignatureSchema.shape.beatUnit,
+  }).optional(),
+  meterChanges: z.array(z.object({
+    bar: z.number().int().min(1),
+    numerator: timeSignatureSchema.shape.beatsPerMeasure,
+    denominator: timeSignatureSchema.shape.beatUnit,
+  })).optional(),
+  metronomeEnabled: z.boolean().optional(),
+  metronomeVolume: volumeSchema.optional(),
+  click: z.object({
+    sound: z.enum(['classic', 'woodblock', 'hihat', 'cowbell', 'rimshot', 'custom']),
+    accents: z.array(z.enum(['accent', 'normal', 'mute'])).max(16),
+    subdivision: z.number().int().min(1).max(4),
+    samples: z.object({
+      accent: clickSampleSchema.optional(),
+      normal: clickSampleSchema.optional(),
+    }).optional(),
+  }).optional(),
+  snapToGrid: z.boolean().optional(),
+  gridSubdivision: z.number().int().min(1).max(64).optional(),
+  groove: z.object({
+    feel: z.enum(['straight', 'triplet', 'dotted']),
+    swing: z.number().min(50).max(75),
+    templateId: z.string().optional(),
+  }).optional(),
+  grooveTemplates: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().max(200),
+    subdivision: z.number().int().min(1).max(16),
+    offsets: z.array(z.number().min(-0.5).max(0.5)).min(1).max(256),
+  })).optional(),
+  loop: z.object({
+    enabled: z.boolean(),
+    start: timeSecondsSchema,
+    end: timeSecondsSchema,
+  }).refine(loop => loop.end > loop.start, { message: "Loop end must be after its start", path: ['end'] }).optional(),
+  limiter: z.object({
+    enabled: z.boolean(),
+    ceiling: z.number().min(-12).max(0),
+    release: z.number().min(0.001).max(5),
+  }).optional(),
+}).passthrough();
+
+/**
+ * Project tag, e.g. "verse idea" or "125bpm"
+ */
+export const projectTagSchema = z.string()
+  .trim()
+  .min(1, { message: "Tag cannot be empty" })
+  .max(40, { message: "Tag must be less than 40 characters" });
+
+/**
+ * Complete project file, checked after migrations have run
+ */
+export const projectSchema = z.object({
+  schemaVersion: z.number().int().min(1),
+  id: z.string().min(1, { message: "Project id is required" }),
+  name: storedNameSchema,
+  createdAt: z.string().datetime({ message: "Must be an ISO date" }),
+  lastModified: z.string().datetime({ message: "Must be an ISO date" }),
+  tags: z.array(projectTagSchema).optional(),
+  tracks: z.array(audioTrackSchema),
+  buses: z.array(mixBusSchema).optional(),
+  settings: projectSettingsSchema,
+}).passthrough();
+
+/**
+ * Project template: a project's settings and track layout, audio optional
+ */
+export const projectTemplateSchema = z.object({
+  schemaVersion: z.number().int().min(1),
+  id: z.string().min(1, { message: "Template id is required" }),
+  name: storedNameSchema,
+  createdAt: z.string().datetime({ message: "Must be an ISO date" }),
+  includesAudio: z.boolean(),
+  tracks: z.array(audioTrackSchema),
+  buses: z.array(mixBusSchema).optional(),
+  settings: projectSettingsSchema,
+}).passthrough();
+
+/**
+ * Render a zod issue path like `tracks[2].volume`
+ */
+export const formatIssuePath = (path: (string | number)[]): string =>
+  path.reduce<string>((result, segment) =>
+    typeof segment === 'number'
+      ? `${result}[${segment}]`
+      : result ? `${result}.${segment}` : segment,
+  '') || '(root)';
+
 /**
  * Safe parse helpers that return validation results
  */
@@ -0,0 +1,282 @@
+import type { AudioTrack, Project } from './ProjectManager';
+import { getStorageBackend, STORAGE_COLLECTIONS, type StorageBackend } from './storage';
+import { base64ToBytes, stripDataUrlPrefix } from './storage/base64';
+
+/**
+ * Content-addressed audio store.
+ *
+ * Every clip is written once as a binary file named after the SHA-256 of
+ * its bytes. Projects reference clips by that hash (`AudioTrack.audioHash`)
+ * instead of embedding base64 data URLs, and audio is only read back when a
+ * component or the playback engine actually asks for it. Clips are WAV unless
+ * a small document of the same hash records another MIME type, e.g. for
+ * recordings carried over from legacy projects.
+ */
+
+const DEFAULT_MIME_TYPE = 'audio/wav';
+
+const toDataUrl = (base64: string, mimeType: string): string => `data:${mimeType};base64,${base64}`;
+
+// MIME type of a data URL; raw base64 is taken to be WAV
+const mimeTypeOf = (audioData: string): string =>
+  /^data:([^;,]+)/.exec(audioData)?.[1] ?? DEFAULT_MIME_TYPE;
+
+export const PEAKS_PER_SECOND = 20;
+
+// Max |sample| per 1/PEAKS_PER_SECOND slice, read straight from 16-bit or float WAV data
+const wavPeaks = (bytes: Uint8Array): number[] | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunkId = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (bytes.length < 12 || chunkId(0) !== 'RIFF' || chunkId(8) !== 'WAVE') return null;
+
+  let format = 0, channels = 0, sampleRate = 0, bitsPerSample = 0;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = chunkId(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+    } else if (id === 'data') {
+      const isPcm16 = format === 1 && bitsPerSample === 16;
+      const isFloat32 = format === 3 && bitsPerSample === 32;
+      if (!channels || !sampleRate || (!isPcm16 && !isFloat32)) return null;
+
+      const frameBytes = channels * (bitsPerSample / 8);
+      const frames = Math.floor(Math.min(size, bytes.length - body) / frameBytes);
+      const framesPerPeak = Math.max(1, Math.round(sampleRate / PEAKS_PER_SECOND));
+      const peaks: number[] = [];
+
+      for (let start = 0; start < frames; start += framesPerPeak) {
+        let peak = 0;
+        const end = Math.min(frames, start + framesPerPeak);
+        for (let frame = start; frame < end; frame++) {
+          // First channel is enough for a thumbnail
+          const at = body + frame * frameBytes;
+          const sample = isPcm16 ? view.getInt16(at, true) / 0x8000 : view.getFloat32(at, true);
+          peak = Math.max(peak, Math.abs(sample));
+        }
+        peaks.push(peak);
+      }
+      return peaks;
+    }
+    offset = body + size + (size % 2);
+  }
+  return null;
+};
+
+class AudioStoreService {
+  private backend: StorageBackend | null = null;
+
+  // Lazy-load cache: hash -> data URL
+  private audioCache: Map<string, string> = new Map();
+  private maxCacheSize: number = 20;
+  // Avoid re-hashing the same in-memory data URL on every save
+  private hashByAudioData: Map<string, string> = new Map();
+  // Clips never change, so their peaks can be kept for the whole session;
+  // null for clips that aren't a WAV we can read
+  private peaksByHash: Map<string, number[] | null> = new Map();
+
+  async initialize(): Promise<void> {
+    if (this.backend) return;
+
+    this.backend = await getStorageBackend();
+    console.log('🎧 AudioStore ready -', this.backend.kind.toUpperCase());
+  }
+
+  hasTrackAudio(track: AudioTrack): boolean {
+    return !!(track.audioData || track.audioHash);
+  }
+
+  /**
+   * Store audio (data URL or raw base64) and return its content hash.
+   * Identical audio is only ever written once, keeping the data URL's MIME type.
+   */
+  async storeAudio(audioData: string): Promise<string> {
+    await this.initialize();
+
+    const knownHash = this.hashByAudioData.get(audioData);
+    if (knownHash) return knownHash;
+
+    const base64 = stripDataUrlPrefix(audioData);
+    const hash = await this.hashBytes(base64ToBytes(base64));
+
+    const fileName = this.fileNameFor(hash);
+    if (!(await this.backend!.hasBlob(STORAGE_COLLECTIONS.audio, fileName))) {
+      // Type first, so a clip is never read back as WAV when it isn't
+      const mimeType = mimeTypeOf(audioData);
+      if (mimeType !== DEFAULT_MIME_TYPE) {
+        await this.backend!.writeDocument(STORAGE_COLLECTIONS.audio, hash, JSON.stringify({ mimeType }));
+      }
+      await this.backend!.writeBlob(STORAGE_COLLECTIONS.audio, fileName, base64);
+      console.log('💾 Stored audio clip:', hash.substring(0, 12));
+    }
+
+    this.rememberHash(audioData, hash);
+    return hash;
+  }
+
+  /**
+   * Read a clip back as a data URL. Results are cached so repeated waveform
+   * and playback requests don't hit storage again.
+   */
+  async loadAudio(hash: string): Promise<string> {
+    await this.initialize();
+
+    const cached = this.audioCache.get(hash);
+    if (cached) return cached;
+
+    const base64 = await this.backend!.readBlob(STORAGE_COLLECTIONS.audio, this.fileNameFor(hash));
+    if (!base64) {
+      throw new Error(`Audio ${hash} not found`);
+    }
+
+    const dataUrl = toDataUrl(stripDataUrlPrefix(base64), await this.getMimeType(hash));
+    if (this.audioCache.size >= this.maxCacheSize) {
+      const firstKey = this.audioCache.keys().next().value;
+      if (firstKey) {
+        this.audioCache.delete(firstKey);
+      }
+    }
+    this.audioCache.set(hash, dataUrl);
+    return dataUrl;
+  }
+
+  /**
+   * MIME type a clip was stored with.
+   */
+  async getMimeType(hash: string): Promise<string> {
+    await this.initialize();
+
+    const data = await this.backend!.readDocument(STORAGE_COLLECTIONS.audio, hash);
+    if (!data) return DEFAULT_MIME_TYPE;
+    try {
+      const { mimeType } = JSON.parse(data) as { mimeType?: string };
+      return mimeType || DEFAULT_MIME_TYPE;
+    } catch (error) {
+      console.warn('⚠️ Unreadable audio type, assuming WAV:', error instanceof Error ? error.message : error);
+      return DEFAULT_MIME_TYPE;
+    }
+  }
+
+  /**
+   * Resolve a track's audio, preferring inline data that hasn't been
+   * written out yet.
+   */
+  async getTrackAudio(track: AudioTrack): Promise<string | null> {
+    return this.resolveAudio(track.audioData, track.audioHash);
+  }
+
+  async resolveAudio(audioData?: string, audioHash?: string): Promise<string | null> {
+    if (audioData) return audioData;
+    if (!audioHash) return null;
+    return this.loadAudio(audioHash);
+  }
+
+  /**
+   * Coarse peak envelope of a stored clip, PEAKS_PER_SECOND values per
+   * second. Null if the clip is missing or not a WAV we can read.
+   */
+  async getPeaks(hash: string): Promise<number[] | null> {
+    if (this.peaksByHash.has(hash)) return this.peaksByHash.get(hash)!;
+
+    await this.initialize();
+    const base64 = await this.backend!.readBlob(STORAGE_COLLECTIONS.audio, this.fileNameFor(hash));
+    // A missing clip may still be written, so only its contents are cached
+    if (!base64) return null;
+
+    const peaks = wavPeaks(base64ToBytes(stripDataUrlPrefix(base64)));
+    this.peaksByHash.set(hash, peaks);
+    return peaks;
+  }
+
+  async deleteAudio(hash: string): Promise<void> {
+    await this.initialize();
+
+    this.audioCache.delete(hash);
+    this.peaksByHash.delete(hash);
+    for (const [audioData, knownHash] of this.hashByAudioData) {
+      if (knownHash === hash) this.hashByAudioData.delete(audioData);
+    }
+
+    try {
+      await this.backend!.deleteBlob(STORAGE_COLLECTIONS.audio, this.fileNameFor(hash));
+      await this.backend!.deleteDocument(STORAGE_COLLECTIONS.audio, hash).catch(() => undefined);
+    } catch (error) {
+      console.warn('⚠️ Failed to delete audio clip:', error);
+    }
+  }
+
+  /**
+   * Write any inline audio to the store and attach its hash to the track.
+   * Tracks that already reference stored audio are returned untouched.
+   */
+  async externalizeTracks(tracks: AudioTrack[]): Promise<AudioTrack[]> {
+    const result: AudioTrack[] = [];
+    for (const track of tracks) {
+      if (track.audioData && !track.audioHash) {
+        const audioHash = await this.storeAudio(track.audioData);
+        result.push({ ...track, audioHash });
+      } else {
+        result.push(track);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Shape of a project as written to disk: audio referenced by hash only.
+   */
+  toStoredProject(project: Project): Project {
+    return {
+      ...project,
+      tracks: project.tracks.map(({ audioData, ...track }) => track)
+    };
+  }
+
+  /**
+   * Upgrade projects saved with inline base64 audio. Returns the project with
+   * inline audio dropped in favour of hashes, and whether anything changed so
+   * the caller can rewrite the file.
+   */
+  async migrateProject(project: Project): Promise<{ project: Project; migrated: boolean }> {
+    const hasInlineAudio = project.tracks.some(track => track.audioData);
+    if (!hasInlineAudio) {
+      return { project, migrated: false };
+    }
+
+    console.log('🔄 Migrating inline audio to the audio store:', project.name);
+    const tracks = await this.externalizeTracks(project.tracks);
+    return {
+      project: this.toStoredProject({ ...project, tracks }),
+      migrated: true
+    };
+  }
+
+  private rememberHash(audioData: string, hash: string): void {
+    if (this.hashByAudioData.size >= this.maxCacheSize) {
+      const firstKey = this.hashByAudioData.keys().next().value;
+      if (firstKey) {
+        this.hashByAudioData.delete(firstKey);
+      }
+    }
+    this.hashByAudioData.set(audioData, hash);
+  }
+
+  private fileNameFor(hash: string): string {
+    return `${hash}.wav`;
+  }
+
+  private async hashBytes(bytes: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
+
+export const AudioStore = new AudioStoreService();
@@ -0,0 +1,99 @@
+/**
+ * Volume and pan automation.
+ *
+ * A lane is a list of breakpoints on the project timeline with straight
+ * ramps between them. Volume automation scales the track fader (0-1); pan
+ * automation replaces the pan knob while the lane has points. Both are
+ * rendered as AudioParam ramps, live against the transport passes and
+ * offline from the start of the song.
+ */
+
+export type AutomationParam = 'volume' | 'pan';
+
+export interface AutomationPoint {
+  time: number; // timeline seconds
+  value: number;
+}
+
+export type TrackAutomation = Partial<Record<AutomationParam, AutomationPoint[]>>;
+
+export const AUTOMATION_RANGES: Record<AutomationParam, { min: number; max: number }> = {
+  volume: { min: 0, max: 1 },
+  pan: { min: -1, max: 1 },
+};
+
+/**
+ * A stretch of timeline being played: timeline `position` is heard at
+ * context time `startTime`, until `endTime` (Infinity when it runs on).
+ */
+export interface AutomationWindow {
+  startTime: number;
+  position: number;
+  endTime: number;
+}
+
+export const sortPoints = (points: AutomationPoint[]): AutomationPoint[] =>
+  [...points].sort((a, b) => a.time - b.time);
+
+// Value of a lane at a timeline position; flat before the first and after the last point
+export function automationValueAt(points: AutomationPoint[], time: number): number | undefined {
+  if (points.length === 0) return undefined;
+  if (time <= points[0].time) return points[0].value;
+
+  for (let i = 1; i < points.length; i++) {
+    const next = points[i];
+    if (time <= next.time) {
+      const previous = points[i - 1];
+      const span = next.time - previous.time;
+      return span > 0
+        ? previous.value + (next.value - previous.value) * ((time - previous.time) / span)
+        : next.value;
+    }
+  }
+  return points[points.length - 1].value;
+}
+
+/**
+ * Program a parameter to follow a lane through the given windows. Anything
+ * scheduled after `now` is replaced; the parameter glides from where it is
+ * over `leadSeconds` so reprogramming mid-play never clicks. An empty lane
+ * settles on `fallback`.
+ */
+export function scheduleAutomation(
+  param: AudioParam,
+  lane: AutomationPoint[] | undefined,
+  windows: AutomationWindow[],
+  now: number,
+  leadSeconds: number,
+  fallback: number
+): void {
+  const points = sortPoints(lane ?? []);
+
+  param.cancelScheduledValues(now);
+  param.setValueAtTime(param.value, now);
+
+  if (points.length === 0) {
+    param.linearRampToValueAtTime(fallback, now + leadSeconds);
+    return;
+  }
+
+  for (const window of windows) {
+    const start = Math.max(window.startTime, now + leadSeconds);
+    if (start >= window.endTime) continue;
+
+    const toTime = (position: number) => window.startTime + (position - window.position);
+    const from = window.position + (start - window.startTime);
+    const to = window.endTime === Infinity ? Infinity : window.position + (window.endTime - window.startTime);
+
+    // Back-to-back windows make this a step exactly on the seam
+    param.linearRampToValueAtTime(automationValueAt(points, from)!, start);
+    for (const point of points) {
+      if (point.time > from && point.time < to) {
+        param.linearRampToValueAtTime(point.value, toTime(point.time));
+      }
+    }
+    if (to !== Infinity) {
+      param.linearRampToValueAtTime(automationValueAt(points, to)!, window.endTime);
+    }
+  }
+}
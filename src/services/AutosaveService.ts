@@ -0,0 +1,99 @@
+import { ProjectManager, type Project } from './ProjectManager';
+import { SessionJournal } from './SessionJournal';
+
+/**
+ * Debounced autosave. Each change is journaled right away, the actual
+ * project save runs once edits settle, and a successful save checkpoints
+ * the journal.
+ */
+class AutosaveService {
+  private readonly delayMs = 2000;
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pendingProject: Project | null = null;
+  private pendingSeq: Promise<number> | null = null;
+  private lastSignature: string | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * Queue a save for the given project state. Unchanged states are ignored.
+   */
+  schedule(project: Project): void {
+    const signature = this.signatureOf(project);
+    if (signature === this.lastSignature) return;
+    this.lastSignature = signature;
+
+    // Another project's edits are saved now rather than dropped with it
+    if (this.pendingProject && this.pendingProject.id !== project.id) {
+      this.flush();
+    }
+
+    this.pendingProject = project;
+    this.pendingSeq = SessionJournal.appendEdit(project).catch(error => {
+      console.warn('⚠️ Failed to journal edit:', error instanceof Error ? error.message : error);
+      return 0;
+    });
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, this.delayMs);
+  }
+
+  /**
+   * Save whatever is pending right now, e.g. before the app is backgrounded.
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const project = this.pendingProject;
+    const seq = this.pendingSeq;
+    this.pendingProject = null;
+    this.pendingSeq = null;
+    if (!project || !seq) return this.saving;
+
+    this.saving = this.saving.then(async () => {
+      try {
+        await ProjectManager.saveProject({ ...project, lastModified: new Date().toISOString() });
+        await SessionJournal.checkpoint(await seq);
+        console.log('💾 Autosaved:', project.name);
+      } catch (error) {
+        // The journal still holds this state, so it can be recovered later
+        console.error('❌ Autosave failed:', error instanceof Error ? error.message : error);
+      }
+    });
+    return this.saving;
+  }
+
+  /**
+   * Treat this state as already saved, e.g. right after a project is opened.
+   */
+  markSaved(project: Project): void {
+    this.lastSignature = this.signatureOf(project);
+  }
+
+  /**
+   * Drop anything pending without saving it.
+   */
+  cancel(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.pendingProject = null;
+    this.pendingSeq = null;
+  }
+
+  private signatureOf(project: Project): string {
+    // Audio is covered by the hash; inline data URLs would make this huge
+    return JSON.stringify({
+      ...project,
+      lastModified: undefined,
+      tracks: project.tracks.map(({ audioData, ...track }) => ({ ...track, audioData: audioData?.length })),
+    });
+  }
+}
+
+export const Autosave = new AutosaveService();
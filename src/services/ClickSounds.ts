@@ -0,0 +1,194 @@
+/**
+ * Metronome click sounds.
+ *
+ * Built-in sound sets are synthesized sample by sample (noise from a seeded
+ * generator, so every click of a set is identical) into an accented and a
+ * normal click. A project can bring its own samples instead, stored in the
+ * AudioStore like clips. Each beat of the bar is accented, normal or muted,
+ * and beats can be subdivided into softer clicks in between.
+ */
+
+export type ClickSound = 'classic' | 'woodblock' | 'hihat' | 'cowbell' | 'rimshot' | 'custom';
+
+export type BeatAccent = 'accent' | 'normal' | 'mute';
+
+// How a single click is played; subdivisions are the clicks between beats
+export type ClickLevel = BeatAccent | 'subdivision';
+
+export interface ClickSample {
+  name: string;
+  audioHash: string;
+}
+
+export interface ClickSettings {
+  sound: ClickSound;
+  accents: BeatAccent[]; // per beat of the bar; beats past the end accent the downbeat only
+  subdivision: number; // clicks per beat: 1, 2 (8ths), 3 (triplets) or 4 (16ths)
+  samples?: { accent?: ClickSample; normal?: ClickSample }; // for the 'custom' sound
+}
+
+export const DEFAULT_CLICK_SETTINGS: ClickSettings = {
+  sound: 'classic',
+  accents: [],
+  subdivision: 1,
+};
+
+export const CLICK_SOUND_LABELS: Record<ClickSound, string> = {
+  classic: 'Classic',
+  woodblock: 'Woodblock',
+  hihat: 'Hi-hat',
+  cowbell: 'Cowbell',
+  rimshot: 'Rimshot',
+  custom: 'Custom samples',
+};
+
+export const CLICK_SUBDIVISIONS: { value: number; label: string }[] = [
+  { value: 1, label: 'Beats' },
+  { value: 2, label: '8ths' },
+  { value: 3, label: 'Triplets' },
+  { value: 4, label: '16ths' },
+];
+
+// Relative level of each kind of click; muted beats still run so the beat display keeps time
+export const CLICK_LEVEL_GAINS: Record<ClickLevel, number> = {
+  accent: 1,
+  normal: 1,
+  subdivision: 0.45,
+  mute: 0,
+};
+
+// Imported samples are cut to this length
+export const MAX_CLICK_SAMPLE_SECONDS = 1;
+
+// Synthesized clicks peak here, as the original oscillator click did
+const CLICK_PEAK = 0.3;
+
+export function accentForBeat(accents: BeatAccent[], beat: number): BeatAccent {
+  return accents[beat] ?? (beat === 0 ? 'accent' : 'normal');
+}
+
+const ACCENT_CYCLE: Record<BeatAccent, BeatAccent> = { accent: 'normal', normal: 'mute', mute: 'accent' };
+
+// Tapping a beat steps it accent → normal → mute
+export function nextAccent(accent: BeatAccent): BeatAccent {
+  return ACCENT_CYCLE[accent];
+}
+
+// Seeded so each click of a set sounds the same
+const noiseSource = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 31 - 1;
+  };
+};
+
+const decay = (t: number, seconds: number) => Math.exp(-t / seconds);
+const square = (phase: number) => (phase % 1 < 0.5 ? 1 : -1);
+
+interface Voice {
+  seconds: number;
+  sample: (t: number, noise: () => number) => number;
+}
+
+const VOICES: Record<Exclude<ClickSound, 'custom'>, (accent: boolean) => Voice> = {
+  // Sine blip, 800 Hz on the downbeat and 600 Hz otherwise
+  classic: accent => {
+    const frequency = accent ? 800 : 600;
+    return {
+      seconds: 0.1,
+      sample: t => {
+        const envelope = t < 0.01 ? t / 0.01 : Math.pow(0.001 / CLICK_PEAK, (t - 0.01) / 0.09);
+        return Math.sin(2 * Math.PI * frequency * t) * envelope;
+      },
+    };
+  },
+  // Struck bar: a fundamental with its inharmonic partial dying away faster
+  woodblock: accent => {
+    const frequency = accent ? 1250 : 900;
+    return {
+      seconds: 0.08,
+      sample: t =>
+        Math.sin(2 * Math.PI * frequency * t) * decay(t, 0.015) +
+        0.4 * Math.sin(2 * Math.PI * frequency * 2.76 * t) * decay(t, 0.006),
+    };
+  },
+  // High-passed noise; the accent rings longer, like a half-open hat
+  hihat: accent => {
+    let previous = 0;
+    return {
+      seconds: accent ? 0.2 : 0.08,
+      sample: (t, noise) => {
+        const current = noise();
+        const highPassed = current - previous;
+        previous = current;
+        return highPassed * decay(t, accent ? 0.05 : 0.018);
+      },
+    };
+  },
+  // Two detuned squares, as the classic drum machine cowbell
+  cowbell: accent => {
+    const pitch = accent ? 1.2 : 1;
+    return {
+      seconds: 0.25,
+      sample: t =>
+        (square(540 * pitch * t) + square(800 * pitch * t)) * (0.7 * decay(t, 0.012) + 0.3 * decay(t, 0.08)),
+    };
+  },
+  // Stick noise over a short body tone
+  rimshot: accent => {
+    const frequency = accent ? 1700 : 1350;
+    return {
+      seconds: 0.06,
+      sample: (t, noise) =>
+        noise() * decay(t, 0.004) + 0.8 * Math.sin(2 * Math.PI * frequency * t) * decay(t, 0.012),
+    };
+  },
+};
+
+/**
+ * Render one click of a built-in sound set, normalized to the click level.
+ */
+export function synthesizeClick(
+  context: BaseAudioContext,
+  sound: Exclude<ClickSound, 'custom'>,
+  accent: boolean
+): AudioBuffer {
+  const voice = VOICES[sound](accent);
+  const buffer = context.createBuffer(1, Math.ceil(voice.seconds * context.sampleRate), context.sampleRate);
+  const data = buffer.getChannelData(0);
+  const noise = noiseSource(accent ? 0x5eed : 0xc11c);
+
+  let peak = 0;
+  for (let i = 0; i < data.length; i++) {
+    data[i] = voice.sample(i / context.sampleRate, noise);
+    peak = Math.max(peak, Math.abs(data[i]));
+  }
+
+  // A short fade at the end so clicks never stop on a step
+  const tail = Math.min(data.length, Math.round(context.sampleRate * 0.002));
+  for (let i = 0; i < tail; i++) {
+    data[data.length - 1 - i] *= i / tail;
+  }
+
+  if (peak > 0) {
+    for (let i = 0; i < data.length; i++) data[i] *= CLICK_PEAK / peak;
+  }
+  return buffer;
+}
+
+/**
+ * Imported sample as a short mono click: channels are summed and anything
+ * past MAX_CLICK_SAMPLE_SECONDS is dropped.
+ */
+export function toClickSample(context: BaseAudioContext, decoded: AudioBuffer): AudioBuffer {
+  const length = Math.min(decoded.length, Math.ceil(MAX_CLICK_SAMPLE_SECONDS * decoded.sampleRate));
+  const buffer = context.createBuffer(1, length, decoded.sampleRate);
+  const data = buffer.getChannelData(0);
+
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const input = decoded.getChannelData(channel);
+    for (let i = 0; i < length; i++) data[i] += input[i] / decoded.numberOfChannels;
+  }
+  return buffer;
+}
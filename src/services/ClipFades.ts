@@ -0,0 +1,164 @@
+import type { AudioTrack } from './ProjectManager';
+import type { ClipWindow } from './MixGraph';
+
+/**
+ * Clip fades and crossfades.
+ *
+ * Every clip can fade in from its start and out towards its end with one of
+ * three curve shapes. Each AudioTrack holds a single clip; clips cut from the
+ * same recording share its audio and count as one track's clips, so where
+ * one runs into the next the earlier is cut short and the two crossfade.
+ * Playback and export program the same gain curves from `clipEnvelopes`.
+ */
+
+export type FadeCurve = 'linear' | 'exponential' | 'scurve';
+
+export interface ClipFade {
+  duration: number; // seconds
+  curve: FadeCurve;
+}
+
+export const FADE_CURVE_LABELS: Record<FadeCurve, string> = {
+  linear: 'Linear',
+  exponential: 'Exponential',
+  scurve: 'S-curve',
+};
+
+export const DEFAULT_FADE_CURVE: FadeCurve = 'linear';
+
+// Length of the automatic crossfade where clips overlap
+export const AUTO_CROSSFADE_SECONDS = 0.02;
+
+// Fade-in gain at `t` (0-1) through the fade; fade-outs run the same shape backwards
+const FADE_SHAPES: Record<FadeCurve, (t: number) => number> = {
+  linear: t => t,
+  // Even steps in dB from -60 dB, then down to true silence
+  exponential: t => (Math.pow(10, 3 * (t - 1)) - 0.001) / 0.999,
+  // Raised cosine; in and out always sum to unity, so crossfades hold level
+  scurve: t => 0.5 - 0.5 * Math.cos(Math.PI * t),
+};
+
+export const fadeGain = (curve: FadeCurve, t: number): number => FADE_SHAPES[curve](t);
+
+const NO_FADE: ClipFade = { duration: 0, curve: DEFAULT_FADE_CURVE };
+
+/**
+ * Where a clip plays on the timeline once fades and crossfades are applied.
+ */
+export interface ClipEnvelope {
+  start: number; // timeline seconds
+  end: number; // timeline seconds, earlier than the trim end when the next clip takes over
+  trimStart: number; // seconds into the audio at `start`
+  fadeIn: ClipFade;
+  fadeOut: ClipFade;
+}
+
+const longer = (fade: ClipFade, duration: number): ClipFade =>
+  fade.duration >= duration ? fade : { duration, curve: 'scurve' };
+
+// Fades can't be longer than the clip; when both together are, each gives way in proportion
+const fitFades = (envelope: ClipEnvelope): ClipEnvelope => {
+  const length = Math.max(0, envelope.end - envelope.start);
+  const total = envelope.fadeIn.duration + envelope.fadeOut.duration;
+  if (total <= length) return envelope;
+  const scale = total > 0 ? length / total : 0;
+  return {
+    ...envelope,
+    fadeIn: { ...envelope.fadeIn, duration: envelope.fadeIn.duration * scale },
+    fadeOut: { ...envelope.fadeOut, duration: envelope.fadeOut.duration * scale },
+  };
+};
+
+export function clipEnvelopes(clips: { track: AudioTrack; window: ClipWindow }[]): Map<string, ClipEnvelope> {
+  const envelopes = new Map<string, ClipEnvelope>();
+  const recordings = new Map<string, string[]>();
+
+  for (const { track, window } of clips) {
+    envelopes.set(track.id, {
+      start: window.start,
+      end: window.start + Math.max(0, window.trimEnd - window.trimStart),
+      trimStart: window.trimStart,
+      fadeIn: track.fadeIn ?? NO_FADE,
+      fadeOut: track.fadeOut ?? NO_FADE,
+    });
+
+    const audio = track.audioHash ?? track.audioData;
+    if (audio) recordings.set(audio, [...(recordings.get(audio) ?? []), track.id]);
+  }
+
+  for (const trackIds of recordings.values()) {
+    const ordered = trackIds
+      .map(id => ({ id, envelope: envelopes.get(id)! }))
+      .sort((a, b) => a.envelope.start - b.envelope.start);
+
+    for (let i = 1; i < ordered.length; i++) {
+      const earlier = ordered[i - 1].envelope;
+      const later = ordered[i].envelope;
+      // Only a clip running into the next one crossfades; one inside another is layered
+      if (later.start <= earlier.start || later.start >= earlier.end || later.end <= earlier.end) continue;
+
+      const crossfade = Math.min(AUTO_CROSSFADE_SECONDS, earlier.end - later.start);
+      earlier.end = later.start + crossfade;
+      earlier.fadeOut = longer(earlier.fadeOut, crossfade);
+      later.fadeIn = longer(later.fadeIn, crossfade);
+    }
+  }
+
+  for (const [trackId, envelope] of envelopes) {
+    envelopes.set(trackId, fitFades(envelope));
+  }
+  return envelopes;
+}
+
+// Gain from the clip's fades at a timeline position
+export function envelopeGainAt(envelope: ClipEnvelope, position: number): number {
+  const { start, end, fadeIn, fadeOut } = envelope;
+  let gain = 1;
+  if (fadeIn.duration > 0 && position < start + fadeIn.duration) {
+    gain *= FADE_SHAPES[fadeIn.curve](Math.max(0, (position - start) / fadeIn.duration));
+  }
+  if (fadeOut.duration > 0 && position > end - fadeOut.duration) {
+    gain *= FADE_SHAPES[fadeOut.curve](Math.max(0, (end - position) / fadeOut.duration));
+  }
+  return gain;
+}
+
+const curveSamples = (fade: ClipFade, from: number, to: number, fadeOut: boolean): Float32Array => {
+  const count = Math.max(2, Math.min(256, Math.ceil((to - from) * fade.duration * 200)));
+  const samples = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    const t = from + ((to - from) * i) / (count - 1);
+    samples[i] = FADE_SHAPES[fade.curve](fadeOut ? 1 - t : t);
+  }
+  return samples;
+};
+
+/**
+ * Program a clip's fades on a gain that starts playing timeline `position`
+ * at context time `when`. A source entering part-way through a fade picks
+ * the curve up where it would be.
+ */
+export function scheduleClipFades(param: AudioParam, envelope: ClipEnvelope, position: number, when: number): void {
+  const { start, end, fadeIn, fadeOut } = envelope;
+  const toTime = (timelinePosition: number) => when + (timelinePosition - position);
+
+  const fadeInEnd = start + fadeIn.duration;
+  const inFadeIn = fadeIn.duration > 0 && position < fadeInEnd;
+  const fadeOutStart = Math.max(end - fadeOut.duration, position, fadeInEnd);
+  const inFadeOut = fadeOut.duration > 0 && fadeOutStart < end;
+
+  // A curve may not share its start time with another event
+  if (!inFadeIn && !(inFadeOut && fadeOutStart === position)) {
+    param.setValueAtTime(envelopeGainAt(envelope, position), when);
+  }
+
+  if (inFadeIn) {
+    const from = Math.max(0, (position - start) / fadeIn.duration);
+    param.setValueCurveAtTime(curveSamples(fadeIn, from, 1, false), when, fadeInEnd - position);
+  }
+
+  if (inFadeOut) {
+    const from = (fadeOutStart - (end - fadeOut.duration)) / fadeOut.duration;
+    param.setValueCurveAtTime(curveSamples(fadeOut, from, 1, true), toTime(fadeOutStart), end - fadeOutStart);
+  }
+}
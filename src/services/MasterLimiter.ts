@@ -0,0 +1,213 @@
+/**
+ * Look-ahead brickwall limiter for the master bus.
+ *
+ * Peaks are measured between samples as well as on them (4x oversampled, as
+ * true-peak meters do) and the gain is brought down over the look-ahead
+ * window before they arrive, so nothing leaves the master above the ceiling.
+ * It runs as an AudioWorklet, so live playback and the offline mixdown use
+ * the exact same processor. Where AudioWorklet isn't available a
+ * DynamicsCompressorNode set up as a limiter stands in.
+ */
+
+export interface MasterLimiterSettings {
+  enabled: boolean;
+  ceiling: number; // dBTP
+  release: number; // seconds
+}
+
+export const DEFAULT_MASTER_LIMITER: MasterLimiterSettings = {
+  enabled: true,
+  ceiling: -1,
+  release: 0.1,
+};
+
+const LOOKAHEAD_SECONDS = 0.005;
+// Further delay so the true-peak interpolator has the samples after a peak in hand
+const TRUE_PEAK_DELAY = 3;
+const PROCESSOR_NAME = 'master-limiter';
+
+const PROCESSOR_SOURCE = `
+const PHASES = [0.25, 0.5, 0.75].map(fraction => {
+  const taps = [];
+  for (let k = -3; k <= 4; k++) {
+    const x = fraction - k;
+    // Lanczos kernel, a = 4
+    taps.push((Math.sin(Math.PI * x) / (Math.PI * x)) * (Math.sin(Math.PI * x / 4) / (Math.PI * x / 4)));
+  }
+  return taps;
+});
+
+class MasterLimiterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'ceiling', defaultValue: 0.891, minValue: 0.001, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'release', defaultValue: 0.1, minValue: 0.001, maxValue: 5, automationRate: 'k-rate' },
+      { name: 'active', defaultValue: 1, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor(options) {
+    super();
+    const channels = 2;
+    this.lookahead = Math.max(1, options.processorOptions.lookaheadSamples | 0);
+    this.delay = this.lookahead + ${TRUE_PEAK_DELAY};
+    this.index = 0;
+    this.history = Array.from({ length: channels }, () => new Float32Array(8));
+    this.delayed = Array.from({ length: channels }, () => new Float32Array(this.delay));
+    // Sliding minimum of the required gain over the look-ahead window
+    this.minIndex = new Float64Array(this.lookahead + 1);
+    this.minValue = new Float32Array(this.lookahead + 1);
+    this.minHead = 0;
+    this.minLength = 0;
+    // Moving average of that minimum, which ramps the gain down over the window
+    this.averaged = new Float32Array(this.lookahead).fill(1);
+    this.sum = this.lookahead;
+    this.gain = 1;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const ceiling = parameters.ceiling[0];
+    const active = parameters.active[0] >= 0.5;
+    const release = 1 - Math.exp(-1 / (parameters.release[0] * sampleRate));
+    const capacity = this.minIndex.length;
+
+    for (let i = 0; i < output[0].length; i++) {
+      const n = this.index++;
+      const slot = n % 8;
+
+      let peak = 0;
+      for (let c = 0; c < this.history.length; c++) {
+        const source = input[c] ?? input[0];
+        const history = this.history[c];
+        history[slot] = source ? source[i] : 0;
+
+        // Between the samples 4 and 3 behind the newest, on and off the sample grid
+        peak = Math.max(peak, Math.abs(history[(n - 4 + 8) % 8]), Math.abs(history[(n - 3 + 8) % 8]));
+        for (const taps of PHASES) {
+          let value = 0;
+          for (let k = 0; k < 8; k++) value += history[(n - 7 + k + 8) % 8] * taps[k];
+          peak = Math.max(peak, Math.abs(value));
+        }
+      }
+
+      const required = active && peak > ceiling ? ceiling / peak : 1;
+
+      while (this.minLength > 0 && this.minValue[(this.minHead + this.minLength - 1) % capacity] >= required) {
+        this.minLength--;
+      }
+      this.minIndex[(this.minHead + this.minLength) % capacity] = n;
+      this.minValue[(this.minHead + this.minLength) % capacity] = required;
+      this.minLength++;
+      while (this.minIndex[this.minHead] <= n - this.lookahead) {
+        this.minHead = (this.minHead + 1) % capacity;
+        this.minLength--;
+      }
+      const minimum = this.minValue[this.minHead];
+
+      const averageSlot = n % this.lookahead;
+      this.sum += minimum - this.averaged[averageSlot];
+      this.averaged[averageSlot] = minimum;
+      const target = Math.min(1, this.sum / this.lookahead);
+
+      this.gain = target < this.gain ? target : this.gain + (target - this.gain) * release;
+
+      for (let c = 0; c < output.length; c++) {
+        const delayed = this.delayed[Math.min(c, this.delayed.length - 1)];
+        const delaySlot = n % delayed.length;
+        const sample = delayed[delaySlot];
+        delayed[delaySlot] = this.history[Math.min(c, this.history.length - 1)][slot];
+        output[c][i] = sample * this.gain;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', MasterLimiterProcessor);
+`;
+
+const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+const lookaheadSamples = (sampleRate: number): number => Math.round(LOOKAHEAD_SECONDS * sampleRate);
+
+// How far the limiter delays the signal; the mixdown trims this back off
+export const limiterLatencySamples = (sampleRate: number, useWorklet: boolean): number =>
+  useWorklet ? lookaheadSamples(sampleRate) + TRUE_PEAK_DELAY : 0;
+
+let processorUrl: string | null = null;
+const loading = new WeakMap<BaseAudioContext, Promise<boolean>>();
+
+/**
+ * Make the limiter processor available on a context. Resolves false when the
+ * context can't run AudioWorklets; MasterLimiter then falls back.
+ */
+export function loadMasterLimiter(context: BaseAudioContext): Promise<boolean> {
+  let promise = loading.get(context);
+  if (!promise) {
+    promise = (async () => {
+      if (!context.audioWorklet) return false;
+      try {
+        processorUrl ??= URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+        await context.audioWorklet.addModule(processorUrl);
+        return true;
+      } catch (error) {
+        console.warn('⚠️ Master limiter worklet unavailable, using a compressor instead:', error instanceof Error ? error.message : error);
+        return false;
+      }
+    })();
+    loading.set(context, promise);
+  }
+  return promise;
+}
+
+export class MasterLimiter {
+  readonly input: AudioNode;
+  readonly output: AudioNode;
+  readonly latencySamples: number;
+  private worklet: AudioWorkletNode | null = null;
+  private compressor: DynamicsCompressorNode | null = null;
+
+  constructor(context: BaseAudioContext, settings: MasterLimiterSettings, useWorklet: boolean) {
+    if (useWorklet) {
+      const lookahead = lookaheadSamples(context.sampleRate);
+      this.worklet = new AudioWorkletNode(context, PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [2],
+        channelCount: 2,
+        channelCountMode: 'explicit',
+        processorOptions: { lookaheadSamples: lookahead },
+      });
+      this.input = this.worklet;
+      this.output = this.worklet;
+    } else {
+      this.compressor = context.createDynamicsCompressor();
+      this.compressor.knee.value = 0;
+      this.compressor.ratio.value = 20;
+      this.compressor.attack.value = 0;
+      this.input = this.compressor;
+      this.output = this.compressor;
+    }
+    this.latencySamples = limiterLatencySamples(context.sampleRate, useWorklet);
+    this.setSettings(settings);
+  }
+
+  setSettings(settings: MasterLimiterSettings): void {
+    const now = this.input.context.currentTime;
+    if (this.worklet) {
+      this.worklet.parameters.get('ceiling')!.setValueAtTime(Math.min(1, dbToGain(settings.ceiling)), now);
+      this.worklet.parameters.get('release')!.setValueAtTime(settings.release, now);
+      this.worklet.parameters.get('active')!.setValueAtTime(settings.enabled ? 1 : 0, now);
+    } else if (this.compressor) {
+      this.compressor.threshold.setValueAtTime(settings.enabled ? settings.ceiling : 0, now);
+      this.compressor.ratio.setValueAtTime(settings.enabled ? 20 : 1, now);
+      this.compressor.release.setValueAtTime(settings.release, now);
+    }
+  }
+
+  dispose(): void {
+    this.output.disconnect();
+  }
+}
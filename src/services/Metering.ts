@@ -0,0 +1,200 @@
+/**
+ * Level metering for tracks and the master.
+ *
+ * PlaybackEngine taps each track strip and the master output with a pair of
+ * AnalyserNodes (left and right). Readings are taken once per animation
+ * frame, only while something is subscribed, and pushed straight to the
+ * subscribers so meters can paint themselves without a React render.
+ */
+
+export const MASTER_METER_ID = 'master';
+
+// Meters show -60 dBFS to 0 dBFS
+export const METER_FLOOR_DB = -60;
+
+const ANALYSER_SIZE = 2048; // ~46 ms at 44.1 kHz, a typical RMS window
+const PEAK_FALL_DB_PER_SECOND = 24;
+const PEAK_HOLD_SECONDS = 1.5;
+
+export interface ChannelLevel {
+  peak: number; // linear, 1 = 0 dBFS; falls back at a steady rate
+  rms: number;
+  hold: number; // highest recent peak, held before it drops
+}
+
+export interface MeterLevel {
+  channels: ChannelLevel[];
+  clipped: boolean; // sticky until reset
+}
+
+type MeterListener = (level: MeterLevel) => void;
+
+interface ChannelState extends ChannelLevel {
+  analyser: AnalyserNode | null;
+  samples: Float32Array;
+  heldAt: number;
+}
+
+interface Meter {
+  tap: AudioNode | null;
+  splitter: ChannelSplitterNode | null;
+  channels: ChannelState[];
+  clipped: boolean;
+  listeners: Set<MeterListener>;
+}
+
+export const levelToDb = (level: number): number =>
+  level > 0 ? 20 * Math.log10(level) : -Infinity;
+
+// 0-1 position on a meter for a linear level
+export const levelToMeter = (level: number): number =>
+  Math.max(0, Math.min(1, (levelToDb(level) - METER_FLOOR_DB) / -METER_FLOOR_DB));
+
+const silentChannel = (): ChannelState => ({
+  analyser: null,
+  samples: new Float32Array(ANALYSER_SIZE),
+  peak: 0,
+  rms: 0,
+  hold: 0,
+  heldAt: 0,
+});
+
+class MeteringService {
+  private meters: Map<string, Meter> = new Map();
+  private animationFrameId?: number;
+  private lastFrameTime = 0;
+
+  /**
+   * Start metering the signal leaving `tap`. The analysers hang off the
+   * node without changing what it feeds.
+   */
+  attach(meterId: string, tap: AudioNode): void {
+    const meter = this.meterFor(meterId);
+    if (meter.tap === tap) return;
+    this.disconnect(meter);
+
+    const context = tap.context;
+    const splitter = context.createChannelSplitter(2);
+    tap.connect(splitter);
+
+    meter.tap = tap;
+    meter.splitter = splitter;
+    meter.channels.forEach((channel, index) => {
+      const analyser = context.createAnalyser();
+      analyser.fftSize = ANALYSER_SIZE;
+      splitter.connect(analyser, index);
+      channel.analyser = analyser;
+    });
+    this.updateLoop();
+  }
+
+  // Stop metering; pass the tap to leave a meter alone that has since been re-attached elsewhere
+  detach(meterId: string, tap?: AudioNode): void {
+    const meter = this.meters.get(meterId);
+    if (!meter || (tap && meter.tap !== tap)) return;
+    this.disconnect(meter);
+    this.prune(meterId, meter);
+  }
+
+  subscribe(meterId: string, listener: MeterListener): () => void {
+    const meter = this.meterFor(meterId);
+    meter.listeners.add(listener);
+    this.updateLoop();
+
+    return () => {
+      meter.listeners.delete(listener);
+      this.prune(meterId, meter);
+      this.updateLoop();
+    };
+  }
+
+  resetClip(meterId: string): void {
+    const meter = this.meters.get(meterId);
+    if (meter) meter.clipped = false;
+  }
+
+  private meterFor(meterId: string): Meter {
+    let meter = this.meters.get(meterId);
+    if (!meter) {
+      meter = { tap: null, splitter: null, channels: [silentChannel(), silentChannel()], clipped: false, listeners: new Set() };
+      this.meters.set(meterId, meter);
+    }
+    return meter;
+  }
+
+  private disconnect(meter: Meter): void {
+    if (meter.tap && meter.splitter) {
+      try {
+        meter.tap.disconnect(meter.splitter);
+      } catch (error) {
+        // Tap already torn down with its strip
+      }
+      meter.splitter.disconnect();
+    }
+    meter.tap = null;
+    meter.splitter = null;
+    meter.channels.forEach(channel => {
+      channel.analyser = null;
+    });
+  }
+
+  private prune(meterId: string, meter: Meter): void {
+    if (!meter.tap && meter.listeners.size === 0) this.meters.delete(meterId);
+  }
+
+  // Frames are only requested while some meter is on screen
+  private updateLoop(): void {
+    const needed = Array.from(this.meters.values()).some(meter => meter.listeners.size > 0);
+    if (needed && this.animationFrameId === undefined) {
+      this.lastFrameTime = performance.now();
+      this.animationFrameId = requestAnimationFrame(this.tick);
+    } else if (!needed && this.animationFrameId !== undefined) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = undefined;
+    }
+  }
+
+  private tick = (now: number): void => {
+    const elapsed = Math.max(0, (now - this.lastFrameTime) / 1000);
+    this.lastFrameTime = now;
+    const fall = Math.pow(10, (-PEAK_FALL_DB_PER_SECOND * elapsed) / 20);
+
+    for (const meter of this.meters.values()) {
+      if (meter.listeners.size === 0) continue;
+
+      for (const channel of meter.channels) {
+        let peak = 0;
+        let sumOfSquares = 0;
+        if (channel.analyser) {
+          channel.analyser.getFloatTimeDomainData(channel.samples);
+          for (const sample of channel.samples) {
+            const magnitude = Math.abs(sample);
+            if (magnitude > peak) peak = magnitude;
+            sumOfSquares += sample * sample;
+          }
+        }
+        if (peak >= 1) meter.clipped = true;
+
+        channel.peak = Math.max(peak, channel.peak * fall);
+        channel.rms = Math.sqrt(sumOfSquares / channel.samples.length);
+        if (peak >= channel.hold) {
+          channel.hold = peak;
+          channel.heldAt = now;
+        } else if (now - channel.heldAt > PEAK_HOLD_SECONDS * 1000) {
+          // Hold time over; the marker falls with the peak until it's topped again
+          channel.hold = channel.peak;
+        }
+      }
+
+      const level: MeterLevel = {
+        channels: meter.channels.map(({ peak, rms, hold }) => ({ peak, rms, hold })),
+        clipped: meter.clipped,
+      };
+      meter.listeners.forEach(listener => listener(level));
+    }
+
+    this.animationFrameId = requestAnimationFrame(this.tick);
+  };
+}
+
+export const Metering = new MeteringService();
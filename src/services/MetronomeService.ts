@@ -1,37 +1,108 @@
+import { PlaybackEngine, type TransportSegment } from './PlaybackEngine';
+import { AudioStore } from './AudioStore';
+import { base64ToBytes, stripDataUrlPrefix } from './storage/base64';
+import {
+  CLICK_LEVEL_GAINS,
+  DEFAULT_CLICK_SETTINGS,
+  accentForBeat,
+  synthesizeClick,
+  toClickSample,
+  type ClickLevel,
+  type ClickSettings,
+} from './ClickSounds';
+import { DEFAULT_TEMPO_MAP, type TempoMap } from '@/lib/tempoMap';
+
+// How far ahead of the audio clock clicks are handed to the context
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+const SCHEDULER_INTERVAL_MS = 25;
+// Head start so the first click is never scheduled in the past
+const START_LATENCY_SECONDS = 0.05;
+
+type BeatCallback = (beatNumber: number, isDownbeat: boolean, beatsInBar: number) => void;
+
+interface ScheduledClick {
+  segmentStart: number; // identifies the transport pass it was scheduled for
+  time: number;
+  beatNumber: number;
+  beatsInBar: number;
+  isDownbeat: boolean;
+  isBeat: boolean; // false for subdivisions
+  source: AudioBufferSourceNode;
+  announced: boolean;
+}
+
+/**
+ * Click track on the playback engine's AudioContext.
+ *
+ * Clicks are scheduled a little ahead on the audio clock rather than fired
+ * from a timer. While the transport plays they are placed on its passes, so
+ * they stay phase-locked to the timeline through seeks and loop cycles and
+ * land on the bar lines the ruler draws, tempo changes included; otherwise the metronome runs its own
+ * pass from where it was started.
+ */
 export class MetronomeService {
   private audioContext: AudioContext | null = null;
   private gainNode: GainNode | null = null;
   private isPlaying = false;
-  private intervalId: number | null = null;
-  private bpm = 120;
+  private schedulerTimer?: ReturnType<typeof setInterval>;
+  // Runs the clicks while the transport isn't playing
+  private ownPass: TransportSegment | null = null;
+  private scheduled: Map<string, ScheduledClick> = new Map();
+  private tempoMap: TempoMap = DEFAULT_TEMPO_MAP;
+  private clickSettings: ClickSettings = DEFAULT_CLICK_SETTINGS;
+  // Rendered clicks for the current context, by sound set and accent
+  private synthesized: Map<string, AudioBuffer> = new Map();
+  // Decoded custom samples by audio hash
+  private samples: Map<string, AudioBuffer> = new Map();
   private volume = 0.5;
-  private beatCount = 0;
-  private timeSignature = { numerator: 4, denominator: 4 };
-  private onBeatCallback?: (beatNumber: number, isDownbeat: boolean) => void;
+  private onBeatCallback?: BeatCallback;
 
   async initialize(): Promise<void> {
-    if (!this.audioContext) {
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      this.gainNode = this.audioContext.createGain();
-      this.gainNode.connect(this.audioContext.destination);
+    await PlaybackEngine.initialize();
+    const context = PlaybackEngine.getAudioContext()!;
+    if (this.audioContext !== context) {
+      this.audioContext = context;
+      this.gainNode = context.createGain();
+      // The click isn't part of the mix, so master volume and the limiter leave it alone
+      this.gainNode.connect(context.destination);
       this.setVolume(this.volume);
-    }
-    
-    if (this.audioContext.state === 'suspended') {
-      await this.audioContext.resume();
+      this.synthesized.clear();
+      this.samples.clear();
+      await this.loadSamples();
     }
   }
 
-  setBpm(bpm: number): void {
-    this.bpm = Math.max(60, Math.min(300, bpm)); // Clamp between 60-300 BPM
-    if (this.isPlaying) {
-      this.stop();
-      this.start();
-    }
+  setTempoMap(tempoMap: TempoMap): void {
+    this.tempoMap = tempoMap;
+    this.rescheduleClicks();
   }
 
-  getBpm(): number {
-    return this.bpm;
+  getTempoMap(): TempoMap {
+    return this.tempoMap;
+  }
+
+  /**
+   * Change the click sound, accent pattern or subdivisions. Custom samples
+   * are loaded in the background; until they're ready the classic click plays.
+   */
+  setClickSettings(settings: ClickSettings): void {
+    this.clickSettings = settings;
+    this.rescheduleClicks();
+    this.loadSamples().then(() => this.rescheduleClicks());
+  }
+
+  getClickSettings(): ClickSettings {
+    return this.clickSettings;
+  }
+
+  /**
+   * Decode an imported click sample on the metronome's context, ready to be
+   * stored as a project sample.
+   */
+  async decodeClickSample(data: ArrayBuffer): Promise<AudioBuffer> {
+    await this.initialize();
+    const context = this.audioContext!;
+    return toClickSample(context, await context.decodeAudioData(data));
   }
 
   setVolume(volume: number): void {
@@ -45,44 +116,37 @@ export class MetronomeService {
     return this.volume;
   }
 
-  setTimeSignature(numerator: number, denominator: number): void {
-    this.timeSignature = { numerator, denominator };
-    this.beatCount = 0;
-  }
-
-  setOnBeatCallback(callback: (beatNumber: number, isDownbeat: boolean) => void): void {
+  setOnBeatCallback(callback: BeatCallback): void {
     this.onBeatCallback = callback;
   }
 
-  async start(): Promise<void> {
+  /**
+   * Start clicking. While the transport is stopped the clicks run on from
+   * timeline `position` as if it were playing from there.
+   */
+  async start(position: number = PlaybackEngine.getCurrentTime()): Promise<void> {
     if (this.isPlaying) return;
-    
+
     await this.initialize();
     this.isPlaying = true;
-    this.beatCount = 0;
-    
-    const beatInterval = (60 / this.bpm) * 1000; // Convert to milliseconds
-    
-    // Play first beat immediately
-    this.playClick(true);
-    this.onBeatCallback?.(1, true);
-    this.beatCount = 1;
-    
-    this.intervalId = window.setInterval(() => {
-      this.beatCount = (this.beatCount % this.timeSignature.numerator) + 1;
-      const isDownbeat = this.beatCount === 1;
-      this.playClick(isDownbeat);
-      this.onBeatCallback?.(this.beatCount, isDownbeat);
-    }, beatInterval);
+    this.ownPass = {
+      startTime: this.audioContext!.currentTime + START_LATENCY_SECONDS,
+      position: Math.max(0, position),
+      endTime: Infinity,
+    };
+
+    this.scheduleAhead();
+    this.schedulerTimer = setInterval(() => this.scheduleAhead(), SCHEDULER_INTERVAL_MS);
   }
 
   stop(): void {
     this.isPlaying = false;
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = undefined;
     }
-    this.beatCount = 0;
+    this.ownPass = null;
+    this.cancelClicks(() => true);
   }
 
   toggle(): void {
@@ -97,81 +161,194 @@ export class MetronomeService {
     return this.isPlaying;
   }
 
-  // Play count-in before recording
-  async playCountIn(measures: number = 1): Promise<void> {
-    return new Promise((resolve) => {
-      const totalBeats = measures * this.timeSignature.numerator;
-      let currentBeat = 0;
-      
-      const countInInterval = (60 / this.bpm) * 1000;
-      
-      const playCountBeat = () => {
-        currentBeat++;
-        const isDownbeat = (currentBeat - 1) % this.timeSignature.numerator === 0;
-        this.playClick(isDownbeat);
-        
-        if (currentBeat >= totalBeats) {
-          resolve();
-        } else {
-          setTimeout(playCountBeat, countInInterval);
-        }
-      };
-      
-      playCountBeat();
-    });
-  }
-
-  private playClick(isDownbeat: boolean): void {
-    if (!this.audioContext || !this.gainNode) return;
-
-    const oscillator = this.audioContext.createOscillator();
-    const envelope = this.audioContext.createGain();
-    
-    oscillator.connect(envelope);
-    envelope.connect(this.gainNode);
-    
-    // Different frequencies for downbeat vs regular beat
-    oscillator.frequency.setValueAtTime(
-      isDownbeat ? 800 : 600, 
-      this.audioContext.currentTime
-    );
-    
-    // Create click envelope
+  /**
+   * Play count-in before recording, at the tempo where recording starts,
+   * with the click's accents and subdivisions. Resolves on the beat after
+   * the last click.
+   */
+  async playCountIn(measures: number = 1, position: number = PlaybackEngine.getCurrentTime()): Promise<void> {
+    await this.initialize();
+    const context = this.audioContext!;
+    const { numerator } = this.tempoMap.meterAt(Math.floor(this.tempoMap.barAtTime(position)));
+    const { subdivision } = this.clickSettings;
+    const totalBeats = measures * numerator;
+    const beat = this.tempoMap.beatSecondsAt(position);
+    const start = context.currentTime + START_LATENCY_SECONDS;
+
+    for (let step = 0; step < totalBeats * subdivision; step++) {
+      const level = this.levelOf(Math.floor(step / subdivision) % numerator, step % subdivision);
+      this.playClick(start + (step / subdivision) * beat, level);
+    }
+
+    const end = start + totalBeats * beat;
+    await new Promise<void>(resolve => setTimeout(resolve, Math.max(0, end - context.currentTime) * 1000));
+  }
+
+  /**
+   * Follow the transport while it plays. If it stops under us (playback ran
+   * out mid-recording), carry on from its last pass so the clicks keep time.
+   */
+  private currentSegments(now: number): TransportSegment[] {
+    const transport = PlaybackEngine.getTransport();
+    if (transport.length === 0) return this.ownPass ? [this.ownPass] : [];
+
+    const current = transport.filter(segment => segment.startTime <= now).pop() ?? transport[0];
+    this.ownPass = { ...current, endTime: Infinity };
+    return transport;
+  }
+
+  private scheduleAhead(): void {
+    if (!this.audioContext || !this.isPlaying) return;
     const now = this.audioContext.currentTime;
-    envelope.gain.setValueAtTime(0, now);
-    envelope.gain.linearRampToValueAtTime(0.3, now + 0.01);
-    envelope.gain.exponentialRampToValueAtTime(0.001, now + 0.1);
-    
-    oscillator.start(now);
-    oscillator.stop(now + 0.1);
+    const horizon = now + SCHEDULE_AHEAD_SECONDS;
+    const segments = this.currentSegments(now);
+
+    // A seek or restart replaces the passes; clicks queued on the old ones are dropped
+    const live = new Set(segments.map(segment => segment.startTime));
+    this.cancelClicks(click => !live.has(click.segmentStart) && click.time > now);
+
+    this.announceBeats(now);
+
+    for (const segment of segments) {
+      if (segment.startTime > horizon) break;
+      const from = Math.max(now, segment.startTime);
+      const to = Math.min(horizon, segment.endTime);
+      if (to <= from) continue;
+
+      const toPosition = (time: number) => segment.position + (time - segment.startTime);
+      const clicks = this.tempoMap.beatsBetween(toPosition(from), toPosition(to), this.clickSettings.subdivision);
+      for (const { time: position, bar, beat, subdivision, beatsInBar } of clicks) {
+        const key = `${segment.startTime}:${bar}:${beat}:${subdivision}`;
+        if (this.scheduled.has(key)) continue;
+
+        const time = segment.startTime + (position - segment.position);
+        const click: ScheduledClick = {
+          segmentStart: segment.startTime,
+          time,
+          beatNumber: beat + 1,
+          beatsInBar,
+          isDownbeat: beat === 0,
+          isBeat: subdivision === 0,
+          source: this.playClick(time, this.levelOf(beat, subdivision)),
+          announced: false,
+        };
+        this.scheduled.set(key, click);
+        click.source.onended = () => {
+          if (this.scheduled.get(key) === click) this.scheduled.delete(key);
+        };
+      }
+    }
   }
 
-  // Utility methods for beat/time calculations
+  // The beat callback fires as each click is heard, not when it's scheduled
+  private announceBeats(now: number): void {
+    for (const click of this.scheduled.values()) {
+      if (click.announced || click.time > now) continue;
+      click.announced = true;
+      if (click.isBeat) this.onBeatCallback?.(click.beatNumber, click.isDownbeat, click.beatsInBar);
+    }
+  }
+
+  private cancelClicks(shouldCancel: (click: ScheduledClick) => boolean): void {
+    for (const [key, click] of this.scheduled) {
+      if (!shouldCancel(click)) continue;
+      this.scheduled.delete(key);
+      try {
+        click.source.stop();
+      } catch (error) {
+        // Already finished
+      }
+    }
+  }
+
+  // Tempo, meter and click changes move or change clicks; those not yet heard are placed again
+  private rescheduleClicks(): void {
+    if (!this.audioContext || !this.isPlaying) return;
+    const now = this.audioContext.currentTime;
+    this.cancelClicks(click => click.time > now);
+    this.scheduleAhead();
+  }
+
+  private levelOf(beat: number, subdivision: number): ClickLevel {
+    const accent = accentForBeat(this.clickSettings.accents, beat);
+    // Subdivisions of a muted beat stay silent with it
+    return subdivision === 0 || accent === 'mute' ? accent : 'subdivision';
+  }
+
+  private playClick(time: number, level: ClickLevel): AudioBufferSourceNode {
+    const context = this.audioContext!;
+    const source = context.createBufferSource();
+    const gain = context.createGain();
+
+    source.buffer = this.clickBuffer(level === 'accent');
+    gain.gain.value = CLICK_LEVEL_GAINS[level];
+    source.connect(gain);
+    gain.connect(this.gainNode!);
+
+    source.start(time);
+    source.addEventListener('ended', () => gain.disconnect());
+    return source;
+  }
+
+  private clickBuffer(accent: boolean): AudioBuffer {
+    const { sound, samples } = this.clickSettings;
+    if (sound === 'custom') {
+      // Either sample stands in for the other
+      const preferred = accent ? samples?.accent ?? samples?.normal : samples?.normal ?? samples?.accent;
+      const buffer = preferred && this.samples.get(preferred.audioHash);
+      if (buffer) return buffer;
+    }
+
+    const voice = sound === 'custom' ? 'classic' : sound;
+    const key = `${voice}:${accent}`;
+    let buffer = this.synthesized.get(key);
+    if (!buffer) {
+      buffer = synthesizeClick(this.audioContext!, voice, accent);
+      this.synthesized.set(key, buffer);
+    }
+    return buffer;
+  }
+
+  private async loadSamples(): Promise<void> {
+    const context = this.audioContext;
+    const { samples } = this.clickSettings;
+    if (!context || !samples) return;
+
+    for (const sample of [samples.accent, samples.normal]) {
+      if (!sample || this.samples.has(sample.audioHash)) continue;
+      try {
+        const audioData = await AudioStore.loadAudio(sample.audioHash);
+        const bytes = base64ToBytes(stripDataUrlPrefix(audioData));
+        const decoded = await context.decodeAudioData(bytes.buffer);
+        this.samples.set(sample.audioHash, toClickSample(context, decoded));
+      } catch (error) {
+        console.warn('⚠️ Failed to load click sample:', sample.name, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  // Utility methods for beat/time calculations, all through the tempo map
   beatsToSeconds(beats: number): number {
-    return (beats / this.bpm) * 60;
+    return this.tempoMap.timeAtBeat(beats);
   }
 
   secondsToBeats(seconds: number): number {
-    return (seconds * this.bpm) / 60;
+    return this.tempoMap.beatAtTime(seconds);
   }
 
   snapToNearestBeat(timeInSeconds: number, subdivision: number = 1): number {
-    const beatDuration = 60 / this.bpm;
-    const subdivisionDuration = beatDuration / subdivision;
-    return Math.round(timeInSeconds / subdivisionDuration) * subdivisionDuration;
+    return this.tempoMap.snap(timeInSeconds, subdivision);
   }
 
   getNextBeatTime(currentTime: number): number {
-    const beatDuration = 60 / this.bpm;
-    return Math.ceil(currentTime / beatDuration) * beatDuration;
+    return this.tempoMap.timeAtBeat(Math.ceil(this.tempoMap.beatAtTime(currentTime) - 1e-9));
   }
 
   getBeatGridPoints(duration: number, subdivision: number = 4): number[] {
     const points: number[] = [];
-    const beatDuration = 60 / this.bpm;
-    const subdivisionDuration = beatDuration / subdivision;
-    
-    for (let time = 0; time <= duration; time += subdivisionDuration) {
+    for (let step = 0; ; step++) {
+      const time = this.tempoMap.timeAtBeat(step / subdivision);
+      if (time > duration) break;
       points.push(time);
     }
     
@@ -179,4 +356,4 @@ export class MetronomeService {
   }
 }
 
-export const MetronomeEngine = new MetronomeService();
\ No newline at end of file
+export const MetronomeEngine = new MetronomeService();
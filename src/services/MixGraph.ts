@@ -0,0 +1,208 @@
+import type { AudioTrack, MixBus } from './ProjectManager';
+import { EffectChain } from './TrackEffects';
+import { MasterLimiter, type MasterLimiterSettings } from './MasterLimiter';
+
+/**
+ * Signal path shared by live playback and the offline mixdown, so a project
+ * sounds the same in the headphones as in the exported file. Both build
+ * their graph from these helpers on whatever context they render with.
+ *
+ *   clip source → clip fades → [declick] → strip.input → inserts → mute → fader → automation → pan → strip.output → group bus or master
+ *                                                                   ↳ pre-fader sends                 ↳ post-fader sends → aux buses
+ *   bus.input → inserts → fader → pan → bus.output (mute/solo) → master
+ *   master.input (master volume) → true-peak limiter → output
+ */
+
+export interface TrackSendNode {
+  tap: AudioNode;
+  gain: GainNode;
+}
+
+export interface TrackStrip {
+  input: GainNode; // clip sources connect here
+  effects: EffectChain;
+  mute: GainNode; // track mute/solo, ahead of the sends so a muted track sends nothing
+  fader: GainNode; // track volume, after the inserts
+  automation: GainNode; // volume automation, scaling the fader
+  panner: StereoPannerNode; // static pan or pan automation
+  output: GainNode; // silenced when a bus is soloed and this track bypasses the buses
+  sends: Map<string, TrackSendNode>;
+}
+
+export interface MasterSettings {
+  volume: number;
+  limiter: MasterLimiterSettings;
+}
+
+export interface MasterStrip {
+  input: GainNode; // tracks and buses sum here; its gain is the master volume
+  limiter: MasterLimiter;
+  output: AudioNode;
+}
+
+export interface BusStrip {
+  bus: MixBus;
+  input: GainNode; // routed tracks and sends connect here
+  effects: EffectChain;
+  fader: GainNode;
+  panner: StereoPannerNode;
+  output: GainNode; // bus mute/solo
+}
+
+export const clampVolume = (volume: number | undefined): number =>
+  volume === undefined ? 1 : Math.max(0, Math.min(1, volume));
+
+// -1 is hard left, 0 centre, 1 hard right
+export const clampPan = (pan: number | undefined): number =>
+  Math.max(-1, Math.min(1, pan || 0));
+
+// Soloing a bus silences every other bus and every track that doesn't pass through one
+export const isBusAudible = (bus: MixBus, buses: MixBus[]): boolean =>
+  !bus.isMuted && (!buses.some(other => other.isSolo) || !!bus.isSolo);
+
+const groupOf = (track: AudioTrack, busStrips: Map<string, BusStrip>): BusStrip | undefined => {
+  const group = track.output ? busStrips.get(track.output) : undefined;
+  return group?.bus.kind === 'group' ? group : undefined;
+};
+
+export const trackRouteGain = (track: AudioTrack, busStrips: Map<string, BusStrip>): number => {
+  if (groupOf(track, busStrips)) return 1;
+  return Array.from(busStrips.values()).some(strip => strip.bus.isSolo) ? 0 : 1;
+};
+
+/**
+ * Insert effects → mute → volume → automation → equal-power stereo panner → output.
+ * StereoPannerNode pans mono clips with the equal-power law (-3 dB per side
+ * at centre) and balances stereo clips, identically on realtime and offline
+ * contexts.
+ */
+export function createTrackStrip(
+  context: BaseAudioContext,
+  track: AudioTrack,
+  busStrips: Map<string, BusStrip>,
+  master: AudioNode
+): TrackStrip {
+  const input = context.createGain();
+  const effects = new EffectChain(context, track.effects);
+  const mute = context.createGain();
+
+  const fader = context.createGain();
+  fader.gain.value = clampVolume(track.volume);
+
+  const automation = context.createGain();
+
+  const panner = context.createStereoPanner();
+  panner.pan.value = clampPan(track.pan);
+
+  const output = context.createGain();
+
+  input.connect(effects.input);
+  effects.output.connect(mute);
+  mute.connect(fader);
+  fader.connect(automation);
+  automation.connect(panner);
+  panner.connect(output);
+
+  const strip: TrackStrip = { input, effects, mute, fader, automation, panner, output, sends: new Map() };
+  routeTrackStrip(strip, track, busStrips, master);
+  return strip;
+}
+
+/**
+ * (Re)connect a track's output and sends to the current buses. A group that
+ * no longer exists falls back to the master; sends to missing aux buses are
+ * dropped.
+ */
+export function routeTrackStrip(strip: TrackStrip, track: AudioTrack, busStrips: Map<string, BusStrip>, master: AudioNode): void {
+  const context = strip.input.context;
+
+  strip.output.disconnect();
+  strip.sends.forEach(({ tap, gain }) => {
+    tap.disconnect(gain);
+    gain.disconnect();
+  });
+  strip.sends.clear();
+
+  strip.output.connect(groupOf(track, busStrips)?.input ?? master);
+  strip.output.gain.value = trackRouteGain(track, busStrips);
+
+  for (const send of track.sends ?? []) {
+    const aux = busStrips.get(send.busId);
+    if (aux?.bus.kind !== 'aux') continue;
+
+    const gain = context.createGain();
+    gain.gain.value = clampVolume(send.level);
+    const tap = send.preFader ? strip.mute : strip.panner;
+    tap.connect(gain);
+    gain.connect(aux.input);
+    strip.sends.set(send.busId, { tap, gain });
+  }
+}
+
+export function disconnectTrackStrip(strip: TrackStrip): void {
+  strip.output.disconnect();
+  strip.sends.forEach(({ gain }) => gain.disconnect());
+  strip.effects.dispose();
+}
+
+export function createBusStrip(context: BaseAudioContext, bus: MixBus, buses: MixBus[], master: AudioNode): BusStrip {
+  const input = context.createGain();
+  const effects = new EffectChain(context, bus.effects);
+
+  const fader = context.createGain();
+  fader.gain.value = clampVolume(bus.volume);
+
+  const panner = context.createStereoPanner();
+  panner.pan.value = clampPan(bus.pan);
+
+  const output = context.createGain();
+  output.gain.value = isBusAudible(bus, buses) ? 1 : 0;
+
+  input.connect(effects.input);
+  effects.output.connect(fader);
+  fader.connect(panner);
+  panner.connect(output);
+  output.connect(master);
+  return { bus, input, effects, fader, panner, output };
+}
+
+export function disconnectBusStrip(strip: BusStrip): void {
+  strip.output.disconnect();
+  strip.effects.dispose();
+}
+
+/**
+ * Master volume and limiter. Load the limiter on the context first
+ * (`loadMasterLimiter`) and say whether it loaded.
+ */
+export function createMasterStrip(
+  context: BaseAudioContext,
+  settings: MasterSettings,
+  destination: AudioNode,
+  useWorklet: boolean
+): MasterStrip {
+  const input = context.createGain();
+  input.gain.value = clampVolume(settings.volume);
+
+  const limiter = new MasterLimiter(context, settings.limiter, useWorklet);
+  input.connect(limiter.input);
+  limiter.output.connect(destination);
+  return { input, limiter, output: limiter.output };
+}
+
+/**
+ * Where a clip sits on the timeline and which part of its audio plays.
+ */
+export interface ClipWindow {
+  start: number; // timeline seconds
+  trimStart: number; // seconds into the audio
+  trimEnd: number;
+}
+
+export function clipWindow(track: AudioTrack, buffer: AudioBuffer): ClipWindow {
+  return {
+    start: track.startTime || 0,
+    trimStart: track.trimStart || 0,
+    trimEnd: Math.min(track.trimEnd || track.duration || buffer.duration, buffer.duration),
+  };
+}
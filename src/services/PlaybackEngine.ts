@@ -1,13 +1,103 @@
-import { AudioTrack } from './ProjectManager';
+import { AudioTrack, type MixBus } from './ProjectManager';
+import { AudioStore } from './AudioStore';
+import {
+  clampPan,
+  clampVolume,
+  clipWindow,
+  createBusStrip,
+  createMasterStrip,
+  createTrackStrip,
+  disconnectBusStrip,
+  disconnectTrackStrip,
+  isBusAudible,
+  routeTrackStrip,
+  trackRouteGain,
+  type BusStrip,
+  type MasterSettings,
+  type MasterStrip,
+  type TrackStrip,
+} from './MixGraph';
+import type { TrackEffect } from './TrackEffects';
+import { scheduleAutomation, type TrackAutomation } from './Automation';
+import { clipEnvelopes, scheduleClipFades, type ClipEnvelope } from './ClipFades';
+import { MASTER_METER_ID, Metering } from './Metering';
+import { DEFAULT_MASTER_LIMITER, loadMasterLimiter, type MasterLimiterSettings } from './MasterLimiter';
+
+// How far ahead of the audio clock sources are handed to the context
+const SCHEDULE_AHEAD_SECONDS = 0.2;
+const SCHEDULER_INTERVAL_MS = 25;
+// Head start for the transport so the first sources are never scheduled in the past
+const START_LATENCY_SECONDS = 0.05;
+// Length of the gain ramps that keep starts, stops and mutes mid-clip from clicking
+const DECLICK_SECONDS = 0.01;
+
+// Shortest loop the transport will cycle
+const MIN_LOOP_SECONDS = 0.05;
+
+export interface LoopRegion {
+  start: number; // timeline seconds
+  end: number;
+}
+
+interface ScheduledSource {
+  trackId: string;
+  source: AudioBufferSourceNode;
+  fade: GainNode;
+}
+
+/**
+ * A stretch of the timeline as the transport plays it: `position` is heard
+ * at context time `startTime`, running on until `endTime`.
+ */
+export interface TransportSegment {
+  startTime: number;
+  position: number;
+  endTime: number;
+}
+
+/**
+ * One uninterrupted run of the timeline: `position` plays at context time
+ * `startTime` until `endTime`. Play and seek start a new pass; in cycle mode
+ * each trip through the loop is queued as another pass that starts exactly
+ * where the previous one ends.
+ */
+interface TransportPass extends TransportSegment {
+  // endTime is Infinity unless the pass runs into the loop end
+  isCycle: boolean;
+  scheduledTrackIds: Set<string>;
+}
+
+interface PreparedTrack {
+  track: AudioTrack;
+  buffer: AudioBuffer;
+  strip: TrackStrip; // mute gain is ramped so toggling mute/solo never clicks
+}
+
+// Which nodes a track connects to; send levels alone can change without reconnecting
+const routingOf = (track: AudioTrack): string =>
+  [track.output ?? '', ...(track.sends ?? []).map(send => `${send.busId}:${send.preFader ? 'pre' : 'post'}`)].join('|');
+
+const busLayoutOf = (buses: MixBus[]): string =>
+  buses.map(bus => `${bus.id}:${bus.kind}`).join('|');
 
 export class PlaybackEngineService {
   private audioContext: AudioContext | null = null;
   private isPlaying: boolean = false;
-  private startTime: number = 0;
   private pauseTime: number = 0;
-  private playingSources: Map<string, AudioBufferSourceNode> = new Map();
-  private trackGainNodes: Map<string, GainNode> = new Map();
-  private masterGainNode: GainNode | null = null;
+  // Current pass first, upcoming loop passes after it
+  private passes: TransportPass[] = [];
+  private loopRegion: LoopRegion | null = null;
+  private playSession: number = 0;
+  private schedulerTimer?: ReturnType<typeof setInterval>;
+  private preparedTracks: Map<string, PreparedTrack> = new Map();
+  private activeSources: Set<ScheduledSource> = new Set();
+  private soloTrackIds: Set<string> = new Set();
+  private buses: MixBus[] = [];
+  private busStrips: Map<string, BusStrip> = new Map();
+  private master: MasterSettings = { volume: 1, limiter: DEFAULT_MASTER_LIMITER };
+  private masterStrip: MasterStrip | null = null;
+  private masterGainNode: GainNode | null = null; // the master strip's input
+  private masterReady: Promise<void> | null = null;
   private onTimeUpdateCallback?: (currentTime: number) => void;
   private animationFrameId?: number;
   
@@ -18,21 +108,31 @@ export class PlaybackEngineService {
   async initialize(): Promise<void> {
     if (!this.audioContext) {
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      this.masterGainNode = this.audioContext.createGain();
-      this.masterGainNode.connect(this.audioContext.destination);
+      this.masterReady = this.buildMasterStrip(this.audioContext);
     }
+    await this.masterReady;
 
     if (this.audioContext.state === 'suspended') {
       await this.audioContext.resume();
     }
   }
 
-  async playTracks(tracks: AudioTrack[], currentTimelinePosition: number = 0): Promise<void> {
+  /**
+   * Start playback from a timeline position. Every clip is decoded first;
+   * only then is the transport clock started, and each source is scheduled
+   * against that one start time so tracks stay sample-aligned no matter how
+   * many there are or how long decoding took.
+   *
+   * Muted tracks are prepared too (silently) so they can be unmuted, or
+   * soloed, without restarting playback.
+   */
+  async playTracks(tracks: AudioTrack[], currentTimelinePosition: number = 0, soloTrackIds: Set<string> = new Set()): Promise<void> {
     await this.initialize();
     
     console.log('PlayTracks called with:', {
       trackCount: tracks.length,
       currentTimelinePosition,
+      soloTracks: soloTrackIds.size,
       trackDetails: tracks.map(t => ({
         id: t.id,
         name: t.name,
@@ -41,7 +141,7 @@ export class PlaybackEngineService {
         trimEnd: t.trimEnd,
         duration: t.duration,
         isMuted: t.isMuted,
-        hasAudioData: !!t.audioData
+        hasAudioData: AudioStore.hasTrackAudio(t)
       }))
     });
     
@@ -49,7 +149,7 @@ export class PlaybackEngineService {
       this.stop();
     }
 
-    const validTracks = tracks.filter(track => track.audioData && !track.isMuted);
+    const validTracks = tracks.filter(track => AudioStore.hasTrackAudio(track));
     console.log('Valid tracks after filtering:', validTracks.length);
     
     if (validTracks.length === 0) {
@@ -57,183 +157,497 @@ export class PlaybackEngineService {
       return;
     }
 
-    this.isPlaying = true;
-    this.startTime = this.audioContext!.currentTime;
+    this.soloTrackIds = new Set(soloTrackIds);
+    const session = ++this.playSession;
+    const prepared = await this.prepareTracks(validTracks);
 
-    // Schedule tracks based on their timeline positions
-    for (const track of validTracks) {
-      console.log(`Attempting to play track: ${track.name}`);
-      await this.playTrackWithTiming(track, currentTimelinePosition);
+    // Stopped, or started again, while we were decoding
+    if (session !== this.playSession) {
+      prepared.forEach(p => disconnectTrackStrip(p.strip));
+      return;
     }
+    if (prepared.length === 0) {
+      console.log('No tracks could be prepared for playback');
+      return;
+    }
+
+    prepared.forEach(p => this.addPreparedTrack(p));
+
+    this.startPass(Math.max(0, currentTimelinePosition), this.audioContext!.currentTime + START_LATENCY_SECONDS);
+    this.isPlaying = true;
+
+    this.scheduleAhead();
+    this.schedulerTimer = setInterval(() => this.scheduleAhead(), SCHEDULER_INTERVAL_MS);
 
     console.log('Started time update');
     this.startTimeUpdate();
   }
 
-  async playTrackWithTiming(track: AudioTrack, currentTimelinePosition: number): Promise<void> {
-    if (!this.audioContext || !track.audioData) return;
+  /**
+   * Apply edited tracks to the running mix: moved or trimmed clips are
+   * rescheduled, new clips are decoded and joined in, removed ones fade out.
+   * Untouched clips keep playing.
+   */
+  async updateTracks(tracks: AudioTrack[]): Promise<void> {
+    if (!this.isPlaying || !this.audioContext) return;
+
+    const session = this.playSession;
+    const nextTracks = tracks.filter(track => AudioStore.hasTrackAudio(track));
+    const nextIds = new Set(nextTracks.map(track => track.id));
+    const previousEnvelopes = this.clipEnvelopes();
+
+    for (const [trackId, prepared] of this.preparedTracks) {
+      if (!nextIds.has(trackId)) this.releaseTrack(prepared);
+    }
 
-    console.log(`Playing track ${track.name}:`, {
-      trackStartTime: track.startTime,
-      currentTimelinePosition,
-      trimStart: track.trimStart,
-      trimEnd: track.trimEnd,
-      duration: track.duration
-    });
+    const added: AudioTrack[] = [];
+    for (const track of nextTracks) {
+      const prepared = this.preparedTracks.get(track.id);
+      if (!prepared) {
+        added.push(track);
+        continue;
+      }
 
-    try {
-      const audioBuffer = await this.base64ToAudioBuffer(track.audioData);
-      
-      // Calculate timing based on track position and current timeline position
-      const trackStartTime = track.startTime || 0;
-      const trimStart = track.trimStart || 0;
-      const trimEnd = track.trimEnd || track.duration;
-      
-      // Check if the track should be playing at the current timeline position
-      // SIMPLER LOGIC: If we're playing from start (currentTimelinePosition = 0), play all tracks from their positions
-      if (currentTimelinePosition === 0) {
-        console.log(`Track ${track.name} PLAYING from start - no time filtering`);
-      } else if (currentTimelinePosition < trackStartTime || currentTimelinePosition >= trackStartTime + (trimEnd - trimStart)) {
-        // Track shouldn't be playing at this timeline position
-        console.log(`Track ${track.name} SKIPPED - outside time range`, {
-          currentTimelinePosition,
-          trackStartTime,
-          trackEndTime: trackStartTime + (trimEnd - trimStart),
-          reason: currentTimelinePosition < trackStartTime ? 'before start' : 'after end'
-        });
-        return;
+      const previous = prepared.track;
+      prepared.track = track;
+
+      if ((track.audioHash ?? track.audioData) !== (previous.audioHash ?? previous.audioData)) {
+        // Different audio needs decoding again
+        this.releaseTrack(prepared);
+        added.push(track);
+      }
+
+      if (track.volume !== previous.volume) {
+        this.rampParam(prepared.strip.fader.gain, clampVolume(track.volume));
+      }
+      if (track.pan !== previous.pan || JSON.stringify(track.automation ?? {}) !== JSON.stringify(previous.automation ?? {})) {
+        this.applyAutomation(prepared);
+      }
+      if (JSON.stringify(track.effects ?? []) !== JSON.stringify(previous.effects ?? [])) {
+        prepared.strip.effects.setEffects(track.effects);
+      }
+      if (routingOf(track) !== routingOf(previous)) {
+        routeTrackStrip(prepared.strip, track, this.busStrips, this.masterGainNode!);
       } else {
-        console.log(`Track ${track.name} SHOULD PLAY - in time range`);
+        for (const send of track.sends ?? []) {
+          const node = prepared.strip.sends.get(send.busId);
+          if (node) this.rampParam(node.gain.gain, clampVolume(send.level));
+        }
       }
-      
-      // Calculate how far into the track we should start playing
-      let offsetIntoTrack = 0;
-      let actualAudioOffset = trimStart;
-      
-      if (currentTimelinePosition > trackStartTime) {
-        offsetIntoTrack = currentTimelinePosition - trackStartTime;
-        actualAudioOffset = trimStart + offsetIntoTrack;
+      if (track.isMuted !== previous.isMuted) {
+        this.applyAudibility(prepared);
       }
-      
-      console.log(`Offset calculations:`, {
-        trackStartTime,
-        currentTimelinePosition,
-        offsetIntoTrack,
-        actualAudioOffset,
-        trimStart,
-        trimEnd
-      });
-      
-      // Only play if there's audio left to play
-      if (actualAudioOffset >= trimEnd) {
-        console.log(`Track ${track.name} - no audio left to play`, { actualAudioOffset, trimEnd });
+    }
+    this.rescheduleReshapedClips(previousEnvelopes);
+
+    if (added.length > 0) {
+      const prepared = await this.prepareTracks(added);
+      if (session !== this.playSession) {
+        prepared.forEach(p => disconnectTrackStrip(p.strip));
         return;
       }
-      
-      const source = this.audioContext.createBufferSource();
-      source.buffer = audioBuffer;
+      const envelopesBeforeAdding = this.clipEnvelopes();
+      prepared.forEach(p => {
+        this.addPreparedTrack(p);
+        this.applyAutomation(p);
+      });
+      // A new clip can start a crossfade with one already playing
+      this.rescheduleReshapedClips(envelopesBeforeAdding);
+    }
 
-      const trackGain = this.audioContext.createGain();
-      // Apply track volume
-      const volume = track.volume !== undefined ? track.volume : 1;
-      trackGain.gain.setValueAtTime(volume, this.audioContext.currentTime);
-      console.log(`🔊 Track ${track.name} volume set to ${volume}`);
+    this.scheduleAhead();
+  }
 
-      // Store the gain node for this track
-      this.trackGainNodes.set(track.id, trackGain);
+  setTrackMuted(trackId: string, isMuted: boolean): void {
+    const prepared = this.preparedTracks.get(trackId);
+    if (!prepared) return;
 
-      source.connect(trackGain);
-      trackGain.connect(this.masterGainNode!);
+    prepared.track = { ...prepared.track, isMuted };
+    this.applyAudibility(prepared);
+  }
 
-      // Calculate WHEN to start the audio based on track position
-      const audioContextStartTime = this.audioContext.currentTime;
-      let whenToStart = audioContextStartTime;
-      
-      // Calculate duration to play (respecting trim end)
-      const durationToPlay = trimEnd - actualAudioOffset;
-      
-      console.log(`🎵 Playback details for ${track.name}:`, {
-        actualAudioOffset,
-        trimEnd,
-        durationToPlay,
-        trackStartTime,
-        currentTimelinePosition
-      });
-      
-      // If playing from timeline start and track has a delayed start time
-      if (currentTimelinePosition === 0 && trackStartTime > 0) {
-        whenToStart = audioContextStartTime + trackStartTime;
-        console.log(`Track ${track.name} scheduled to start in ${trackStartTime} seconds`);
+  setSoloTracks(soloTrackIds: Set<string>): void {
+    this.soloTrackIds = new Set(soloTrackIds);
+    for (const prepared of this.preparedTracks.values()) {
+      this.applyAudibility(prepared);
+    }
+  }
+
+  /**
+   * Replace the project's buses. Level, pan, mute/solo and effect changes
+   * are applied to the running buses; adding, removing or retyping a bus
+   * rebuilds them and reconnects every track.
+   */
+  setBuses(buses: MixBus[]): void {
+    const previous = this.buses;
+    this.buses = buses.map(bus => ({ ...bus }));
+    if (!this.audioContext || !this.masterGainNode) return;
+
+    if (busLayoutOf(previous) !== busLayoutOf(this.buses)) {
+      this.buildBusStrips();
+      for (const prepared of this.preparedTracks.values()) {
+        routeTrackStrip(prepared.strip, prepared.track, this.busStrips, this.masterGainNode);
       }
+      return;
+    }
 
-      // Start playing from the calculated offset
-      const duration = trimEnd - actualAudioOffset;
-      console.log(`STARTING AUDIO for track ${track.name}:`, { 
-        whenToStart: whenToStart - audioContextStartTime,
-        actualAudioOffset, 
-        duration, 
-        trimStart, 
-        trimEnd,
-        audioBufferDuration: audioBuffer.duration
-      });
-      
-      source.start(whenToStart, actualAudioOffset, duration);
-      this.playingSources.set(track.id, source);
-      console.log(`Track ${track.name} added to playing sources. Total playing: ${this.playingSources.size}`);
-
-      source.onended = () => {
-        this.playingSources.delete(track.id);
-        this.trackGainNodes.delete(track.id);
-        if (this.playingSources.size === 0) {
-          this.isPlaying = false;
-          this.stopTimeUpdate();
-        }
+    for (const bus of this.buses) {
+      const strip = this.busStrips.get(bus.id);
+      if (!strip) continue;
+
+      if (JSON.stringify(bus.effects ?? []) !== JSON.stringify(strip.bus.effects ?? [])) {
+        strip.effects.setEffects(bus.effects);
+      }
+      strip.bus = bus;
+      this.rampParam(strip.fader.gain, clampVolume(bus.volume));
+      this.rampParam(strip.panner.pan, clampPan(bus.pan));
+      this.rampParam(strip.output.gain, isBusAudible(bus, this.buses) ? 1 : 0);
+    }
+    // Soloing a bus silences the tracks that bypass the buses
+    for (const prepared of this.preparedTracks.values()) {
+      this.rampParam(prepared.strip.output.gain, trackRouteGain(prepared.track, this.busStrips));
+    }
+  }
+
+  // The limiter has to be loaded into the context before anything can feed the master
+  private async buildMasterStrip(context: AudioContext): Promise<void> {
+    const useWorklet = await loadMasterLimiter(context);
+    this.masterStrip = createMasterStrip(context, this.master, context.destination, useWorklet);
+    this.masterGainNode = this.masterStrip.input;
+    // The master meter reads what actually leaves the app, after the limiter
+    Metering.attach(MASTER_METER_ID, this.masterStrip.output);
+    this.buildBusStrips();
+  }
+
+  private buildBusStrips(): void {
+    this.busStrips.forEach(strip => disconnectBusStrip(strip));
+    this.busStrips = new Map(this.buses.map(bus => [
+      bus.id,
+      createBusStrip(this.audioContext!, bus, this.buses, this.masterGainNode!),
+    ]));
+  }
+
+  // Decode all clips in parallel; a clip that fails to decode is left out
+  private async prepareTracks(tracks: AudioTrack[]): Promise<PreparedTrack[]> {
+    const results = await Promise.all(tracks.map(async (track): Promise<PreparedTrack | null> => {
+      try {
+        const buffer = await this.getTrackBuffer(track);
+        const strip = createTrackStrip(this.audioContext!, track, this.busStrips, this.masterGainNode!);
+        strip.mute.gain.value = this.isAudible(track) ? 1 : 0;
+        return { track, buffer, strip };
+      } catch (error) {
+        console.error(`Failed to prepare track ${track.name}:`, error);
+        return null;
+      }
+    }));
+    return results.filter((p): p is PreparedTrack => p !== null);
+  }
+
+  private addPreparedTrack(prepared: PreparedTrack): void {
+    this.preparedTracks.set(prepared.track.id, prepared);
+    // Track meters read post-fader, post-pan
+    Metering.attach(prepared.track.id, prepared.strip.panner);
+  }
+
+  private releaseTrack(prepared: PreparedTrack): void {
+    const trackId = prepared.track.id;
+    this.fadeOutSources(trackId);
+    this.preparedTracks.delete(trackId);
+    Metering.detach(trackId, prepared.strip.panner);
+
+    // Let the fade finish before cutting the track off the mix
+    setTimeout(() => disconnectTrackStrip(prepared.strip), DECLICK_SECONDS * 1000 * 4);
+  }
+
+  private clipEnvelopes(): Map<string, ClipEnvelope> {
+    return clipEnvelopes(Array.from(this.preparedTracks.values(), ({ track, buffer }) => ({
+      track,
+      window: clipWindow(track, buffer),
+    })));
+  }
+
+  /**
+   * Reschedule clips that were moved, trimmed or refaded, including those
+   * whose crossfade with a neighbouring clip changed.
+   */
+  private rescheduleReshapedClips(before: Map<string, ClipEnvelope>): void {
+    const after = this.clipEnvelopes();
+    for (const trackId of this.preparedTracks.keys()) {
+      const previous = before.get(trackId);
+      if (previous && JSON.stringify(previous) !== JSON.stringify(after.get(trackId))) {
+        this.fadeOutSources(trackId);
+        this.passes.forEach(pass => pass.scheduledTrackIds.delete(trackId));
+      }
+    }
+  }
+
+  // Soloed tracks play regardless of mute, as in the track list
+  private isAudible(track: AudioTrack): boolean {
+    return this.soloTrackIds.size > 0 ? this.soloTrackIds.has(track.id) : !track.isMuted;
+  }
+
+  private applyAudibility(prepared: PreparedTrack): void {
+    this.rampParam(prepared.strip.mute.gain, this.isAudible(prepared.track) ? 1 : 0);
+  }
+
+  private rampParam(param: AudioParam, value: number): void {
+    if (!this.audioContext) return;
+    const now = this.audioContext.currentTime;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    param.linearRampToValueAtTime(value, now + DECLICK_SECONDS);
+  }
+
+  /**
+   * Cycle between two timeline positions, or pass null to play straight
+   * through. While playing, the transport continues from the current position
+   * under the new loop.
+   */
+  setLoop(loop: LoopRegion | null): void {
+    const next = loop && loop.end - loop.start >= MIN_LOOP_SECONDS
+      ? { start: Math.max(0, loop.start), end: loop.end }
+      : null;
+    if (next?.start === this.loopRegion?.start && next?.end === this.loopRegion?.end) return;
+
+    this.loopRegion = next;
+    console.log('🔁 Loop', next ? `${next.start.toFixed(2)}s - ${next.end.toFixed(2)}s` : 'off');
+    if (this.isPlaying) {
+      this.seekTo(this.getCurrentTime());
+    }
+  }
+
+  getLoop(): LoopRegion | null {
+    return this.loopRegion;
+  }
+
+  private startPass(position: number, startTime: number): void {
+    // Playing from inside or before the loop runs into its end; from past it, straight on
+    const loop = this.loopRegion;
+    const endTime = loop && position < loop.end ? startTime + (loop.end - position) : Infinity;
+    this.passes = [{ startTime, position, endTime, isCycle: false, scheduledTrackIds: new Set() }];
+    this.preparedTracks.forEach(prepared => this.applyAutomation(prepared));
+  }
+
+  /**
+   * Hand every clip that starts before the lookahead horizon to the audio
+   * context. Start times are derived from the shared transport clock, never
+   * from when this runs, so timer jitter can't push tracks apart. In cycle
+   * mode the next trip through the loop is queued the same way, starting on
+   * the exact sample the current one stops.
+   */
+  private scheduleAhead(): void {
+    if (!this.audioContext || !this.isPlaying || this.passes.length === 0) return;
+    const now = this.audioContext.currentTime;
+    const horizon = now + SCHEDULE_AHEAD_SECONDS;
+
+    while (this.passes.length > 1 && this.passes[1].startTime <= now) {
+      this.passes.shift();
+    }
+
+    const loop = this.loopRegion;
+    let last = this.passes[this.passes.length - 1];
+    const passCount = this.passes.length;
+    while (loop && last.endTime <= horizon) {
+      last = {
+        startTime: last.endTime,
+        position: loop.start,
+        endTime: last.endTime + (loop.end - loop.start),
+        isCycle: true,
+        scheduledTrackIds: new Set(),
       };
-    } catch (error) {
-      console.error(`Failed to play track ${track.name}:`, error);
+      this.passes.push(last);
+    }
+    if (this.passes.length > passCount) {
+      // Automation restarts with each trip through the loop
+      this.preparedTracks.forEach(prepared => this.applyAutomation(prepared));
+    }
+
+    const envelopes = this.clipEnvelopes();
+    for (const pass of this.passes) {
+      if (pass.startTime > horizon) break;
+      // Clips rescheduled mid-play join in as soon as the context allows
+      const earliest = Math.max(pass.startTime, now + DECLICK_SECONDS);
+
+      for (const prepared of this.preparedTracks.values()) {
+        const { track } = prepared;
+        if (pass.scheduledTrackIds.has(track.id)) continue;
+
+        // Playable stretch of the clip; a crossfade can end it before its trim end
+        const envelope = envelopes.get(track.id)!;
+        const { start: trackStartTime, trimStart } = envelope;
+        const trimEnd = trimStart + (envelope.end - envelope.start);
+
+        const when = Math.max(pass.startTime + (trackStartTime - pass.position), earliest);
+        if (when >= pass.endTime) {
+          // Starts after this pass wraps around
+          pass.scheduledTrackIds.add(track.id);
+          continue;
+        }
+        if (when > horizon) continue;
+
+        // Part of the clip already behind the playhead is skipped
+        const audioOffset = trimStart + (pass.position + (when - pass.startTime) - trackStartTime);
+        if (audioOffset >= trimEnd) {
+          pass.scheduledTrackIds.add(track.id);
+          continue;
+        }
+
+        const stopAt = Math.min(when + (trimEnd - audioOffset), pass.endTime);
+        this.startSource(prepared, when, audioOffset, stopAt - when, {
+          envelope,
+          // Entering a clip mid-way would click without a short fade-in; the
+          // loop seam is spliced sample-accurately instead so it stays gap-free
+          fadeIn: audioOffset - trimStart > 0.001 && (!pass.isCycle || when > pass.startTime),
+        });
+        pass.scheduledTrackIds.add(track.id);
+      }
+    }
+
+    this.checkFinished();
+  }
+
+  private startSource(
+    prepared: PreparedTrack,
+    when: number,
+    offset: number,
+    duration: number,
+    options: { envelope: ClipEnvelope; fadeIn: boolean }
+  ): void {
+    const context = this.audioContext!;
+    const { track } = prepared;
+    const { envelope } = options;
+
+    const source = context.createBufferSource();
+    source.buffer = prepared.buffer;
+    const clipFades = context.createGain();
+    scheduleClipFades(clipFades.gain, envelope, envelope.start + (offset - envelope.trimStart), when);
+    const fade = context.createGain();
+    source.connect(clipFades);
+    clipFades.connect(fade);
+    fade.connect(prepared.strip.input);
+
+    if (options.fadeIn) {
+      fade.gain.setValueAtTime(0, when);
+      fade.gain.linearRampToValueAtTime(1, when + DECLICK_SECONDS);
+    }
+
+    source.start(when, offset, duration);
+    const scheduled: ScheduledSource = { trackId: track.id, source, fade };
+    this.activeSources.add(scheduled);
+    console.log(`🎵 Scheduled ${track.name} at ${when.toFixed(3)}s from offset ${offset.toFixed(3)}s`);
+
+    source.onended = () => {
+      clipFades.disconnect();
+      fade.disconnect();
+      this.activeSources.delete(scheduled);
+      this.checkFinished();
+    };
+  }
+
+  private fadeOutSources(trackId: string): void {
+    if (!this.audioContext) return;
+    const stopAt = this.audioContext.currentTime + DECLICK_SECONDS;
+
+    for (const active of Array.from(this.activeSources)) {
+      if (active.trackId !== trackId) continue;
+      this.activeSources.delete(active);
+
+      this.rampParam(active.fade.gain, 0);
+      try {
+        active.source.stop(stopAt);
+      } catch (error) {
+        // Source might already be stopped
+      }
     }
   }
 
-  async playTrack(track: AudioTrack, offset: number = 0): Promise<void> {
-    // Legacy method for backward compatibility
-    return this.playTrackWithTiming(track, offset);
+  // Playback ends once every clip has been scheduled and has finished; a cycling loop never ends
+  private checkFinished(): void {
+    if (!this.isPlaying || this.activeSources.size > 0) return;
+    const current = this.passes[this.passes.length - 1];
+    if (!current || current.endTime !== Infinity) return;
+    for (const trackId of this.preparedTracks.keys()) {
+      if (!current.scheduledTrackIds.has(trackId)) return;
+    }
+
+    this.pauseTime = this.getCurrentTime();
+    this.isPlaying = false;
+    this.stopScheduler();
+    this.stopTimeUpdate();
+  }
+
+  private stopScheduler(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = undefined;
+    }
   }
 
   pause(): void {
     if (!this.isPlaying) return;
 
-    this.pauseTime = this.getCurrentTime();
+    const pausedAt = this.getCurrentTime();
     this.stop();
+    this.pauseTime = pausedAt;
   }
 
   stop(): void {
-    for (const source of this.playingSources.values()) {
-      try {
-        source.stop();
-      } catch (error) {
-        // Source might already be stopped
-      }
+    // Also cancels a playTracks() call that is still decoding
+    this.playSession++;
+    this.stopScheduler();
+
+    for (const prepared of this.preparedTracks.values()) {
+      this.releaseTrack(prepared);
     }
     
-    this.playingSources.clear();
-    this.trackGainNodes.clear();
+    this.activeSources.clear();
+    this.passes = [];
+    this.preparedTracks.clear();
     this.isPlaying = false;
     this.pauseTime = 0;
     this.stopTimeUpdate();
   }
 
+  /**
+   * Move the playhead. While playing, the current sources fade out and the
+   * mix continues from the new position without stopping the transport.
+   */
   seekTo(time: number): void {
-    this.pauseTime = Math.max(0, time);
-    if (this.isPlaying) {
-      // Restart playback from new position
-      this.stop();
-      // Will be restarted by caller if needed
+    const position = Math.max(0, time);
+    if (!this.isPlaying || !this.audioContext) {
+      this.pauseTime = position;
+      return;
     }
+
+    for (const trackId of this.preparedTracks.keys()) {
+      this.fadeOutSources(trackId);
+    }
+
+    // New material starts as the old fades out
+    this.startPass(position, this.audioContext.currentTime + DECLICK_SECONDS);
+    this.scheduleAhead();
+  }
+
+  /**
+   * The current and queued transport passes, for anything that has to play
+   * in step with the mix (the metronome). Empty while stopped.
+   */
+  getTransport(): TransportSegment[] {
+    if (!this.isPlaying) return [];
+    return this.passes.map(({ startTime, position, endTime }) => ({ startTime, position, endTime }));
+  }
+
+  getAudioContext(): AudioContext | null {
+    return this.audioContext;
   }
 
   getCurrentTime(): number {
-    if (!this.audioContext || !this.isPlaying) return this.pauseTime;
-    return this.pauseTime + (this.audioContext.currentTime - this.startTime);
+    if (!this.audioContext || !this.isPlaying || this.passes.length === 0) return this.pauseTime;
+
+    const now = this.audioContext.currentTime;
+    const pass = this.passes.filter(p => p.startTime <= now).pop() ?? this.passes[0];
+    // Holds at the start position until the transport clock actually starts
+    return pass.position + Math.max(0, Math.min(now, pass.endTime) - pass.startTime);
   }
 
   setOnTimeUpdate(callback: (currentTime: number) => void): void {
@@ -257,11 +671,17 @@ export class PlaybackEngineService {
     }
   }
 
-  private async base64ToAudioBuffer(base64Data: string): Promise<AudioBuffer> {
+  private async getTrackBuffer(track: AudioTrack): Promise<AudioBuffer> {
+    const audioData = await AudioStore.getTrackAudio(track);
+    if (!audioData) throw new Error(`Track ${track.name} has no audio`);
+    return this.base64ToAudioBuffer(audioData, track.audioHash);
+  }
+
+  private async base64ToAudioBuffer(base64Data: string, audioHash?: string): Promise<AudioBuffer> {
     if (!this.audioContext) throw new Error('AudioContext not initialized');
 
-    // Check cache first
-    const cacheKey = base64Data.substring(0, 100); // Use first 100 chars as cache key
+    // Check cache first - stored clips are keyed by content hash
+    const cacheKey = audioHash || base64Data.substring(0, 100); // Fall back to first 100 chars
     if (this.audioBufferCache.has(cacheKey)) {
       return this.audioBufferCache.get(cacheKey)!;
     }
@@ -303,6 +723,7 @@ export class PlaybackEngineService {
   }
 
   setMasterVolume(volume: number): void {
+    this.master = { ...this.master, volume: clampVolume(volume) };
     if (this.masterGainNode) {
       // Ensure volume remains constant during recording - no automatic ducking
       this.masterGainNode.gain.setValueAtTime(
@@ -312,14 +733,50 @@ export class PlaybackEngineService {
     }
   }
 
+  setMasterLimiter(limiter: MasterLimiterSettings): void {
+    this.master = { ...this.master, limiter };
+    this.masterStrip?.limiter.setSettings(limiter);
+  }
+
   updateTrackVolume(trackId: string, volume: number): void {
-    const gainNode = this.trackGainNodes.get(trackId);
-    if (gainNode && this.audioContext) {
-      const clampedVolume = Math.max(0, Math.min(1, volume));
-      gainNode.gain.setValueAtTime(clampedVolume, this.audioContext.currentTime);
+    const prepared = this.preparedTracks.get(trackId);
+    if (prepared && this.audioContext) {
+      const clampedVolume = clampVolume(volume);
+      prepared.track = { ...prepared.track, volume: clampedVolume };
+      prepared.strip.fader.gain.setValueAtTime(clampedVolume, this.audioContext.currentTime);
       console.log(`🔊 Updated track ${trackId} volume to ${clampedVolume} (without restarting)`);
     }
   }
+
+  updateTrackPan(trackId: string, pan: number): void {
+    const prepared = this.preparedTracks.get(trackId);
+    if (!prepared) return;
+
+    prepared.track = { ...prepared.track, pan };
+    this.applyAutomation(prepared);
+  }
+
+  /**
+   * Follow the track's automation lanes through the current and queued
+   * passes. Without pan points the static pan applies.
+   */
+  private applyAutomation(prepared: PreparedTrack): void {
+    if (!this.audioContext || this.passes.length === 0) return;
+    const now = this.audioContext.currentTime;
+    const automation: TrackAutomation = prepared.track.automation ?? {};
+
+    scheduleAutomation(prepared.strip.automation.gain, automation.volume, this.passes, now, DECLICK_SECONDS, 1);
+    scheduleAutomation(prepared.strip.panner.pan, automation.pan, this.passes, now, DECLICK_SECONDS, clampPan(prepared.track.pan));
+  }
+
+  // New settings glide in; adding, removing or reordering effects swaps the chain
+  updateTrackEffects(trackId: string, effects: TrackEffect[]): void {
+    const prepared = this.preparedTracks.get(trackId);
+    if (!prepared) return;
+
+    prepared.track = { ...prepared.track, effects };
+    prepared.strip.effects.setEffects(effects);
+  }
 }
 
 export const PlaybackEngine = new PlaybackEngineService();
\ No newline at end of file
@@ -0,0 +1,190 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate';
+import type { Project } from './ProjectManager';
+import type { ClickSample } from './ClickSounds';
+import { AudioStore } from './AudioStore';
+import { parseProjectFile } from './ProjectMigrations';
+import { base64ToBytes, bytesToBase64, stripDataUrlPrefix } from './storage/base64';
+
+/**
+ * Portable single-file project bundle (`.riff`).
+ *
+ * A zip archive holding:
+ *   manifest.json          - bundle format marker and version, plus the MIME
+ *                            type of any audio that isn't WAV
+ *   project.json           - the full stored project (tracks reference audio by hash)
+ *   audio/<hash>.<ext>     - one file per distinct clip or click sample, with
+ *                            the extension of its type (`.wav` unless listed)
+ */
+
+export const BUNDLE_EXTENSION = '.riff';
+export const BUNDLE_MIME_TYPE = 'application/zip';
+
+const BUNDLE_FORMAT = 'riff-layer-muse-bundle';
+const BUNDLE_FORMAT_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+const PROJECT_FILE = 'project.json';
+const AUDIO_FOLDER = 'audio/';
+const AUDIO_MIME_PATTERN = /^audio\/[\w.+-]+$/;
+const WAV_MIME_TYPE = 'audio/wav';
+
+// Extensions that differ from the MIME subtype
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+};
+
+const audioPath = (audioHash: string, mimeType: string): string =>
+  `${AUDIO_FOLDER}${audioHash}.${AUDIO_EXTENSIONS[mimeType] ?? mimeType.split('/')[1].replace(/[^\w]/g, '')}`;
+
+// Custom metronome samples live in the AudioStore alongside the clips
+const clickSampleHashes = (project: Project): string[] => {
+  const samples = project.settings.click?.samples;
+  return [samples?.accent?.audioHash, samples?.normal?.audioHash].filter((hash): hash is string => !!hash);
+};
+
+interface BundleManifest {
+  format: string;
+  formatVersion: number;
+  exportedAt: string;
+  projectName: string;
+  audioTypes?: Record<string, string>; // hash -> MIME type, for audio that isn't WAV
+}
+
+class ProjectBundleService {
+  /**
+   * Pack a project and all of its audio into a zip archive.
+   */
+  async createBundle(project: Project): Promise<Uint8Array> {
+    console.log('📦 Bundling project:', project.name);
+
+    const tracks = await AudioStore.externalizeTracks(project.tracks);
+    const storedProject = AudioStore.toStoredProject({ ...project, tracks });
+
+    const manifest: BundleManifest = {
+      format: BUNDLE_FORMAT,
+      formatVersion: BUNDLE_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      projectName: project.name,
+    };
+
+    const files: Zippable = {
+      [PROJECT_FILE]: strToU8(JSON.stringify(storedProject, null, 2)),
+    };
+
+    const audioHashes = [...storedProject.tracks.map(track => track.audioHash), ...clickSampleHashes(storedProject)];
+    for (const audioHash of new Set(audioHashes)) {
+      if (!audioHash) continue;
+
+      const mimeType = await AudioStore.getMimeType(audioHash);
+      if (mimeType !== WAV_MIME_TYPE) {
+        manifest.audioTypes = { ...manifest.audioTypes, [audioHash]: mimeType };
+      }
+
+      const audioData = await AudioStore.loadAudio(audioHash);
+      // Audio doesn't compress well, store it as-is
+      files[audioPath(audioHash, mimeType)] = [base64ToBytes(stripDataUrlPrefix(audioData)), { level: 0 }];
+    }
+    files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+
+    const bundle = zipSync(files, { level: 6 });
+    console.log(`✅ Bundle ready: ${storedProject.tracks.length} tracks, ${bundle.byteLength} bytes`);
+    return bundle;
+  }
+
+  /**
+   * Unpack a bundle, write its audio into the AudioStore and return the project.
+   * The project gets a fresh ID when `existingIds` already contains its own.
+   */
+  async importBundle(data: Uint8Array, existingIds: Set<string> = new Set()): Promise<Project> {
+    let entries: Record<string, Uint8Array>;
+    try {
+      entries = unzipSync(data);
+    } catch (error) {
+      throw new Error(`Not a valid ${BUNDLE_EXTENSION} bundle: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const manifestData = entries[MANIFEST_FILE];
+    const projectData = entries[PROJECT_FILE];
+    if (!manifestData || !projectData) {
+      throw new Error(`Not a valid ${BUNDLE_EXTENSION} bundle: missing ${!manifestData ? MANIFEST_FILE : PROJECT_FILE}`);
+    }
+
+    const manifest = JSON.parse(strFromU8(manifestData)) as Partial<BundleManifest>;
+    if (manifest.format !== BUNDLE_FORMAT) {
+      throw new Error(`Not a valid ${BUNDLE_EXTENSION} bundle: unknown format`);
+    }
+    if ((manifest.formatVersion ?? 0) > BUNDLE_FORMAT_VERSION) {
+      throw new Error('This bundle was created by a newer version of the app');
+    }
+
+    const { project } = parseProjectFile(strFromU8(projectData));
+    console.log('📦 Importing bundle:', project.name);
+
+    // Audio the manifest doesn't list, or lists with a type that isn't audio, is WAV
+    const mimeTypeOf = (audioHash: string): string => {
+      const mimeType = manifest.audioTypes?.[audioHash];
+      return mimeType && AUDIO_MIME_PATTERN.test(mimeType) ? mimeType : WAV_MIME_TYPE;
+    };
+    const bundledAudio = (audioHash: string): Uint8Array | undefined =>
+      entries[audioPath(audioHash, mimeTypeOf(audioHash))];
+    const storeBundledAudio = (audioHash: string, audioBytes: Uint8Array): Promise<string> =>
+      AudioStore.storeAudio(`data:${mimeTypeOf(audioHash)};base64,${bytesToBase64(audioBytes)}`);
+
+    // Store every clip; the hash is recomputed from the bytes, so remap in case it differs
+    const hashMap = new Map<string, string>();
+    for (const track of project.tracks) {
+      if (!track.audioHash || hashMap.has(track.audioHash)) continue;
+
+      const audioBytes = bundledAudio(track.audioHash);
+      if (!audioBytes) {
+        throw new Error(`Bundle is missing audio for track "${track.name}"`);
+      }
+      hashMap.set(track.audioHash, await storeBundledAudio(track.audioHash, audioBytes));
+    }
+
+    for (const audioHash of clickSampleHashes(project)) {
+      if (hashMap.has(audioHash)) continue;
+
+      const audioBytes = bundledAudio(audioHash);
+      if (!audioBytes) {
+        throw new Error('Bundle is missing audio for the custom metronome click');
+      }
+      hashMap.set(audioHash, await storeBundledAudio(audioHash, audioBytes));
+    }
+
+    const click = project.settings.click;
+    const remapSample = (sample?: ClickSample): ClickSample | undefined =>
+      sample && { ...sample, audioHash: hashMap.get(sample.audioHash)! };
+
+    const imported: Project = {
+      ...project,
+      id: existingIds.has(project.id) ? Date.now().toString() : project.id,
+      tracks: project.tracks.map(track => track.audioHash
+        ? { ...track, audioHash: hashMap.get(track.audioHash) }
+        : track),
+      settings: click?.samples
+        ? {
+          ...project.settings,
+          click: {
+            ...click,
+            samples: { accent: remapSample(click.samples.accent), normal: remapSample(click.samples.normal) },
+          },
+        }
+        : project.settings,
+    };
+
+    if (imported.id !== project.id) {
+      console.log('🔀 Project ID already in use, imported as', imported.id);
+    }
+    console.log(`✅ Imported ${imported.tracks.length} tracks`);
+    return imported;
+  }
+
+  bundleFileName(project: Project): string {
+    return `${project.name.replace(/[^a-zA-Z0-9\-_]/g, '_')}${BUNDLE_EXTENSION}`;
+  }
+}
+
+export const ProjectBundle = new ProjectBundleService();
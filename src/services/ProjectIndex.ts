@@ -0,0 +1,251 @@
+import type { Project } from './ProjectManager';
+import { AudioStore, PEAKS_PER_SECOND } from './AudioStore';
+import { ProjectValidationError, parseProjectFile } from './ProjectMigrations';
+import { getStorageBackend, STORAGE_COLLECTIONS, type StorageBackend } from './storage';
+
+/**
+ * Lightweight project library.
+ *
+ * One small document holds the metadata of every saved project, so the
+ * library can be listed, searched and sorted without reading project files
+ * or any audio. Entries are refreshed whenever ProjectManager saves or
+ * deletes a project; files the index doesn't know yet are picked up the next
+ * time it is read.
+ */
+
+const INDEX_DOCUMENT = 'index';
+const INDEX_VERSION = 1;
+const THUMBNAIL_POINTS = 48;
+
+export interface ProjectIndexEntry {
+  id: string;
+  name: string;
+  tags: string[];
+  tempo: number;
+  duration: number; // seconds, end of the last clip
+  trackCount: number;
+  createdAt: string;
+  lastModified: string;
+  thumbnail: number[]; // THUMBNAIL_POINTS peak values (0-1) across the whole song
+}
+
+export type ProjectSortKey = 'lastModified' | 'createdAt' | 'name' | 'duration' | 'tempo';
+
+export interface ProjectLibraryQuery {
+  search?: string;
+  tags?: string[]; // entries must carry every one of these
+  sortBy?: ProjectSortKey;
+}
+
+interface StoredIndex {
+  version: number;
+  entries: ProjectIndexEntry[];
+}
+
+const trackEnd = (track: Project['tracks'][number]): number =>
+  (track.startTime || 0) + Math.max(0, (track.trimEnd || track.duration) - (track.trimStart || 0));
+
+export const projectDuration = (project: Project): number =>
+  project.tracks.reduce((end, track) => Math.max(end, trackEnd(track)), 0);
+
+/**
+ * Filter and sort index entries. Search matches names and tags; newest first
+ * for dates, shortest/slowest first for duration and tempo.
+ */
+export function queryProjects(entries: ProjectIndexEntry[], query: ProjectLibraryQuery): ProjectIndexEntry[] {
+  const search = query.search?.trim().toLowerCase() ?? '';
+  const requiredTags = (query.tags ?? []).map(tag => tag.toLowerCase());
+
+  const matches = entries.filter(entry => {
+    const entryTags = entry.tags.map(tag => tag.toLowerCase());
+    if (!requiredTags.every(tag => entryTags.includes(tag))) return false;
+    if (!search) return true;
+    return entry.name.toLowerCase().includes(search) || entryTags.some(tag => tag.includes(search));
+  });
+
+  const byDate = (key: 'lastModified' | 'createdAt') =>
+    (a: ProjectIndexEntry, b: ProjectIndexEntry) => new Date(b[key]).getTime() - new Date(a[key]).getTime();
+
+  switch (query.sortBy ?? 'lastModified') {
+    case 'name':
+      return matches.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true }));
+    case 'duration':
+      return matches.sort((a, b) => a.duration - b.duration);
+    case 'tempo':
+      return matches.sort((a, b) => a.tempo - b.tempo);
+    case 'createdAt':
+      return matches.sort(byDate('createdAt'));
+    default:
+      return matches.sort(byDate('lastModified'));
+  }
+}
+
+/**
+ * Every tag in use, most used first.
+ */
+export function collectTags(entries: ProjectIndexEntry[]): string[] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    for (const tag of entry.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return Array.from(counts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+}
+
+class ProjectIndexService {
+  private entries: Map<string, ProjectIndexEntry> | null = null;
+  private loadFailures: ProjectValidationError[] = [];
+  // Index writes are serialized so concurrent saves can't drop each other's entries
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * All indexed projects. Project files the index is missing are read once
+   * and added; entries whose file is gone are dropped.
+   */
+  async getEntries(): Promise<ProjectIndexEntry[]> {
+    const backend = await getStorageBackend();
+    const entries = await this.loadEntries(backend);
+    const projectIds = new Set(await backend.listDocuments(STORAGE_COLLECTIONS.projects));
+
+    this.loadFailures = [];
+    let changed = false;
+
+    for (const id of Array.from(entries.keys())) {
+      if (!projectIds.has(id)) {
+        entries.delete(id);
+        changed = true;
+      }
+    }
+
+    for (const projectId of projectIds) {
+      if (entries.has(projectId)) continue;
+      try {
+        const data = await backend.readDocument(STORAGE_COLLECTIONS.projects, projectId);
+        if (!data) continue;
+
+        const { project } = parseProjectFile(data, projectId);
+        entries.set(projectId, await this.buildEntry(project));
+        changed = true;
+        console.log('🗂️ Indexed:', project.name);
+      } catch (error) {
+        console.error(`❌ Failed to index ${projectId}:`, error instanceof Error ? error.message : error);
+        this.loadFailures.push(error instanceof ProjectValidationError
+          ? error
+          : new ProjectValidationError('(root)', error instanceof Error ? error.message : 'Unreadable file', projectId));
+      }
+    }
+
+    if (changed) await this.persist();
+    return Array.from(entries.values());
+  }
+
+  // Projects that could not be indexed during the last getEntries() call
+  getLoadFailures(): ProjectValidationError[] {
+    return [...this.loadFailures];
+  }
+
+  async updateProject(project: Project): Promise<ProjectIndexEntry> {
+    const backend = await getStorageBackend();
+    const entries = await this.loadEntries(backend);
+    const entry = await this.buildEntry(project);
+
+    entries.set(project.id, entry);
+    await this.persist();
+    return entry;
+  }
+
+  async removeProject(projectId: string): Promise<void> {
+    const backend = await getStorageBackend();
+    const entries = await this.loadEntries(backend);
+    if (entries.delete(projectId)) {
+      await this.persist();
+    }
+  }
+
+  private async buildEntry(project: Project): Promise<ProjectIndexEntry> {
+    const duration = projectDuration(project);
+    return {
+      id: project.id,
+      name: project.name,
+      tags: project.tags ?? [],
+      tempo: project.settings.tempo,
+      duration,
+      trackCount: project.tracks.length,
+      createdAt: project.createdAt,
+      lastModified: project.lastModified,
+      thumbnail: await this.buildThumbnail(project, duration),
+    };
+  }
+
+  // Loudest unmuted clip at each point of the timeline
+  private async buildThumbnail(project: Project, duration: number): Promise<number[]> {
+    const thumbnail = new Array<number>(THUMBNAIL_POINTS).fill(0);
+    if (duration <= 0) return thumbnail;
+
+    for (const track of project.tracks) {
+      if (track.isMuted || !track.audioHash) continue;
+
+      let peaks: number[] | null = null;
+      try {
+        peaks = await AudioStore.getPeaks(track.audioHash);
+      } catch (error) {
+        console.warn('⚠️ No peaks for', track.name, error instanceof Error ? error.message : error);
+      }
+      if (!peaks) continue;
+
+      const start = track.startTime || 0;
+      const trimStart = track.trimStart || 0;
+      const end = trackEnd(track);
+
+      for (let point = 0; point < THUMBNAIL_POINTS; point++) {
+        const pointStart = (point / THUMBNAIL_POINTS) * duration;
+        const pointEnd = ((point + 1) / THUMBNAIL_POINTS) * duration;
+        if (pointEnd <= start || pointStart >= end) continue;
+
+        const from = Math.floor((Math.max(pointStart, start) - start + trimStart) * PEAKS_PER_SECOND);
+        const to = Math.ceil((Math.min(pointEnd, end) - start + trimStart) * PEAKS_PER_SECOND);
+        for (let i = from; i < Math.min(to, peaks.length); i++) {
+          thumbnail[point] = Math.max(thumbnail[point], peaks[i] * track.volume);
+        }
+      }
+    }
+
+    return thumbnail.map(value => Math.round(Math.min(1, value) * 100) / 100);
+  }
+
+  private async loadEntries(backend: StorageBackend): Promise<Map<string, ProjectIndexEntry>> {
+    if (this.entries) return this.entries;
+
+    const entries = new Map<string, ProjectIndexEntry>();
+    try {
+      const data = await backend.readDocument(STORAGE_COLLECTIONS.library, INDEX_DOCUMENT);
+      const stored = data ? (JSON.parse(data) as StoredIndex) : null;
+      // An index from another version is simply rebuilt from the project files
+      if (stored?.version === INDEX_VERSION && Array.isArray(stored.entries)) {
+        stored.entries.forEach(entry => entries.set(entry.id, entry));
+      }
+    } catch (error) {
+      console.warn('⚠️ Project index unreadable, rebuilding:', error instanceof Error ? error.message : error);
+    }
+
+    this.entries = entries;
+    return entries;
+  }
+
+  private persist(): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      try {
+        const backend = await getStorageBackend();
+        const index: StoredIndex = { version: INDEX_VERSION, entries: Array.from(this.entries?.values() ?? []) };
+        await backend.writeDocument(STORAGE_COLLECTIONS.library, INDEX_DOCUMENT, JSON.stringify(index));
+      } catch (error) {
+        // The index can always be rebuilt from the project files
+        console.warn('⚠️ Failed to write project index:', error instanceof Error ? error.message : error);
+      }
+    });
+    return this.writing;
+  }
+}
+
+export const ProjectIndex = new ProjectIndexService();
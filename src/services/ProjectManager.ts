@@ -1,11 +1,25 @@
+import { Capacitor } from '@capacitor/core';
 import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
-import { Share } from '@capacitor/share';
 import { Haptics, ImpactStyle } from '@capacitor/haptics';
+import { AudioStore } from './AudioStore';
+import { ProjectBundle } from './ProjectBundle';
+import { ProjectIndex } from './ProjectIndex';
+import { CURRENT_SCHEMA_VERSION, ProjectValidationError, parseProjectFile } from './ProjectMigrations';
+import { getStorageBackend, STORAGE_COLLECTIONS, type StorageBackend, type StorageBackendKind } from './storage';
+import { bytesToBase64 } from './storage/base64';
+import type { TrackEffect } from './TrackEffects';
+import type { TrackAutomation } from './Automation';
+import type { ClipFade } from './ClipFades';
+import type { MasterLimiterSettings } from './MasterLimiter';
+import type { ClickSettings } from './ClickSounds';
+import type { MeterEvent, TempoEvent } from '@/lib/tempoMap';
+import type { GrooveSettings, GrooveTemplate } from '@/lib/groove';
 
 export interface AudioTrack {
   id: string;
   name: string;
-  audioData: string; // base64 encoded audio data
+  audioData?: string; // base64 data URL, only held in memory (legacy files embedded it)
+  audioHash?: string; // content hash of the clip in the AudioStore
   audioBufferData?: {
     sampleRate: number;
     length: number;
@@ -17,220 +31,569 @@ export interface AudioTrack {
   isSolo?: boolean;
   isRecording?: boolean;
   volume: number;
+  pan?: number; // -1 (left) to 1 (right), centre when missing
+  effects?: TrackEffect[]; // insert chain, in processing order
+  output?: string; // id of the group bus this track feeds, master when missing
+  sends?: TrackSend[];
+  automation?: TrackAutomation; // volume/pan breakpoints on the timeline
   duration: number;
   startTime?: number; // Time when recording started on timeline
   trimStart?: number; // Trimmed start time within the audio
   trimEnd?: number; // Trimmed end time within the audio
+  fadeIn?: ClipFade;
+  fadeOut?: ClipFade;
+}
+
+export interface TrackSend {
+  busId: string; // aux bus
+  level: number; // 0-1
+  preFader: boolean; // taps before the track fader and pan
+}
+
+export type MixBusKind = 'group' | 'aux';
+
+/**
+ * Group buses sum the tracks routed to them; aux buses are fed by track
+ * sends, typically to share one reverb. Both end in the master.
+ */
+export interface MixBus {
+  id: string;
+  name: string;
+  kind: MixBusKind;
+  volume: number;
+  pan?: number;
+  isMuted: boolean;
+  isSolo?: boolean;
+  effects?: TrackEffect[];
+}
+
+export interface LoopSettings {
+  enabled: boolean; // cycle mode
+  start: number; // timeline seconds
+  end: number;
 }
 
 export interface Project {
+  schemaVersion: number; // see ProjectMigrations
   id: string;
   name: string;
   createdAt: string;
   lastModified: string;
+  tags?: string[];
   tracks: AudioTrack[];
+  buses?: MixBus[];
   settings: {
     masterVolume: number;
-    tempo: number;
-    timeSignature?: { numerator: number; denominator: number };
+    tempo: number; // at bar 1
+    tempoChanges?: TempoEvent[];
+    timeSignature?: { numerator: number; denominator: number }; // at bar 1
+    meterChanges?: MeterEvent[];
     metronomeEnabled?: boolean;
     metronomeVolume?: number;
+    click?: ClickSettings;
     snapToGrid?: boolean;
     gridSubdivision?: number;
+    groove?: GrooveSettings; // swing, feel and template shared by snapping and quantize
+    grooveTemplates?: GrooveTemplate[]; // extracted from this project's clips
+    loop?: LoopSettings;
+    limiter?: MasterLimiterSettings;
   };
 }
 
+export const DEFAULT_PROJECT_SETTINGS: Project['settings'] = {
+  masterVolume: 1,
+  tempo: 120,
+  timeSignature: { numerator: 4, denominator: 4 },
+  metronomeEnabled: false,
+  metronomeVolume: 0.5,
+  snapToGrid: true,
+  gridSubdivision: 4,
+};
+
+// Where projects lived before the storage backends existed (device only)
+const LEGACY_PROJECT_DIR = 'MusicLayers/Projects';
+
+// How many superseded versions of each project to keep
+const MAX_BACKUPS_PER_PROJECT = 5;
+
+export interface ProjectBackup {
+  id: string;
+  projectId: string;
+  name: string;
+  savedAt: string;
+  trackCount: number;
+}
+
+/**
+ * Single project repository: every project read and write goes through here,
+ * on top of whichever StorageBackend the platform provides.
+ */
 class ProjectManagerService {
-  private readonly PROJECT_DIR = 'MusicLayers/Projects';
-  private readonly AUDIO_DIR = 'MusicLayers/Audio';
+  private isCapacitorAvailable = false;
+  private isInitialized = false;
+  private memoryProjects: Map<string, Project> = new Map();
+  private backend: StorageBackend | null = null;
+  private loadFailures: ProjectValidationError[] = [];
+
+  async initialize() {
+    if (this.isInitialized) return;
+
+    console.log('🚀 ProjectManager initializing...');
 
-  async initialize(): Promise<void> {
     try {
-      // Create directories if they don't exist
-      await Filesystem.mkdir({
-        path: this.PROJECT_DIR,
-        directory: Directory.Documents,
-        recursive: true
-      });
-      
-      await Filesystem.mkdir({
-        path: this.AUDIO_DIR,
-        directory: Directory.Documents,
-        recursive: true
-      });
+      this.isCapacitorAvailable = Capacitor.isNativePlatform();
     } catch (error) {
-      console.log('Directories already exist or error creating them:', error);
+      console.warn('⚠️ Capacitor not available:', error);
+      this.isCapacitorAvailable = false;
     }
+    console.log('📱 Native platform detected:', this.isCapacitorAvailable);
+
+    // Filesystem on device, IndexedDB in the browser, memory as a last resort
+    this.backend = await getStorageBackend();
+    await AudioStore.initialize();
+    await this.migrateLegacyProjects(this.backend);
+
+    this.isInitialized = true;
+    console.log('✅ ProjectManager ready -', this.backend.isPersistent ? `PERSISTENT (${this.backend.kind})` : 'MEMORY-ONLY');
+  }
+
+  createNewProject(name: string): Project {
+    const project: Project = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      id: Date.now().toString(),
+      name,
+      createdAt: new Date().toISOString(),
+      lastModified: new Date().toISOString(),
+      tracks: [],
+      settings: structuredClone(DEFAULT_PROJECT_SETTINGS)
+    };
+
+    // Store in memory immediately
+    this.memoryProjects.set(project.id, project);
+    console.log('📝 Created project:', project.name, '| Storage:', this.getStorageMode());
+    
+    return project;
   }
 
   async saveProject(project: Project): Promise<void> {
+    console.log('💾 Saving project:', project.name);
+    
+    // Write new clips to the audio store so the project only references them by hash
+    const tracks = await AudioStore.externalizeTracks(project.tracks);
+    const projectWithAudioRefs = { ...project, tracks };
+
+    // Always save to memory first
+    this.memoryProjects.set(project.id, projectWithAudioRefs);
+
+    const backend = await this.getBackend();
+    if (!backend.isPersistent) {
+      console.warn('⚠️ Project saved to MEMORY ONLY - will be lost on app restart');
+    }
+
     try {
-      const projectData = JSON.stringify(project, null, 2);
-      const fileName = `${project.id}.json`;
-      
-      await Filesystem.writeFile({
-        path: `${this.PROJECT_DIR}/${fileName}`,
-        data: projectData,
-        directory: Directory.Documents,
-        encoding: Encoding.UTF8
-      });
+      const projectData = JSON.stringify(AudioStore.toStoredProject(projectWithAudioRefs), null, 2);
+
+      console.log('📝 Writing project to', backend.kind);
+      await this.writeWithBackup(backend, project.id, projectData);
+
+      // Verify write by reading back
+      console.log('🔍 Verifying write...');
+      const verifyRead = await backend.readDocument(STORAGE_COLLECTIONS.projects, project.id);
 
-      await Haptics.impact({ style: ImpactStyle.Light });
+      if (verifyRead) {
+        console.log('✅ Project saved and verified');
+      } else {
+        throw new Error('Verification failed - no data read back');
+      }
     } catch (error) {
-      console.error('Error saving project:', error);
-      throw error;
+      console.error('❌ Failed to save project:', error instanceof Error ? error.message : error);
+      throw error; // Don't silently fail
     }
+
+    // The project itself is safe at this point; a stale index entry is only cosmetic
+    await ProjectIndex.updateProject(projectWithAudioRefs).catch(error => {
+      console.warn('⚠️ Failed to update project index:', error instanceof Error ? error.message : error);
+    });
   }
 
-  async loadProject(projectId: string): Promise<Project | null> {
-    try {
-      const fileName = `${projectId}.json`;
-      const result = await Filesystem.readFile({
-        path: `${this.PROJECT_DIR}/${fileName}`,
-        directory: Directory.Documents,
-        encoding: Encoding.UTF8
-      });
+  /**
+   * Save a copy under a new id. Audio is shared through the AudioStore, so
+   * only the project file is duplicated.
+   */
+  async duplicateProject(projectId: string, name?: string): Promise<Project> {
+    const source = await this.loadProject(projectId);
+    const now = new Date().toISOString();
+    const copy: Project = {
+      ...structuredClone(AudioStore.toStoredProject(source)),
+      id: Date.now().toString(),
+      name: name ?? `${source.name} (copy)`,
+      createdAt: now,
+      lastModified: now,
+    };
+
+    await this.saveProject(copy);
+    console.log('📑 Duplicated', source.name, 'as', copy.name);
+    return copy;
+  }
 
-      return JSON.parse(result.data as string);
+  async setProjectTags(projectId: string, tags: string[]): Promise<Project> {
+    const project = await this.loadProject(projectId);
+    const uniqueTags = Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)));
+    const updated: Project = { ...project, tags: uniqueTags, lastModified: new Date().toISOString() };
+
+    await this.saveProject(updated);
+    return updated;
+  }
+
+  async loadProject(projectId: string): Promise<Project> {
+    console.log('📂 Loading project:', projectId);
+    
+    // Try memory first
+    const memoryProject = this.memoryProjects.get(projectId);
+    if (memoryProject) {
+      console.log('✅ Loaded from memory');
+      return memoryProject;
+    }
+
+    const backend = await this.getBackend();
+    try {
+      const data = await backend.readDocument(STORAGE_COLLECTIONS.projects, projectId);
+      if (data) {
+        const project = await this.migrateLoadedProject(data, projectId);
+        this.memoryProjects.set(projectId, project);
+        console.log('✅ Loaded from', backend.kind);
+        return project;
+      }
     } catch (error) {
-      console.error('Error loading project:', error);
-      return null;
+      console.error('❌ Failed to load project:', error instanceof Error ? error.message : error);
+      if (error instanceof ProjectValidationError) throw error;
     }
+
+    throw new Error(`Project ${projectId} not found`);
   }
 
   async getAllProjects(): Promise<Project[]> {
-    try {
-      const result = await Filesystem.readdir({
-        path: this.PROJECT_DIR,
-        directory: Directory.Documents
-      });
+    console.log('📂 Getting all projects...');
+    
+    const projects: Project[] = [];
+    
+    // Get from memory
+    projects.push(...Array.from(this.memoryProjects.values()));
+    console.log('💾 Projects in memory:', projects.length);
 
-      const projects: Project[] = [];
-      
-      for (const file of result.files) {
-        if (file.name.endsWith('.json')) {
-          const projectId = file.name.replace('.json', '');
-          const project = await this.loadProject(projectId);
-          if (project) {
+    // Read from storage if no projects in memory
+    const backend = await this.getBackend();
+    if (projects.length === 0) {
+      this.loadFailures = [];
+      try {
+        console.log('📂 Reading projects from', backend.kind);
+        const projectIds = await backend.listDocuments(STORAGE_COLLECTIONS.projects);
+        console.log('📁 Projects found:', projectIds.length);
+
+        for (const projectId of projectIds) {
+          try {
+            console.log('📖 Loading:', projectId);
+            const data = await backend.readDocument(STORAGE_COLLECTIONS.projects, projectId);
+            if (!data) continue;
+
+            const project = await this.migrateLoadedProject(data, projectId);
             projects.push(project);
+            this.memoryProjects.set(project.id, project);
+            console.log('✅ Loaded:', project.name);
+          } catch (error) {
+            console.error(`❌ Failed to load ${projectId}:`, error instanceof Error ? error.message : error);
+            this.loadFailures.push(error instanceof ProjectValidationError
+              ? error
+              : new ProjectValidationError('(root)', error instanceof Error ? error.message : 'Unreadable file', projectId));
           }
         }
+        
+        console.log('📊 Total projects loaded:', projects.length);
+      } catch (error) {
+        console.error('❌ Failed to read projects:', error instanceof Error ? error.message : error);
       }
-
-      // Sort by last modified (newest first)
-      return projects.sort((a, b) => 
-        new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime()
-      );
-    } catch (error) {
-      console.error('Error getting all projects:', error);
-      return [];
     }
+
+    return projects.sort((a, b) => 
+      new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime()
+    );
   }
 
   async deleteProject(projectId: string): Promise<void> {
-    try {
-      const fileName = `${projectId}.json`;
-      await Filesystem.deleteFile({
-        path: `${this.PROJECT_DIR}/${fileName}`,
-        directory: Directory.Documents
-      });
+    console.log('🗑️ Deleting project:', projectId);
+    
+    // Remove from memory
+    this.memoryProjects.delete(projectId);
 
-      await Haptics.impact({ style: ImpactStyle.Medium });
+    try {
+      const backend = await this.getBackend();
+      await backend.deleteDocument(STORAGE_COLLECTIONS.projects, projectId);
+      for (const backupId of await this.listBackupIds(backend, projectId)) {
+        await backend.deleteDocument(STORAGE_COLLECTIONS.backups, backupId);
+      }
+      await ProjectIndex.removeProject(projectId);
+      console.log('✅ Project deleted from', backend.kind);
+      await Haptics.impact({ style: ImpactStyle.Medium }).catch(() => undefined);
     } catch (error) {
-      console.error('Error deleting project:', error);
-      throw error;
+      console.warn('⚠️ Failed to delete project from storage:', error instanceof Error ? error.message : error);
     }
   }
 
-  async saveAudioFile(trackId: string, audioData: string): Promise<string> {
-    try {
-      const fileName = `${trackId}.wav`;
-      const filePath = `${this.AUDIO_DIR}/${fileName}`;
-      
-      await Filesystem.writeFile({
-        path: filePath,
-        data: audioData,
-        directory: Directory.Documents
-      });
+  /**
+   * Previously saved versions of a project, newest first.
+   */
+  async getBackups(projectId: string): Promise<ProjectBackup[]> {
+    const backend = await this.getBackend();
+    const backups: ProjectBackup[] = [];
 
-      return filePath;
-    } catch (error) {
-      console.error('Error saving audio file:', error);
-      throw error;
+    for (const backupId of await this.listBackupIds(backend, projectId)) {
+      try {
+        const data = await backend.readDocument(STORAGE_COLLECTIONS.backups, backupId);
+        if (!data) continue;
+
+        const stored = JSON.parse(data) as Partial<Project>;
+        backups.push({
+          id: backupId,
+          projectId,
+          name: stored.name ?? 'Untitled',
+          savedAt: stored.lastModified ?? new Date(this.backupTimestamp(backupId)).toISOString(),
+          trackCount: Array.isArray(stored.tracks) ? stored.tracks.length : 0,
+        });
+      } catch (error) {
+        console.warn('⚠️ Skipping unreadable backup:', backupId, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return backups.reverse();
+  }
+
+  /**
+   * Make a backup the current version. The version it replaces is backed up in turn.
+   */
+  async restoreBackup(projectId: string, backupId: string): Promise<Project> {
+    console.log('⏪ Restoring backup:', backupId);
+    const backend = await this.getBackend();
+
+    const data = await backend.readDocument(STORAGE_COLLECTIONS.backups, backupId);
+    if (!data) {
+      throw new Error('Backup not found');
+    }
+
+    const { project: restored } = parseProjectFile(data, projectId);
+    const project = { ...restored, id: projectId, lastModified: new Date().toISOString() };
+    await this.saveProject(project);
+
+    console.log('✅ Restored', project.name, 'from backup');
+    return project;
+  }
+
+  // Returns the content hash the audio is stored under
+  async saveAudioFile(audioData: string): Promise<string> {
+    return AudioStore.storeAudio(audioData);
+  }
+
+  /**
+   * Write a self-contained .riff bundle into the exports folder and return its name.
+   */
+  async exportProjectToFiles(project: Project): Promise<string> {
+    const backend = await this.getBackend();
+    const bundle = await ProjectBundle.createBundle(project);
+    const fileName = ProjectBundle.bundleFileName(project);
+
+    await backend.writeBlob(STORAGE_COLLECTIONS.exports, fileName, bytesToBase64(bundle));
+    await Haptics.impact({ style: ImpactStyle.Heavy }).catch(() => undefined);
+
+    console.log('📦 Exported project bundle:', fileName);
+    return fileName;
+  }
+
+  // Projects that failed validation during the last getAllProjects() scan
+  getLoadFailures(): ProjectValidationError[] {
+    return [...this.loadFailures];
+  }
+
+  // Upgrade to the current schema, then move inline base64 audio from older files into the audio store
+  private async migrateLoadedProject(data: string, projectId: string, rewrite = true): Promise<Project> {
+    const upgraded = parseProjectFile(data, projectId);
+    const { project, migrated } = await AudioStore.migrateProject(upgraded.project);
+
+    if (rewrite && (migrated || upgraded.migrated)) {
+      try {
+        const backend = await this.getBackend();
+        await this.writeWithBackup(backend, project.id, JSON.stringify(project, null, 2));
+        console.log('✅ Rewrote migrated project:', project.name);
+      } catch (error) {
+        console.warn('⚠️ Failed to rewrite migrated project:', error);
+      }
     }
+
+    return project;
   }
 
-  async exportProjectToFiles(project: Project): Promise<void> {
+  /**
+   * One-time move of projects saved by older builds under `MusicLayers/Projects`.
+   * Each legacy file is removed once its project is safely in the repository,
+   * so anything that fails is simply retried on the next launch.
+   */
+  private async migrateLegacyProjects(backend: StorageBackend): Promise<void> {
+    if (backend.kind !== 'filesystem') return;
+
+    let fileNames: string[];
     try {
-      // Create a folder for this project
-      const exportDir = `MusicLayers/Exports/${project.name}`;
-      await Filesystem.mkdir({
-        path: exportDir,
-        directory: Directory.Documents,
-        recursive: true
-      });
+      const result = await Filesystem.readdir({ path: LEGACY_PROJECT_DIR, directory: Directory.Documents });
+      fileNames = result.files.map(file => file.name).filter(name => name.endsWith('.json'));
+    } catch {
+      return; // Nothing to migrate on this install
+    }
+    if (fileNames.length === 0) return;
 
-      // Save each track as individual audio file
-      for (const track of project.tracks) {
-        const fileName = `${track.name.replace(/[^a-zA-Z0-9]/g, '_')}.wav`;
-        await Filesystem.writeFile({
-          path: `${exportDir}/${fileName}`,
-          data: track.audioData,
-          directory: Directory.Documents
-        });
+    console.log(`📦 Migrating ${fileNames.length} legacy projects from ${LEGACY_PROJECT_DIR}...`);
+    for (const fileName of fileNames) {
+      const path = `${LEGACY_PROJECT_DIR}/${fileName}`;
+      try {
+        const result = await Filesystem.readFile({ path, directory: Directory.Documents, encoding: Encoding.UTF8 });
+        const data = typeof result.data === 'string' ? result.data : await result.data.text();
+        const legacy = await this.migrateLoadedProject(data, fileName.replace(/\.json$/, ''), false);
+
+        // If both locations have the project, the most recently modified copy wins
+        const existingData = await backend.readDocument(STORAGE_COLLECTIONS.projects, legacy.id);
+        const existing = existingData ? JSON.parse(existingData) as Partial<Project> : null;
+        if (!existing?.lastModified || new Date(legacy.lastModified) > new Date(existing.lastModified)) {
+          await this.writeWithBackup(backend, legacy.id, JSON.stringify(AudioStore.toStoredProject(legacy), null, 2));
+          console.log('✅ Migrated legacy project:', legacy.name);
+        } else {
+          console.log('⏭️ Keeping newer copy of', legacy.name);
+        }
+
+        await Filesystem.deleteFile({ path, directory: Directory.Documents });
+      } catch (error) {
+        console.error(`❌ Failed to migrate legacy project ${fileName}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  // Keep the version being replaced as a backup, then write the new one atomically
+  private async writeWithBackup(backend: StorageBackend, projectId: string, data: string): Promise<void> {
+    const previous = await backend.readDocument(STORAGE_COLLECTIONS.projects, projectId);
+
+    if (previous && previous !== data) {
+      try {
+        await backend.writeDocument(STORAGE_COLLECTIONS.backups, `${projectId}@${Date.now()}`, previous);
+
+        const backupIds = await this.listBackupIds(backend, projectId);
+        for (const staleId of backupIds.slice(0, -MAX_BACKUPS_PER_PROJECT)) {
+          await backend.deleteDocument(STORAGE_COLLECTIONS.backups, staleId);
+        }
+      } catch (error) {
+        console.warn('⚠️ Failed to back up previous version:', error instanceof Error ? error.message : error);
       }
+    }
 
-      // Save project metadata
-      await Filesystem.writeFile({
-        path: `${exportDir}/project_info.json`,
-        data: JSON.stringify({
-          name: project.name,
-          createdAt: project.createdAt,
-          tracks: project.tracks.map(t => ({ 
-            name: t.name, 
-            duration: t.duration, 
-            volume: t.volume 
-          }))
-        }, null, 2),
-        directory: Directory.Documents,
-        encoding: Encoding.UTF8
-      });
+    await backend.writeDocument(STORAGE_COLLECTIONS.projects, projectId, data);
+  }
 
-      await Haptics.impact({ style: ImpactStyle.Heavy });
-    } catch (error) {
-      console.error('Error exporting project to files:', error);
-      throw error;
+  // Backup ids are `<projectId>@<timestamp>`, returned oldest first
+  private async listBackupIds(backend: StorageBackend, projectId: string): Promise<string[]> {
+    const ids = await backend.listDocuments(STORAGE_COLLECTIONS.backups);
+    return ids
+      .filter(id => id.startsWith(`${projectId}@`))
+      .sort((a, b) => this.backupTimestamp(a) - this.backupTimestamp(b));
+  }
+
+  private backupTimestamp(backupId: string): number {
+    return Number(backupId.substring(backupId.lastIndexOf('@') + 1)) || 0;
+  }
+
+  private async getBackend(): Promise<StorageBackend> {
+    if (!this.backend) {
+      await this.initialize();
     }
+    return this.backend!;
   }
 
   async shareAudioFile(audioData: string, fileName: string): Promise<void> {
     try {
-      // Save to temporary location first
-      const tempPath = `temp_${fileName}`;
+      console.log('🎵 Sharing audio file:', fileName);
+      
+      if (!audioData) {
+        throw new Error('No audio data provided');
+      }
+
+      // Remove data URL prefix if present
+      const base64Data = audioData.replace(/^data:audio\/[^;]+;base64,/, '');
+
+      // Validate base64
+      if (!/^[A-Za-z0-9+/=]+$/.test(base64Data)) {
+        throw new Error('Invalid base64 audio data');
+      }
+
+      await this.shareFile(base64Data, fileName, 'audio/wav');
+    } catch (error) {
+      console.error('❌ Failed to share audio:', error instanceof Error ? error.message : error);
+      throw new Error(`Export failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Hand a file to the native share sheet, or download it in the browser
+  async shareFile(base64Data: string, fileName: string, mimeType: string): Promise<void> {
+    // Use native share on mobile
+    if (this.isCapacitorAvailable && Capacitor.isNativePlatform()) {
+      const { Share } = await import('@capacitor/share');
+      const { Filesystem, Directory } = await import('@capacitor/filesystem');
+      
+      const exportFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
+      const filePath = `riff-layer-muse/exports/${exportFileName}`;
+      
+      try {
+        await Filesystem.mkdir({
+          path: 'riff-layer-muse/exports',
+          directory: Directory.Documents,
+          recursive: true
+        });
+      } catch {
+      }
+      
       await Filesystem.writeFile({
-        path: tempPath,
-        data: audioData,
-        directory: Directory.Cache
+        path: filePath,
+        data: base64Data,
+        directory: Directory.Documents
       });
-
-      // Get the URI for sharing
+      
       const fileUri = await Filesystem.getUri({
-        directory: Directory.Cache,
-        path: tempPath
+        path: filePath,
+        directory: Directory.Documents
       });
-
+      
       await Share.share({
-        title: 'Share Audio',
-        text: `Sharing audio: ${fileName}`,
+        title: 'Export Audio',
+        text: `Share or save: ${fileName}`,
         url: fileUri.uri,
-        dialogTitle: 'Share your audio creation'
+        dialogTitle: 'Choose where to save or share'
       });
-
-      await Haptics.impact({ style: ImpactStyle.Medium });
-    } catch (error) {
-      console.error('Error sharing audio file:', error);
-      throw error;
+      
+      console.log('✅ Native share completed');
+      return;
+    }
+    
+    // Browser fallback
+    const binaryString = atob(base64Data);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
     }
+    
+    const blob = new Blob([bytes], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.style.display = 'none';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    
+    console.log('✅ Browser download initiated');
   }
 
   // Convert AudioBuffer to base64 for storage
@@ -277,25 +640,21 @@ class ProjectManagerService {
     }
   }
 
-  // Create a new empty project
-  createNewProject(name: string): Project {
+  getStorageMode(): StorageBackendKind | 'uninitialized' {
+    return this.backend?.kind ?? 'uninitialized';
+  }
+
+  isNativeStorageAvailable(): boolean {
+    return this.backend?.kind === 'filesystem';
+  }
+
+  getStorageStatus(): { verified: boolean, available: boolean, persistent: boolean } {
     return {
-      id: Date.now().toString(),
-      name,
-      createdAt: new Date().toISOString(),
-      lastModified: new Date().toISOString(),
-      tracks: [],
-      settings: {
-        masterVolume: 1,
-        tempo: 120,
-        timeSignature: { numerator: 4, denominator: 4 },
-        metronomeEnabled: false,
-        metronomeVolume: 0.5,
-        snapToGrid: true,
-        gridSubdivision: 4
-      }
+      verified: this.isNativeStorageAvailable(),
+      available: this.isCapacitorAvailable,
+      persistent: !!this.backend?.isPersistent
     };
   }
 }
 
-export const ProjectManager = new ProjectManagerService();
\ No newline at end of file
+export const ProjectManager = new ProjectManagerService();
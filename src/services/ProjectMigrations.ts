@@ -0,0 +1,122 @@
+import type { Project } from './ProjectManager';
+import { projectSchema, formatIssuePath } from '@/lib/validation';
+
+// Bump this and register a migration below whenever the stored project shape changes
+export const CURRENT_SCHEMA_VERSION = 2;
+
+type StoredProject = Record<string, unknown>;
+type ProjectMigration = (project: StoredProject) => StoredProject;
+
+/**
+ * Thrown when a project file can't be upgraded or fails validation.
+ * `field` points at the offending value, e.g. `tracks[2].volume`.
+ */
+export class ProjectValidationError extends Error {
+  constructor(
+    public readonly field: string,
+    public readonly reason: string,
+    public readonly projectId?: string
+  ) {
+    super(`Invalid project${projectId ? ` ${projectId}` : ''}: ${field} - ${reason}`);
+    this.name = 'ProjectValidationError';
+  }
+}
+
+const isRecord = (value: unknown): value is StoredProject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Migrations keyed by the version they upgrade *from*; each one returns the
+ * project at the next version. Files written before versioning count as 0.
+ */
+const migrations: Record<number, ProjectMigration> = {
+  // 0 -> 1: clear transport state that older builds persisted with the project
+  0: (project) => ({
+    ...project,
+    tracks: Array.isArray(project.tracks)
+      ? project.tracks.map(track => isRecord(track)
+        ? { ...track, isPlaying: false, isMuted: track.isMuted ?? false, isRecording: false }
+        : track)
+      : project.tracks,
+  }),
+
+  // 1 -> 2: the two old project services disagreed on defaults; fill in what either left out
+  1: (project) => {
+    const settings = isRecord(project.settings) ? project.settings : {};
+    return {
+      ...project,
+      settings: {
+        masterVolume: 1,
+        tempo: 120,
+        metronomeEnabled: false,
+        metronomeVolume: 0.5,
+        snapToGrid: true,
+        gridSubdivision: 4,
+        ...settings,
+        timeSignature: settings.timeSignature ?? { numerator: 4, denominator: 4 },
+      },
+    };
+  },
+};
+
+/**
+ * Upgrade a parsed project file to the current schema version and validate it.
+ * Throws a ProjectValidationError naming the first corrupt field.
+ */
+export function upgradeProject(raw: unknown): { project: Project; migrated: boolean } {
+  if (!isRecord(raw)) {
+    throw new ProjectValidationError('(root)', 'Project file is not an object');
+  }
+
+  const projectId = typeof raw.id === 'string' ? raw.id : undefined;
+  const storedVersion = raw.schemaVersion ?? 0;
+
+  if (typeof storedVersion !== 'number' || !Number.isInteger(storedVersion) || storedVersion < 0) {
+    throw new ProjectValidationError('schemaVersion', 'Must be a non-negative whole number', projectId);
+  }
+  if (storedVersion > CURRENT_SCHEMA_VERSION) {
+    throw new ProjectValidationError(
+      'schemaVersion',
+      `Saved by a newer version of the app (v${storedVersion}, this build reads up to v${CURRENT_SCHEMA_VERSION})`,
+      projectId
+    );
+  }
+
+  let project = raw;
+  for (let version = storedVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new ProjectValidationError('schemaVersion', `No migration registered from v${version}`, projectId);
+    }
+    project = { ...migrate(project), schemaVersion: version + 1 };
+    console.log(`🔄 Migrated project ${projectId ?? ''} from schema v${version} to v${version + 1}`);
+  }
+
+  const result = projectSchema.safeParse(project);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new ProjectValidationError(
+      issue ? formatIssuePath(issue.path) : '(root)',
+      issue?.message || 'Validation failed',
+      projectId
+    );
+  }
+
+  return {
+    project: result.data as Project,
+    migrated: storedVersion !== CURRENT_SCHEMA_VERSION,
+  };
+}
+
+/**
+ * Parse, upgrade and validate the JSON text of a project file
+ */
+export function parseProjectFile(json: string, projectId?: string): { project: Project; migrated: boolean } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new ProjectValidationError('(root)', `Not valid JSON: ${error instanceof Error ? error.message : error}`, projectId);
+  }
+  return upgradeProject(raw);
+}
@@ -0,0 +1,112 @@
+import { ProjectManager, type AudioTrack, type MixBus, type Project } from './ProjectManager';
+import { AudioStore } from './AudioStore';
+import { CURRENT_SCHEMA_VERSION, ProjectValidationError, upgradeProject } from './ProjectMigrations';
+import { getStorageBackend, STORAGE_COLLECTIONS } from './storage';
+import { projectTemplateSchema, formatIssuePath } from '@/lib/validation';
+
+/**
+ * Reusable starting points for new projects: settings plus the track layout
+ * of an existing project, optionally with its audio (e.g. a backing loop).
+ */
+
+export interface ProjectTemplate {
+  schemaVersion: number; // project schema the tracks and settings follow
+  id: string;
+  name: string;
+  createdAt: string;
+  includesAudio: boolean;
+  tracks: AudioTrack[];
+  buses?: MixBus[];
+  settings: Project['settings'];
+}
+
+class ProjectTemplatesService {
+  async getTemplates(): Promise<ProjectTemplate[]> {
+    const backend = await getStorageBackend();
+    const templates: ProjectTemplate[] = [];
+
+    for (const templateId of await backend.listDocuments(STORAGE_COLLECTIONS.templates)) {
+      try {
+        const data = await backend.readDocument(STORAGE_COLLECTIONS.templates, templateId);
+        if (data) templates.push(this.parseTemplate(data, templateId));
+      } catch (error) {
+        console.error(`❌ Failed to load template ${templateId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Capture a project's settings and tracks. Without audio, tracks are kept
+   * as named, empty lanes.
+   */
+  async saveAsTemplate(project: Project, name: string, options: { includeAudio: boolean }): Promise<ProjectTemplate> {
+    console.log('📋 Saving template:', name, options.includeAudio ? '(with audio)' : '(structure only)');
+
+    const sourceTracks = options.includeAudio
+      ? await AudioStore.externalizeTracks(project.tracks)
+      : project.tracks;
+
+    const tracks: AudioTrack[] = sourceTracks.map(({ audioData, audioHash, audioBufferData, ...track }) => ({
+      ...track,
+      ...(options.includeAudio && audioHash ? { audioHash } : { duration: 0, trimStart: 0, trimEnd: 0 }),
+      isPlaying: false,
+      isRecording: false,
+    }));
+
+    const template: ProjectTemplate = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      id: Date.now().toString(),
+      name,
+      createdAt: new Date().toISOString(),
+      includesAudio: options.includeAudio,
+      tracks,
+      buses: structuredClone(project.buses ?? []),
+      settings: structuredClone(project.settings),
+    };
+
+    const backend = await getStorageBackend();
+    await backend.writeDocument(STORAGE_COLLECTIONS.templates, template.id, JSON.stringify(template, null, 2));
+    console.log('✅ Template saved:', template.name);
+    return template;
+  }
+
+  async deleteTemplate(templateId: string): Promise<void> {
+    const backend = await getStorageBackend();
+    await backend.deleteDocument(STORAGE_COLLECTIONS.templates, templateId);
+  }
+
+  /**
+   * New project from a template; templates from older builds are upgraded on the way.
+   */
+  createProjectFromTemplate(name: string, template: ProjectTemplate): Project {
+    const blank = ProjectManager.createNewProject(name);
+    const { project } = upgradeProject({
+      ...blank,
+      schemaVersion: template.schemaVersion,
+      settings: structuredClone(template.settings),
+      buses: structuredClone(template.buses ?? []),
+      tracks: template.tracks.map((track, index) => ({
+        ...track,
+        id: `${blank.id}-${index}`,
+      })),
+    });
+    return project;
+  }
+
+  private parseTemplate(data: string, templateId: string): ProjectTemplate {
+    const result = projectTemplateSchema.safeParse(JSON.parse(data));
+    if (!result.success) {
+      const issue = result.error.errors[0];
+      throw new ProjectValidationError(
+        issue ? formatIssuePath(issue.path) : '(root)',
+        issue?.message || 'Validation failed',
+        templateId
+      );
+    }
+    return result.data as ProjectTemplate;
+  }
+}
+
+export const ProjectTemplates = new ProjectTemplatesService();
@@ -0,0 +1,306 @@
+import type { Project } from './ProjectManager';
+import { AudioStore } from './AudioStore';
+import { upgradeProject } from './ProjectMigrations';
+import { getStorageBackend, STORAGE_COLLECTIONS, type StorageBackend } from './storage';
+import { base64ToBytes, blobToBase64 } from './storage/base64';
+
+/**
+ * Write-ahead journal for crash recovery.
+ *
+ * Edits are appended as snapshots before the (debounced) project save
+ * runs, and a finished save checkpoints the journal. Recording chunks are
+ * flushed to storage while the take is still running. Anything left in the
+ * journal on the next launch is unsaved work that can be restored.
+ */
+
+const EDIT_PREFIX = 'edit-';
+const RECORDING_DOC = 'recording';
+const MAX_EDIT_ENTRIES = 10;
+const CHUNK_FLUSH_INTERVAL_MS = 1000;
+
+interface EditEntry {
+  seq: number;
+  projectId: string;
+  recordedAt: string;
+  project: Project;
+}
+
+export interface JournaledRecording {
+  id: string;
+  projectId: string;
+  name: string;
+  mimeType: string;
+  startTime: number; // timeline position, already latency compensated
+  startedAt: string;
+}
+
+export interface PendingRecovery {
+  projectId: string;
+  projectName: string;
+  updatedAt: string;
+  project: Project | null; // latest unsaved snapshot, if any edits were journaled
+  recording: (JournaledRecording & { audio: Blob }) | null; // take that never finished
+}
+
+class SessionJournalService {
+  private backend: StorageBackend | null = null;
+  private lastSeq = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  // Newest snapshot waiting for the journal; edits made meanwhile replace it
+  private pendingEdit: { seq: number; project: Project } | null = null;
+  private editWrite: Promise<void> = Promise.resolve();
+
+  private activeRecording: JournaledRecording | null = null;
+  private pendingChunks: Blob[] = [];
+  private chunkIndex = 0;
+  private lastFlush = 0;
+
+  async initialize(): Promise<void> {
+    if (this.backend) return;
+    this.backend = await getStorageBackend();
+  }
+
+  /**
+   * Append a snapshot of the project and return its sequence number once it,
+   * or a newer snapshot that replaced it, is written. While a write is in
+   * flight only the latest edit waits for the next one, so a burst of edits
+   * costs two writes. New takes are moved into the AudioStore first so the
+   * entry stays small.
+   */
+  async appendEdit(project: Project): Promise<number> {
+    const seq = Math.max(Date.now(), this.lastSeq + 1);
+    this.lastSeq = seq;
+
+    const writeQueued = this.pendingEdit !== null;
+    this.pendingEdit = { seq, project };
+    if (!writeQueued) {
+      this.editWrite = this.enqueue(backend => this.writePendingEdit(backend));
+    }
+    await this.editWrite;
+
+    return seq;
+  }
+
+  /**
+   * Drop journaled edits up to and including `seq` once they've been saved.
+   */
+  async checkpoint(seq: number): Promise<void> {
+    await this.enqueue(async (backend) => {
+      for (const entrySeq of await this.listEditSeqs(backend)) {
+        if (entrySeq <= seq) {
+          await backend.deleteDocument(STORAGE_COLLECTIONS.journal, `${EDIT_PREFIX}${entrySeq}`);
+        }
+      }
+    });
+  }
+
+  async beginRecording(recording: Omit<JournaledRecording, 'id' | 'startedAt'>): Promise<void> {
+    this.activeRecording = {
+      ...recording,
+      id: Date.now().toString(),
+      startedAt: new Date().toISOString(),
+    };
+    this.pendingChunks = [];
+    this.chunkIndex = 0;
+    this.lastFlush = Date.now();
+
+    const meta = this.activeRecording;
+    await this.enqueue(async (backend) => {
+      await this.deleteRecordingChunks(backend);
+      await backend.writeDocument(STORAGE_COLLECTIONS.journal, RECORDING_DOC, JSON.stringify(meta));
+    });
+    console.log('📝 Journaling recording:', meta.name);
+  }
+
+  /**
+   * Buffer a MediaRecorder chunk; buffered chunks are written about once a second.
+   */
+  appendRecordingChunk(chunk: Blob): void {
+    if (!this.activeRecording) return;
+
+    this.pendingChunks.push(chunk);
+    if (Date.now() - this.lastFlush >= CHUNK_FLUSH_INTERVAL_MS) {
+      this.flushRecording();
+    }
+  }
+
+  /**
+   * Forget the in-progress take, e.g. once it has been saved as a track.
+   */
+  async endRecording(): Promise<void> {
+    this.activeRecording = null;
+    this.pendingChunks = [];
+    await this.enqueue(async (backend) => {
+      await this.deleteRecordingChunks(backend);
+      await backend.deleteDocument(STORAGE_COLLECTIONS.journal, RECORDING_DOC).catch(() => undefined);
+    });
+  }
+
+  /**
+   * Unsaved state left behind by a previous session, or null if it ended cleanly.
+   */
+  async getPendingRecovery(): Promise<PendingRecovery | null> {
+    await this.initialize();
+    const backend = this.backend!;
+
+    let project: Project | null = null;
+    let updatedAt = '';
+    const seqs = await this.listEditSeqs(backend);
+    if (seqs.length > 0) {
+      const data = await backend.readDocument(STORAGE_COLLECTIONS.journal, `${EDIT_PREFIX}${seqs[seqs.length - 1]}`);
+      if (data) {
+        try {
+          const entry = JSON.parse(data) as EditEntry;
+          project = upgradeProject(entry.project).project;
+          updatedAt = entry.recordedAt;
+        } catch (error) {
+          console.warn('⚠️ Ignoring unreadable journal entry:', error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    let recording: PendingRecovery['recording'] = null;
+    const recordingData = await backend.readDocument(STORAGE_COLLECTIONS.journal, RECORDING_DOC);
+    let meta: JournaledRecording | null = null;
+    if (recordingData) {
+      try {
+        meta = JSON.parse(recordingData) as JournaledRecording;
+      } catch (error) {
+        // Without its metadata the take's chunks can't be played back, so drop them too
+        console.warn('⚠️ Discarding unreadable journaled recording:', error instanceof Error ? error.message : error);
+        await this.enqueue(async (journalBackend) => {
+          await this.deleteRecordingChunks(journalBackend);
+          await journalBackend.deleteDocument(STORAGE_COLLECTIONS.journal, RECORDING_DOC).catch(() => undefined);
+        });
+      }
+    }
+    if (meta) {
+      const audio = await this.readRecordingAudio(backend, meta);
+      if (audio) {
+        recording = { ...meta, audio };
+        updatedAt = updatedAt > meta.startedAt ? updatedAt : meta.startedAt;
+      }
+    }
+
+    if (!project && !recording) return null;
+
+    return {
+      projectId: recording?.projectId ?? project!.id,
+      projectName: project?.name ?? recording!.name,
+      updatedAt,
+      project,
+      recording,
+    };
+  }
+
+  /**
+   * Throw away everything in the journal.
+   */
+  async clear(): Promise<void> {
+    this.activeRecording = null;
+    this.pendingChunks = [];
+    this.pendingEdit = null;
+    await this.enqueue(async (backend) => {
+      for (const id of await backend.listDocuments(STORAGE_COLLECTIONS.journal)) {
+        await backend.deleteDocument(STORAGE_COLLECTIONS.journal, id);
+      }
+      for (const name of await backend.listBlobs(STORAGE_COLLECTIONS.journal)) {
+        await backend.deleteBlob(STORAGE_COLLECTIONS.journal, name);
+      }
+    });
+    console.log('🧹 Session journal cleared');
+  }
+
+  /**
+   * Write buffered chunks now, e.g. when recording stops or the app is backgrounded.
+   */
+  flushRecording(): void {
+    const recording = this.activeRecording;
+    if (!recording || this.pendingChunks.length === 0) return;
+
+    const chunk = new Blob(this.pendingChunks, { type: recording.mimeType });
+    const index = this.chunkIndex++;
+    this.pendingChunks = [];
+    this.lastFlush = Date.now();
+
+    this.enqueue(async (backend) => {
+      await backend.writeBlob(STORAGE_COLLECTIONS.journal, this.chunkName(recording.id, index), await blobToBase64(chunk));
+    }).catch(error => {
+      console.warn('⚠️ Failed to journal recording chunk:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  private async writePendingEdit(backend: StorageBackend): Promise<void> {
+    const edit = this.pendingEdit;
+    this.pendingEdit = null;
+    if (!edit) return;
+    const { seq, project } = edit;
+
+    const tracks = await AudioStore.externalizeTracks(project.tracks);
+    const entry: EditEntry = {
+      seq,
+      projectId: project.id,
+      recordedAt: new Date().toISOString(),
+      project: AudioStore.toStoredProject({ ...project, tracks }),
+    };
+    await backend.writeDocument(STORAGE_COLLECTIONS.journal, `${EDIT_PREFIX}${seq}`, JSON.stringify(entry));
+
+    // Only the newest snapshots matter for recovery
+    const stale = (await this.listEditSeqs(backend)).slice(0, -MAX_EDIT_ENTRIES);
+    for (const oldSeq of stale) {
+      await backend.deleteDocument(STORAGE_COLLECTIONS.journal, `${EDIT_PREFIX}${oldSeq}`);
+    }
+  }
+
+  private async readRecordingAudio(backend: StorageBackend, meta: JournaledRecording): Promise<Blob | null> {
+    const names = (await backend.listBlobs(STORAGE_COLLECTIONS.journal))
+      .filter(name => name.startsWith(`rec-${meta.id}-`))
+      .sort((a, b) => this.chunkIndexOf(a) - this.chunkIndexOf(b));
+
+    const parts: Uint8Array[] = [];
+    for (const name of names) {
+      const base64 = await backend.readBlob(STORAGE_COLLECTIONS.journal, name);
+      if (base64) parts.push(base64ToBytes(base64));
+    }
+
+    return parts.length > 0 ? new Blob(parts, { type: meta.mimeType }) : null;
+  }
+
+  private async deleteRecordingChunks(backend: StorageBackend): Promise<void> {
+    for (const name of await backend.listBlobs(STORAGE_COLLECTIONS.journal)) {
+      if (name.startsWith('rec-')) {
+        await backend.deleteBlob(STORAGE_COLLECTIONS.journal, name);
+      }
+    }
+  }
+
+  private async listEditSeqs(backend: StorageBackend): Promise<number[]> {
+    const ids = await backend.listDocuments(STORAGE_COLLECTIONS.journal);
+    return ids
+      .filter(id => id.startsWith(EDIT_PREFIX))
+      .map(id => Number(id.substring(EDIT_PREFIX.length)))
+      .filter(seq => Number.isFinite(seq))
+      .sort((a, b) => a - b);
+  }
+
+  private chunkName(recordingId: string, index: number): string {
+    return `rec-${recordingId}-${index}`;
+  }
+
+  private chunkIndexOf(name: string): number {
+    return Number(name.substring(name.lastIndexOf('-') + 1));
+  }
+
+  // Journal writes run one at a time, in order
+  private enqueue(task: (backend: StorageBackend) => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(async () => {
+      await this.initialize();
+      await task(this.backend!);
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const SessionJournal = new SessionJournalService();
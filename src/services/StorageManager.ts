@@ -0,0 +1,252 @@
+import { Filesystem, Directory, Encoding, type FileInfo } from '@capacitor/filesystem';
+import { AudioStore } from './AudioStore';
+import { getStorageBackend, STORAGE_COLLECTIONS, type StorageBackend } from './storage';
+
+/**
+ * Disk usage report and cleanup.
+ *
+ * Audio in the AudioStore is shared between projects, so a clip can only be
+ * removed once nothing references it any more: not a project, not one of its
+ * backups, not a template, not an unsaved edit in the session journal and not
+ * a state the editor can still undo or redo to.
+ */
+
+// Folders written by older builds, only present on device
+const LEGACY_PROJECTS_DIR = 'MusicLayers/Projects';
+const LEGACY_AUDIO_DIR = 'MusicLayers/Audio';
+const LEGACY_EXPORTS_DIR = 'MusicLayers/Exports';
+
+const AUDIO_HASH_PATTERN = /"audioHash"\s*:\s*"([0-9a-f]{64})"/g;
+
+export interface ProjectStorageUsage {
+  projectId: string;
+  name: string;
+  projectBytes: number;
+  audioBytes: number; // every clip the project uses, including ones shared with other projects
+  backupBytes: number;
+  clipCount: number;
+}
+
+export interface StorageFileUsage {
+  name: string;
+  bytes: number;
+}
+
+export interface StorageReport {
+  projects: ProjectStorageUsage[];
+  orphanedAudio: StorageFileUsage[];
+  exports: StorageFileUsage[];
+  totalBytes: number;
+  generatedAt: string;
+}
+
+export interface CleanupResult {
+  deletedFiles: number;
+  freedBytes: number;
+}
+
+const byteLength = (text: string): number => new TextEncoder().encode(text).length;
+
+const collectAudioHashes = (json: string, into: Set<string>): string[] => {
+  const hashes = Array.from(json.matchAll(AUDIO_HASH_PATTERN), match => match[1]);
+  hashes.forEach(hash => into.add(hash));
+  return hashes;
+};
+
+class StorageManagerService {
+  // Hashes held only in memory, e.g. by the editor's undo history
+  private liveAudioSources = new Set<() => (string | undefined)[]>();
+
+  /**
+   * Keep the clips a source returns out of cleanup while it's registered.
+   * Returns a function that unregisters it.
+   */
+  retainAudio(source: () => (string | undefined)[]): () => void {
+    this.liveAudioSources.add(source);
+    return () => {
+      this.liveAudioSources.delete(source);
+    };
+  }
+
+  async getReport(): Promise<StorageReport> {
+    console.log('📊 Building storage report...');
+    const backend = await getStorageBackend();
+
+    const audioSizes = new Map<string, number>();
+    for (const name of await backend.listBlobs(STORAGE_COLLECTIONS.audio)) {
+      // On the filesystem a clip's type document sits beside it
+      if (!name.endsWith('.wav')) continue;
+      audioSizes.set(name.replace(/\.wav$/, ''), await backend.blobSize(STORAGE_COLLECTIONS.audio, name));
+    }
+
+    const referenced = new Set<string>();
+    const projects = new Map<string, ProjectStorageUsage>();
+
+    for (const projectId of await backend.listDocuments(STORAGE_COLLECTIONS.projects)) {
+      const data = await backend.readDocument(STORAGE_COLLECTIONS.projects, projectId);
+      if (!data) continue;
+
+      const hashes = new Set(collectAudioHashes(data, referenced));
+      projects.set(projectId, {
+        projectId,
+        name: this.projectNameOf(data) ?? projectId,
+        projectBytes: byteLength(data),
+        audioBytes: Array.from(hashes).reduce((sum, hash) => sum + (audioSizes.get(hash) ?? 0), 0),
+        backupBytes: 0,
+        clipCount: hashes.size,
+      });
+    }
+
+    // Backups and unsaved journal entries keep their audio alive too
+    for (const backupId of await backend.listDocuments(STORAGE_COLLECTIONS.backups)) {
+      const data = await backend.readDocument(STORAGE_COLLECTIONS.backups, backupId);
+      if (!data) continue;
+
+      collectAudioHashes(data, referenced);
+      const usage = projects.get(backupId.substring(0, backupId.lastIndexOf('@')));
+      if (usage) usage.backupBytes += byteLength(data);
+    }
+    for (const templateId of await backend.listDocuments(STORAGE_COLLECTIONS.templates)) {
+      const data = await backend.readDocument(STORAGE_COLLECTIONS.templates, templateId);
+      if (data) collectAudioHashes(data, referenced);
+    }
+    for (const entryId of await backend.listDocuments(STORAGE_COLLECTIONS.journal)) {
+      const data = await backend.readDocument(STORAGE_COLLECTIONS.journal, entryId);
+      if (data) collectAudioHashes(data, referenced);
+    }
+    for (const source of this.liveAudioSources) {
+      for (const hash of source()) {
+        if (hash) referenced.add(hash);
+      }
+    }
+    for (const file of await this.listLegacyFiles(backend, LEGACY_PROJECTS_DIR)) {
+      const data = await this.readLegacyText(file.name);
+      if (data) collectAudioHashes(data, referenced);
+    }
+
+    const orphanedAudio: StorageFileUsage[] = [
+      ...Array.from(audioSizes)
+        .filter(([hash]) => !referenced.has(hash))
+        .map(([hash, bytes]) => ({ name: hash, bytes })),
+      ...await this.listLegacyFiles(backend, LEGACY_AUDIO_DIR),
+    ];
+
+    const exports: StorageFileUsage[] = [
+      ...await Promise.all((await backend.listBlobs(STORAGE_COLLECTIONS.exports)).map(async name => ({
+        name,
+        bytes: await backend.blobSize(STORAGE_COLLECTIONS.exports, name),
+      }))),
+      ...await this.listLegacyFiles(backend, LEGACY_EXPORTS_DIR),
+    ];
+
+    const projectList = Array.from(projects.values())
+      .sort((a, b) => (b.projectBytes + b.audioBytes + b.backupBytes) - (a.projectBytes + a.audioBytes + a.backupBytes));
+
+    // Shared clips are counted once here
+    const totalBytes =
+      projectList.reduce((sum, p) => sum + p.projectBytes + p.backupBytes, 0) +
+      Array.from(audioSizes.values()).reduce((sum, bytes) => sum + bytes, 0) +
+      orphanedAudio.filter(file => file.name.startsWith(LEGACY_AUDIO_DIR)).reduce((sum, file) => sum + file.bytes, 0) +
+      exports.reduce((sum, file) => sum + file.bytes, 0);
+
+    console.log(`📊 ${projectList.length} projects, ${orphanedAudio.length} orphaned clips, ${exports.length} exports`);
+    return {
+      projects: projectList,
+      orphanedAudio,
+      exports,
+      totalBytes,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Delete orphaned audio and/or exported files. The report is rebuilt first
+   * so nothing that became referenced in the meantime is removed.
+   */
+  async cleanup(options: { orphanedAudio: boolean; exports: boolean }): Promise<CleanupResult> {
+    const backend = await getStorageBackend();
+    const report = await this.getReport();
+    const result: CleanupResult = { deletedFiles: 0, freedBytes: 0 };
+
+    const remove = async (file: StorageFileUsage, action: () => Promise<void>) => {
+      try {
+        await action();
+        result.deletedFiles++;
+        result.freedBytes += file.bytes;
+      } catch (error) {
+        console.warn('⚠️ Failed to delete', file.name, error instanceof Error ? error.message : error);
+      }
+    };
+
+    if (options.orphanedAudio) {
+      for (const file of report.orphanedAudio) {
+        await remove(file, () => this.isLegacyPath(file.name)
+          ? this.deleteLegacyFile(file.name)
+          : AudioStore.deleteAudio(file.name));
+      }
+    }
+
+    if (options.exports) {
+      for (const file of report.exports) {
+        await remove(file, () => this.isLegacyPath(file.name)
+          ? this.deleteLegacyFile(file.name)
+          : backend.deleteBlob(STORAGE_COLLECTIONS.exports, file.name));
+      }
+    }
+
+    console.log(`🧹 Cleanup removed ${result.deletedFiles} files (${result.freedBytes} bytes)`);
+    return result;
+  }
+
+  private projectNameOf(data: string): string | null {
+    try {
+      const parsed = JSON.parse(data) as { name?: unknown };
+      return typeof parsed.name === 'string' ? parsed.name : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private isLegacyPath(name: string): boolean {
+    return name.startsWith('MusicLayers/');
+  }
+
+  // Files (recursively) under one of the old MusicLayers folders, named by full path
+  private async listLegacyFiles(backend: StorageBackend, path: string): Promise<StorageFileUsage[]> {
+    if (backend.kind !== 'filesystem') return [];
+
+    let entries: FileInfo[];
+    try {
+      const result = await Filesystem.readdir({ path, directory: Directory.Documents });
+      entries = result.files;
+    } catch {
+      return []; // Folder doesn't exist on this install
+    }
+
+    const files: StorageFileUsage[] = [];
+    for (const entry of entries) {
+      const entryPath = `${path}/${entry.name}`;
+      if (entry.type === 'directory') {
+        files.push(...await this.listLegacyFiles(backend, entryPath));
+      } else {
+        files.push({ name: entryPath, bytes: entry.size });
+      }
+    }
+    return files;
+  }
+
+  private async readLegacyText(path: string): Promise<string | null> {
+    try {
+      const result = await Filesystem.readFile({ path, directory: Directory.Documents, encoding: Encoding.UTF8 });
+      return typeof result.data === 'string' ? result.data : await result.data.text();
+    } catch {
+      return null;
+    }
+  }
+
+  private async deleteLegacyFile(path: string): Promise<void> {
+    await Filesystem.deleteFile({ path, directory: Directory.Documents });
+  }
+}
+
+export const StorageManager = new StorageManagerService();
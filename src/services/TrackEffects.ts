@@ -0,0 +1,445 @@
+/**
+ * Per-track insert effects.
+ *
+ * A track carries an ordered list of plain, serializable effect descriptors;
+ * EffectChain turns that list into Web Audio nodes on any context, so live
+ * playback and the offline export run the exact same processing. Everything
+ * is built from native nodes (no worklets), which keeps construction
+ * synchronous on both kinds of context.
+ */
+
+export type EffectType = 'eq' | 'compressor' | 'gate' | 'delay' | 'reverb';
+
+export type EqBandType = 'lowshelf' | 'peaking' | 'highshelf' | 'lowpass' | 'highpass';
+
+export interface EqBand {
+  type: EqBandType;
+  frequency: number; // Hz
+  gain: number; // dB, shelves and peaking only
+  q: number;
+}
+
+interface EffectBase {
+  id: string;
+  enabled: boolean;
+}
+
+export interface EqEffect extends EffectBase {
+  type: 'eq';
+  bands: EqBand[];
+}
+
+export interface CompressorEffect extends EffectBase {
+  type: 'compressor';
+  threshold: number; // dB
+  ratio: number;
+  knee: number; // dB
+  attack: number; // seconds
+  release: number; // seconds
+  makeupGain: number; // dB
+}
+
+export interface GateEffect extends EffectBase {
+  type: 'gate';
+  threshold: number; // dB, compared against the averaged level
+  attack: number; // seconds to open
+  release: number; // seconds to close
+}
+
+export interface DelayEffect extends EffectBase {
+  type: 'delay';
+  time: number; // seconds
+  feedback: number; // 0-0.9
+  mix: number; // 0 dry - 1 wet
+}
+
+export interface ReverbEffect extends EffectBase {
+  type: 'reverb';
+  decay: number; // seconds to -60 dB
+  preDelay: number; // seconds
+  mix: number; // 0 dry - 1 wet
+}
+
+export type TrackEffect = EqEffect | CompressorEffect | GateEffect | DelayEffect | ReverbEffect;
+
+export const EFFECT_LABELS: Record<EffectType, string> = {
+  eq: 'Parametric EQ',
+  compressor: 'Compressor',
+  gate: 'Noise Gate',
+  delay: 'Delay',
+  reverb: 'Reverb',
+};
+
+export const MAX_DELAY_SECONDS = 2;
+export const MAX_REVERB_SECONDS = 8;
+
+export function createEffect(type: EffectType): TrackEffect {
+  const base = { id: `${type}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, enabled: true };
+  switch (type) {
+    case 'eq':
+      return {
+        ...base,
+        type,
+        bands: [
+          { type: 'lowshelf', frequency: 120, gain: 0, q: 0.7 },
+          { type: 'peaking', frequency: 1000, gain: 0, q: 1 },
+          { type: 'highshelf', frequency: 8000, gain: 0, q: 0.7 },
+        ],
+      };
+    case 'compressor':
+      return { ...base, type, threshold: -24, ratio: 4, knee: 6, attack: 0.01, release: 0.25, makeupGain: 0 };
+    case 'gate':
+      return { ...base, type, threshold: -50, attack: 0.005, release: 0.1 };
+    case 'delay':
+      return { ...base, type, time: 0.375, feedback: 0.35, mix: 0.25 };
+    case 'reverb':
+      return { ...base, type, decay: 2, preDelay: 0.02, mix: 0.25 };
+  }
+}
+
+const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+/**
+ * How long an effect keeps ringing after its input stops, so the export
+ * doesn't cut off delay repeats or reverb tails.
+ */
+export function effectTailSeconds(effects: TrackEffect[] | undefined): number {
+  return (effects ?? []).reduce((tail, effect) => {
+    if (!effect.enabled) return tail;
+    if (effect.type === 'delay') {
+      // Until the repeats have fallen by 60 dB
+      const repeats = effect.feedback > 0 ? Math.log(0.001) / Math.log(effect.feedback) : 1;
+      return tail + Math.min(effect.time * Math.max(1, repeats), 10);
+    }
+    if (effect.type === 'reverb') return tail + effect.preDelay + effect.decay;
+    return tail;
+  }, 0);
+}
+
+interface EffectNode {
+  input: AudioNode;
+  output: AudioNode;
+  update(effect: TrackEffect): void;
+  dispose(): void;
+}
+
+// Parameter changes glide instead of stepping, so tweaking while playing doesn't zipper
+const PARAM_SMOOTHING_SECONDS = 0.02;
+
+const setParam = (context: BaseAudioContext, param: AudioParam, value: number): void => {
+  param.setTargetAtTime(value, context.currentTime, PARAM_SMOOTHING_SECONDS / 3);
+};
+
+// Values that can only be applied by rebuilding the nodes (band layout, IR length, gate curve)
+const structureOf = (effect: TrackEffect): string => {
+  switch (effect.type) {
+    case 'eq':
+      return `eq:${effect.bands.map(band => band.type).join(',')}`;
+    case 'gate':
+      return `gate:${effect.threshold}`;
+    case 'reverb':
+      return `reverb:${effect.decay}`;
+    default:
+      return effect.type;
+  }
+};
+
+function createEq(context: BaseAudioContext, effect: EqEffect): EffectNode {
+  const filters = effect.bands.map(() => context.createBiquadFilter());
+  const input = context.createGain();
+  const output = context.createGain();
+
+  const apply = (eq: EqEffect, initial: boolean) => {
+    eq.bands.forEach((band, index) => {
+      const filter = filters[index];
+      filter.type = band.type;
+      if (initial) {
+        filter.frequency.value = band.frequency;
+        filter.gain.value = band.gain;
+        filter.Q.value = band.q;
+      } else {
+        setParam(context, filter.frequency, band.frequency);
+        setParam(context, filter.gain, band.gain);
+        setParam(context, filter.Q, band.q);
+      }
+    });
+  };
+  apply(effect, true);
+
+  let previous: AudioNode = input;
+  for (const filter of filters) {
+    previous.connect(filter);
+    previous = filter;
+  }
+  previous.connect(output);
+
+  return {
+    input,
+    output,
+    update: next => apply(next as EqEffect, false),
+    dispose: () => [input, ...filters, output].forEach(node => node.disconnect()),
+  };
+}
+
+function createCompressor(context: BaseAudioContext, effect: CompressorEffect): EffectNode {
+  const compressor = context.createDynamicsCompressor();
+  const makeup = context.createGain();
+  compressor.connect(makeup);
+
+  const apply = (settings: CompressorEffect, initial: boolean) => {
+    const values: [AudioParam, number][] = [
+      [compressor.threshold, settings.threshold],
+      [compressor.ratio, settings.ratio],
+      [compressor.knee, settings.knee],
+      [compressor.attack, settings.attack],
+      [compressor.release, settings.release],
+      [makeup.gain, dbToGain(settings.makeupGain)],
+    ];
+    values.forEach(([param, value]) => {
+      if (initial) param.value = value;
+      else setParam(context, param, value);
+    });
+  };
+  apply(effect, true);
+
+  return {
+    input: compressor,
+    output: makeup,
+    update: next => apply(next as CompressorEffect, false),
+    dispose: () => [compressor, makeup].forEach(node => node.disconnect()),
+  };
+}
+
+// Lowpass cutoff whose step response settles in roughly `seconds`
+const smoothingFrequency = (context: BaseAudioContext, seconds: number): number =>
+  Math.min(context.sampleRate / 4, 1 / (2 * Math.PI * Math.max(0.001, seconds) / 3));
+
+/**
+ * Gate from native nodes: the rectified, averaged input drives a step
+ * shaper (closed below the threshold, open above it) whose smoothed output
+ * modulates the gain of the signal path.
+ */
+function createGate(context: BaseAudioContext, effect: GateEffect): EffectNode {
+  const input = context.createGain();
+  const vca = context.createGain();
+  vca.gain.value = 0; // opened by the detector signal
+
+  const rectifier = context.createWaveShaper();
+  const envelope = context.createBiquadFilter();
+  const step = context.createWaveShaper();
+  const smoothing = context.createBiquadFilter();
+  envelope.type = 'lowpass';
+  smoothing.type = 'lowpass';
+  envelope.Q.value = 0;
+  smoothing.Q.value = 0;
+
+  const resolution = 8192;
+  const rectify = new Float32Array(resolution);
+  const threshold = new Float32Array(resolution);
+  const thresholdGain = dbToGain(effect.threshold);
+  for (let i = 0; i < resolution; i++) {
+    const x = (i / (resolution - 1)) * 2 - 1;
+    rectify[i] = Math.abs(x);
+    threshold[i] = x >= thresholdGain ? 1 : 0;
+  }
+  rectifier.curve = rectify;
+  step.curve = threshold;
+
+  const apply = (gate: GateEffect, initial: boolean) => {
+    const release = smoothingFrequency(context, gate.release);
+    const attack = smoothingFrequency(context, gate.attack);
+    if (initial) {
+      envelope.frequency.value = release;
+      smoothing.frequency.value = attack;
+    } else {
+      setParam(context, envelope.frequency, release);
+      setParam(context, smoothing.frequency, attack);
+    }
+  };
+  apply(effect, true);
+
+  input.connect(vca);
+  input.connect(rectifier);
+  rectifier.connect(envelope);
+  envelope.connect(step);
+  step.connect(smoothing);
+  smoothing.connect(vca.gain);
+
+  return {
+    input,
+    output: vca,
+    update: next => apply(next as GateEffect, false),
+    dispose: () => [input, rectifier, envelope, step, smoothing, vca].forEach(node => node.disconnect()),
+  };
+}
+
+function createDelay(context: BaseAudioContext, effect: DelayEffect): EffectNode {
+  const input = context.createGain();
+  const output = context.createGain();
+  const dry = context.createGain();
+  const wet = context.createGain();
+  const delay = context.createDelay(MAX_DELAY_SECONDS);
+  const feedback = context.createGain();
+
+  const apply = (settings: DelayEffect, initial: boolean) => {
+    const values: [AudioParam, number][] = [
+      [delay.delayTime, Math.min(settings.time, MAX_DELAY_SECONDS)],
+      [feedback.gain, Math.min(settings.feedback, 0.9)],
+      [dry.gain, 1 - settings.mix],
+      [wet.gain, settings.mix],
+    ];
+    values.forEach(([param, value]) => {
+      if (initial) param.value = value;
+      else setParam(context, param, value);
+    });
+  };
+  apply(effect, true);
+
+  input.connect(dry);
+  dry.connect(output);
+  input.connect(delay);
+  delay.connect(feedback);
+  feedback.connect(delay);
+  delay.connect(wet);
+  wet.connect(output);
+
+  return {
+    input,
+    output,
+    update: next => apply(next as DelayEffect, false),
+    dispose: () => [input, dry, wet, delay, feedback, output].forEach(node => node.disconnect()),
+  };
+}
+
+// Small deterministic PRNG so every render of a reverb gets the same impulse response
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Stereo impulse response: decorrelated noise per channel under an
+ * exponential envelope that reaches -60 dB after `decay` seconds.
+ */
+export function createReverbImpulse(context: BaseAudioContext, decay: number): AudioBuffer {
+  const seconds = Math.max(0.1, Math.min(decay, MAX_REVERB_SECONDS));
+  const length = Math.ceil(seconds * context.sampleRate);
+  const impulse = context.createBuffer(2, length, context.sampleRate);
+
+  for (let channel = 0; channel < 2; channel++) {
+    const random = seededRandom(channel + 1);
+    const data = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      const t = i / context.sampleRate;
+      data[i] = (random() * 2 - 1) * Math.exp((-6.9 * t) / seconds);
+    }
+  }
+  return impulse;
+}
+
+function createReverb(context: BaseAudioContext, effect: ReverbEffect): EffectNode {
+  const input = context.createGain();
+  const output = context.createGain();
+  const dry = context.createGain();
+  const wet = context.createGain();
+  const preDelay = context.createDelay(1);
+  const convolver = context.createConvolver();
+  convolver.buffer = createReverbImpulse(context, effect.decay);
+
+  const apply = (settings: ReverbEffect, initial: boolean) => {
+    const values: [AudioParam, number][] = [
+      [preDelay.delayTime, Math.min(settings.preDelay, 1)],
+      [dry.gain, 1 - settings.mix],
+      [wet.gain, settings.mix],
+    ];
+    values.forEach(([param, value]) => {
+      if (initial) param.value = value;
+      else setParam(context, param, value);
+    });
+  };
+  apply(effect, true);
+
+  input.connect(dry);
+  dry.connect(output);
+  input.connect(preDelay);
+  preDelay.connect(convolver);
+  convolver.connect(wet);
+  wet.connect(output);
+
+  return {
+    input,
+    output,
+    update: next => apply(next as ReverbEffect, false),
+    dispose: () => [input, dry, wet, preDelay, convolver, output].forEach(node => node.disconnect()),
+  };
+}
+
+function createEffectNode(context: BaseAudioContext, effect: TrackEffect): EffectNode {
+  switch (effect.type) {
+    case 'eq':
+      return createEq(context, effect);
+    case 'compressor':
+      return createCompressor(context, effect);
+    case 'gate':
+      return createGate(context, effect);
+    case 'delay':
+      return createDelay(context, effect);
+    case 'reverb':
+      return createReverb(context, effect);
+  }
+}
+
+/**
+ * The insert chain of one track, between a fixed input and output. Settings
+ * changes are applied to the running nodes; adding, removing, reordering or
+ * bypassing effects rebuilds the nodes in between.
+ */
+export class EffectChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private nodes: EffectNode[] = [];
+  private structure = '';
+
+  constructor(private context: BaseAudioContext, effects: TrackEffect[] = []) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.build(effects);
+  }
+
+  setEffects(effects: TrackEffect[] = []): void {
+    const active = effects.filter(effect => effect.enabled);
+    if (this.structureOf(active) === this.structure) {
+      active.forEach((effect, index) => this.nodes[index].update(effect));
+      return;
+    }
+
+    this.input.disconnect();
+    this.nodes.forEach(node => node.dispose());
+    this.build(effects);
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    this.nodes.forEach(node => node.dispose());
+    this.nodes = [];
+  }
+
+  private build(effects: TrackEffect[]): void {
+    const active = effects.filter(effect => effect.enabled);
+    this.nodes = active.map(effect => createEffectNode(this.context, effect));
+    this.structure = this.structureOf(active);
+
+    let previous: AudioNode = this.input;
+    for (const node of this.nodes) {
+      previous.connect(node.input);
+      previous = node.output;
+    }
+    previous.connect(this.output);
+  }
+
+  private structureOf(effects: TrackEffect[]): string {
+    return effects.map(structureOf).join('|');
+  }
+}
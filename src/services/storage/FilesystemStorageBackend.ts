@@ -0,0 +1,250 @@
+import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
+import { STORAGE_COLLECTIONS, type StorageBackend } from './StorageBackend';
+import { blobToBase64 } from './base64';
+
+const VERIFY_FILE = 'test-verify.json';
+const TEMP_SUFFIX = '.tmp';
+const IGNORED_DOCUMENTS = [VERIFY_FILE, 'test-release.json'];
+
+/**
+ * Native backend on top of Capacitor Filesystem, rooted at
+ * `Documents/riff-layer-muse/<collection>/`.
+ */
+export class FilesystemStorageBackend implements StorageBackend {
+  readonly kind = 'filesystem' as const;
+  readonly isPersistent = true;
+
+  private readonly ROOT_DIR = 'riff-layer-muse';
+
+  async initialize(): Promise<void> {
+    // Retry logic for initialization
+    let lastError: unknown = null;
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      try {
+        console.log(`📁 Initializing filesystem (attempt ${attempt}/3)...`);
+
+        await this.ensureDir(this.ROOT_DIR);
+        for (const collection of Object.values(STORAGE_COLLECTIONS)) {
+          await this.ensureDir(this.dirFor(collection));
+        }
+
+        // Test write, verify by reading back, clean up
+        const testPath = `${this.dirFor(STORAGE_COLLECTIONS.projects)}/${VERIFY_FILE}`;
+        console.log('🧪 Testing filesystem write...');
+        await Filesystem.writeFile({
+          path: testPath,
+          data: JSON.stringify({ test: true, timestamp: Date.now() }),
+          directory: Directory.Documents,
+          encoding: Encoding.UTF8
+        });
+
+        console.log('🧪 Verifying write...');
+        const readResult = await Filesystem.readFile({
+          path: testPath,
+          directory: Directory.Documents,
+          encoding: Encoding.UTF8
+        });
+        if (!readResult.data) {
+          throw new Error('Verification failed - no data read back');
+        }
+
+        await Filesystem.deleteFile({
+          path: testPath,
+          directory: Directory.Documents
+        });
+
+        await this.recoverInterruptedWrites();
+
+        console.log('✅ Filesystem verified and working!');
+        return;
+      } catch (error) {
+        lastError = error;
+        console.error(`❌ Init attempt ${attempt} failed:`, error instanceof Error ? error.message : error);
+        if (attempt < 3) {
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('Failed to initialize after 3 attempts');
+  }
+
+  async readDocument(collection: string, id: string): Promise<string | null> {
+    try {
+      const result = await Filesystem.readFile({
+        path: this.documentPath(collection, id),
+        directory: Directory.Documents,
+        encoding: Encoding.UTF8
+      });
+      return typeof result.data === 'string' ? result.data : await result.data.text();
+    } catch {
+      return null;
+    }
+  }
+
+  async writeDocument(collection: string, id: string, data: string): Promise<void> {
+    const path = this.documentPath(collection, id);
+    const tempPath = `${path}${TEMP_SUFFIX}`;
+
+    // Write beside the target, then swap it in: a crash mid-write leaves the old file intact
+    await Filesystem.writeFile({
+      path: tempPath,
+      data,
+      directory: Directory.Documents,
+      encoding: Encoding.UTF8,
+      recursive: true
+    });
+    try {
+      await this.moveFile(tempPath, path);
+    } catch {
+      // Some platforms refuse to rename over an existing file. Until the second rename lands the
+      // complete temp file is the only copy, and recoverInterruptedWrites promotes it if we crash here
+      await Filesystem.deleteFile({ path, directory: Directory.Documents }).catch(() => undefined);
+      await this.moveFile(tempPath, path);
+    }
+  }
+
+  async deleteDocument(collection: string, id: string): Promise<void> {
+    await Filesystem.deleteFile({
+      path: this.documentPath(collection, id),
+      directory: Directory.Documents
+    });
+  }
+
+  async listDocuments(collection: string): Promise<string[]> {
+    const names = await this.listNames(collection);
+    return names
+      .filter(name => name.endsWith('.json') && !IGNORED_DOCUMENTS.includes(name))
+      .map(name => name.replace(/\.json$/, ''));
+  }
+
+  async readBlob(collection: string, name: string): Promise<string | null> {
+    try {
+      const result = await Filesystem.readFile({
+        path: `${this.dirFor(collection)}/${name}`,
+        directory: Directory.Documents
+      });
+      return typeof result.data === 'string' ? result.data : await blobToBase64(result.data);
+    } catch {
+      return null;
+    }
+  }
+
+  async writeBlob(collection: string, name: string, base64: string): Promise<void> {
+    await Filesystem.writeFile({
+      path: `${this.dirFor(collection)}/${name}`,
+      data: base64,
+      directory: Directory.Documents,
+      recursive: true
+    });
+  }
+
+  async deleteBlob(collection: string, name: string): Promise<void> {
+    await Filesystem.deleteFile({
+      path: `${this.dirFor(collection)}/${name}`,
+      directory: Directory.Documents
+    });
+  }
+
+  async hasBlob(collection: string, name: string): Promise<boolean> {
+    try {
+      await Filesystem.stat({
+        path: `${this.dirFor(collection)}/${name}`,
+        directory: Directory.Documents
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async blobSize(collection: string, name: string): Promise<number> {
+    try {
+      const result = await Filesystem.stat({
+        path: `${this.dirFor(collection)}/${name}`,
+        directory: Directory.Documents
+      });
+      return result.size;
+    } catch {
+      return 0;
+    }
+  }
+
+  async listBlobs(collection: string): Promise<string[]> {
+    return this.listNames(collection);
+  }
+
+  private dirFor(collection: string): string {
+    return `${this.ROOT_DIR}/${collection}`;
+  }
+
+  private documentPath(collection: string, id: string): string {
+    return `${this.dirFor(collection)}/${id}.json`;
+  }
+
+  private async moveFile(from: string, to: string): Promise<void> {
+    await Filesystem.rename({
+      from,
+      to,
+      directory: Directory.Documents,
+      toDirectory: Directory.Documents
+    });
+  }
+
+  // Leftovers from writes that were interrupted before the rename. If the target
+  // is gone the temp file is the only complete copy, so promote it instead.
+  private async recoverInterruptedWrites(): Promise<void> {
+    for (const collection of Object.values(STORAGE_COLLECTIONS)) {
+      const names = await this.listNames(collection);
+      for (const name of names) {
+        if (!name.endsWith(TEMP_SUFFIX)) continue;
+
+        const tempPath = `${this.dirFor(collection)}/${name}`;
+        const targetName = name.slice(0, -TEMP_SUFFIX.length);
+        try {
+          if (names.includes(targetName)) {
+            await Filesystem.deleteFile({ path: tempPath, directory: Directory.Documents });
+            console.log('🧹 Removed interrupted write:', name);
+          } else {
+            await this.moveFile(tempPath, `${this.dirFor(collection)}/${targetName}`);
+            console.log('🩹 Completed interrupted write:', targetName);
+          }
+        } catch (error) {
+          console.warn('⚠️ Failed to clean up temp file:', name, error);
+        }
+      }
+    }
+  }
+
+  private async ensureDir(path: string): Promise<void> {
+    try {
+      await Filesystem.mkdir({
+        path,
+        directory: Directory.Documents,
+        recursive: true
+      });
+    } catch (error) {
+      if (!(error instanceof Error && error.message.includes('exists'))) {
+        throw error;
+      }
+    }
+  }
+
+  private async listNames(collection: string): Promise<string[]> {
+    try {
+      const result = await Filesystem.readdir({
+        path: this.dirFor(collection),
+        directory: Directory.Documents
+      });
+
+      // Older plugin versions return plain file names instead of FileInfo objects
+      const files: unknown[] = Array.isArray(result?.files) ? result.files : [];
+      return files
+        .map(file => (typeof file === 'string' ? file : (file as { name?: string })?.name))
+        .filter((name): name is string => !!name);
+    } catch (error) {
+      console.warn(`⚠️ Failed to list ${collection}:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+}
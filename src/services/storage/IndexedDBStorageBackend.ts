@@ -0,0 +1,133 @@
+import type { StorageBackend } from './StorageBackend';
+import { base64ToBytes, blobToBase64 } from './base64';
+
+const DB_NAME = 'riff-layer-muse';
+const DB_VERSION = 1;
+const DOCUMENT_STORE = 'documents';
+const BLOB_STORE = 'blobs';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Browser backend. Documents are stored as strings and audio as `Blob`s in
+ * two object stores keyed by `<collection>/<id>`, so takes survive a reload.
+ */
+export class IndexedDBStorageBackend implements StorageBackend {
+  readonly kind = 'indexeddb' as const;
+  readonly isPersistent = true;
+
+  private db: IDBDatabase | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async initialize(): Promise<void> {
+    if (this.db) return;
+
+    this.db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DOCUMENT_STORE)) {
+          db.createObjectStore(DOCUMENT_STORE);
+        }
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          db.createObjectStore(BLOB_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB open blocked by another tab'));
+    });
+
+    // Ask the browser not to evict our data under storage pressure
+    try {
+      await navigator.storage?.persist?.();
+    } catch {
+      // Not supported everywhere - best effort only
+    }
+
+    console.log('✅ IndexedDB storage ready');
+  }
+
+  async readDocument(collection: string, id: string): Promise<string | null> {
+    const value = await promisify(this.store(DOCUMENT_STORE, 'readonly').get(`${collection}/${id}`));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async writeDocument(collection: string, id: string, data: string): Promise<void> {
+    await this.write(DOCUMENT_STORE, `${collection}/${id}`, data);
+  }
+
+  async deleteDocument(collection: string, id: string): Promise<void> {
+    await this.remove(DOCUMENT_STORE, `${collection}/${id}`);
+  }
+
+  async listDocuments(collection: string): Promise<string[]> {
+    return this.listKeys(DOCUMENT_STORE, collection);
+  }
+
+  async readBlob(collection: string, name: string): Promise<string | null> {
+    const value = await promisify(this.store(BLOB_STORE, 'readonly').get(`${collection}/${name}`));
+    return value instanceof Blob ? blobToBase64(value) : null;
+  }
+
+  async writeBlob(collection: string, name: string, base64: string): Promise<void> {
+    const blob = new Blob([base64ToBytes(base64)], { type: 'audio/wav' });
+    await this.write(BLOB_STORE, `${collection}/${name}`, blob);
+  }
+
+  async deleteBlob(collection: string, name: string): Promise<void> {
+    await this.remove(BLOB_STORE, `${collection}/${name}`);
+  }
+
+  async hasBlob(collection: string, name: string): Promise<boolean> {
+    const count = await promisify(this.store(BLOB_STORE, 'readonly').count(`${collection}/${name}`));
+    return count > 0;
+  }
+
+  async blobSize(collection: string, name: string): Promise<number> {
+    const value = await promisify(this.store(BLOB_STORE, 'readonly').get(`${collection}/${name}`));
+    return value instanceof Blob ? value.size : 0;
+  }
+
+  async listBlobs(collection: string): Promise<string[]> {
+    return this.listKeys(BLOB_STORE, collection);
+  }
+
+  private store(name: string, mode: IDBTransactionMode): IDBObjectStore {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+    return this.db.transaction(name, mode).objectStore(name);
+  }
+
+  private write(storeName: string, key: string, value: unknown): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.store(storeName, 'readwrite');
+      store.put(value, key);
+      store.transaction.oncomplete = () => resolve();
+      store.transaction.onerror = () => reject(store.transaction.error);
+      store.transaction.onabort = () => reject(store.transaction.error);
+    });
+  }
+
+  private remove(storeName: string, key: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.store(storeName, 'readwrite');
+      store.delete(key);
+      store.transaction.oncomplete = () => resolve();
+      store.transaction.onerror = () => reject(store.transaction.error);
+    });
+  }
+
+  private async listKeys(storeName: string, collection: string): Promise<string[]> {
+    const prefix = `${collection}/`;
+    const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+    const keys = await promisify(this.store(storeName, 'readonly').getAllKeys(range));
+    return keys.map(key => String(key).substring(prefix.length));
+  }
+}
@@ -0,0 +1,65 @@
+import type { StorageBackend } from './StorageBackend';
+
+/**
+ * Last-resort backend when nothing persistent is available.
+ * Everything is lost on app restart.
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly kind = 'memory' as const;
+  readonly isPersistent = false;
+
+  private documents: Map<string, string> = new Map();
+  private blobs: Map<string, string> = new Map();
+
+  async initialize(): Promise<void> {
+    console.log('💾 Memory storage backend ready (data will be lost on restart)');
+  }
+
+  async readDocument(collection: string, id: string): Promise<string | null> {
+    return this.documents.get(`${collection}/${id}`) ?? null;
+  }
+
+  async writeDocument(collection: string, id: string, data: string): Promise<void> {
+    this.documents.set(`${collection}/${id}`, data);
+  }
+
+  async deleteDocument(collection: string, id: string): Promise<void> {
+    this.documents.delete(`${collection}/${id}`);
+  }
+
+  async listDocuments(collection: string): Promise<string[]> {
+    return this.listKeys(this.documents, collection);
+  }
+
+  async readBlob(collection: string, name: string): Promise<string | null> {
+    return this.blobs.get(`${collection}/${name}`) ?? null;
+  }
+
+  async writeBlob(collection: string, name: string, base64: string): Promise<void> {
+    this.blobs.set(`${collection}/${name}`, base64);
+  }
+
+  async deleteBlob(collection: string, name: string): Promise<void> {
+    this.blobs.delete(`${collection}/${name}`);
+  }
+
+  async hasBlob(collection: string, name: string): Promise<boolean> {
+    return this.blobs.has(`${collection}/${name}`);
+  }
+
+  async blobSize(collection: string, name: string): Promise<number> {
+    const base64 = this.blobs.get(`${collection}/${name}`);
+    return base64 ? Math.floor(base64.length * 3 / 4) : 0;
+  }
+
+  async listBlobs(collection: string): Promise<string[]> {
+    return this.listKeys(this.blobs, collection);
+  }
+
+  private listKeys(map: Map<string, string>, collection: string): string[] {
+    const prefix = `${collection}/`;
+    return Array.from(map.keys())
+      .filter(key => key.startsWith(prefix))
+      .map(key => key.substring(prefix.length));
+  }
+}
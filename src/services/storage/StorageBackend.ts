@@ -0,0 +1,44 @@
+/**
+ * Pluggable persistence for projects and audio.
+ *
+ * Data is grouped into collections (`projects`, `audio`, ...). Documents are
+ * UTF-8 JSON strings addressed by id; blobs are binary files addressed by
+ * name and passed around as base64, matching what Capacitor Filesystem reads
+ * and writes natively.
+ *
+ * `writeDocument` must be atomic: readers see either the previous document or
+ * the complete new one, never a partial write.
+ */
+
+export type StorageBackendKind = 'filesystem' | 'indexeddb' | 'memory';
+
+export const STORAGE_COLLECTIONS = {
+  projects: 'projects',
+  audio: 'audio',
+  journal: 'journal',
+  backups: 'backups',
+  exports: 'exports',
+  templates: 'templates',
+  library: 'library',
+} as const;
+
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  /** Whether data survives an app restart / page reload */
+  readonly isPersistent: boolean;
+
+  initialize(): Promise<void>;
+
+  readDocument(collection: string, id: string): Promise<string | null>;
+  writeDocument(collection: string, id: string, data: string): Promise<void>;
+  deleteDocument(collection: string, id: string): Promise<void>;
+  listDocuments(collection: string): Promise<string[]>;
+
+  readBlob(collection: string, name: string): Promise<string | null>;
+  writeBlob(collection: string, name: string, base64: string): Promise<void>;
+  deleteBlob(collection: string, name: string): Promise<void>;
+  hasBlob(collection: string, name: string): Promise<boolean>;
+  /** Size in bytes, 0 if the blob doesn't exist */
+  blobSize(collection: string, name: string): Promise<number>;
+  listBlobs(collection: string): Promise<string[]>;
+}
@@ -0,0 +1,26 @@
+// Base64 helpers shared by the storage backends and the audio store
+
+export const stripDataUrlPrefix = (data: string): string =>
+  data.includes(',') ? data.split(',')[1] : data;
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  // Chunked to stay clear of the argument limit of String.fromCharCode
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+export const blobToBase64 = async (blob: Blob): Promise<string> =>
+  bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
@@ -0,0 +1,56 @@
+import { Capacitor } from '@capacitor/core';
+import type { StorageBackend } from './StorageBackend';
+import { FilesystemStorageBackend } from './FilesystemStorageBackend';
+import { IndexedDBStorageBackend } from './IndexedDBStorageBackend';
+import { MemoryStorageBackend } from './MemoryStorageBackend';
+
+export type { StorageBackend, StorageBackendKind } from './StorageBackend';
+export { STORAGE_COLLECTIONS } from './StorageBackend';
+export { FilesystemStorageBackend, IndexedDBStorageBackend, MemoryStorageBackend };
+
+let selectedBackend: Promise<StorageBackend> | null = null;
+
+/**
+ * Shared backend for every storage consumer, selected once on first use.
+ */
+export function getStorageBackend(): Promise<StorageBackend> {
+  if (!selectedBackend) {
+    selectedBackend = selectStorageBackend();
+  }
+  return selectedBackend;
+}
+
+/**
+ * Pick the best available backend for this platform:
+ * native filesystem on device, IndexedDB in the browser, memory as a last resort.
+ */
+export async function selectStorageBackend(): Promise<StorageBackend> {
+  const candidates: StorageBackend[] = [];
+
+  try {
+    if (Capacitor.isNativePlatform()) {
+      candidates.push(new FilesystemStorageBackend());
+    }
+  } catch (error) {
+    console.warn('⚠️ Capacitor not available:', error);
+  }
+
+  if (IndexedDBStorageBackend.isSupported()) {
+    candidates.push(new IndexedDBStorageBackend());
+  }
+
+  for (const backend of candidates) {
+    try {
+      await backend.initialize();
+      console.log('✅ Using storage backend:', backend.kind);
+      return backend;
+    } catch (error) {
+      console.error(`❌ Storage backend "${backend.kind}" failed to initialize:`, error);
+    }
+  }
+
+  const fallback = new MemoryStorageBackend();
+  await fallback.initialize();
+  console.log('🔄 Fallback to memory-only');
+  return fallback;
+}